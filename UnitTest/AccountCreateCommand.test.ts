@@ -1,24 +1,25 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { AccountCreateCommand } from '../src/commands/AccountCreateCommand.js';
 import { CommandContext } from '../src/commands/types.js';
-import fs from 'node:fs/promises';
-import { existsSync } from 'node:fs';
+import { validateArgs } from '../src/commands/spec.js';
+import { MemoryAccountStore } from '../src/storage/index.js';
+import { verifyPin } from '../src/PinGuard.js';
 
-vi.mock('node:fs', () => ({
-    existsSync: vi.fn(),
-}));
-
-vi.mock('node:fs/promises', () => ({
-    default: {
-        writeFile: vi.fn(),
-    }
-}));
+function createContext(args: string[]) {
+    const socketMock = { remoteAddress: '192.168.1.1', write: vi.fn() } as any;
+    const store = new MemoryAccountStore();
+    const ctx: CommandContext = {
+        socket: socketMock,
+        args,
+        bankCode: '1234',
+        remoteInfo: '192.168.1.1:12345',
+        logger: { info: vi.fn() } as any,
+        store,
+    } as any;
+    return { ctx, socketMock, store };
+}
 
 describe('AccountCreateCommand', () => {
-    beforeEach(() => {
-        vi.clearAllMocks();
-    });
-
     it('should create an account and write to socket', async () => {
         const socketMock = {
             remoteAddress: '192.168.1.1',
@@ -29,22 +30,48 @@ describe('AccountCreateCommand', () => {
             info: vi.fn(),
         } as any;
 
+        const store = new MemoryAccountStore();
+
         const ctx: CommandContext = {
             socket: socketMock,
+            args: [],
             bankCode: '1234',
             remoteInfo: '192.168.1.1:12345',
             logger: loggerMock,
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
+            store,
         } as any;
 
-        (existsSync as any).mockReturnValue(false);
-        (fs.writeFile as any).mockResolvedValue(undefined);
-
         const command = new AccountCreateCommand();
         await command.execute(ctx);
 
-        expect(fs.writeFile).toHaveBeenCalled();
-        expect(socketMock.write).toHaveBeenCalledWith(expect.stringMatching(/^AC \d{5}\/1234\r\n$/));
+        const accounts = await store.list();
+        expect(accounts).toHaveLength(1);
+        expect(accounts[0]).toMatchObject({ owner: '192.168.1.1', balance: 0n });
+        expect(socketMock.write).toHaveBeenCalledWith(expect.stringMatching(/^AC \d{5}\/1234 \d{6}\r\n$/));
         expect(loggerMock.info).toHaveBeenCalled();
+
+        // Vygenerovaný PIN je uložen jen jako hash
+        const pin = socketMock.write.mock.calls[0][0].trim().split(' ')[2];
+        expect(accounts[0].pinHash).not.toContain(pin);
+        expect(await verifyPin(pin, accounts[0].pinHash!)).toBe(true);
+    });
+
+    it('should use the PIN chosen by the client', async () => {
+        const { ctx, socketMock, store } = createContext(['4321']);
+
+        await new AccountCreateCommand().execute(ctx);
+
+        const [account] = await store.list();
+        expect(socketMock.write).toHaveBeenCalledWith(`AC ${account.number}/1234\r\n`);
+        expect(await verifyPin('4321', account.pinHash!)).toBe(true);
+    });
+
+    it('should reject a malformed PIN before the command runs', () => {
+        const { spec } = new AccountCreateCommand();
+
+        expect(() => validateArgs(spec, ['12ab'])).toThrow('INVALID_PIN_FORMAT');
+        expect(() => validateArgs(spec, ['123'])).toThrow('INVALID_PIN_FORMAT');
+        expect(() => validateArgs(spec, ['1234', 'navíc'])).toThrow('INVALID_FORMAT');
+        expect(() => validateArgs(spec, [])).not.toThrow();
     });
 });
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AccountHistoryCommand } from '../src/commands/AccountHistoryCommand.js';
+import { CommandContext } from '../src/commands/types.js';
+import { MemoryAccountStore } from '../src/storage/index.js';
+import * as helpers from '../src/commands/helpers.js';
+import { PeerClient } from '../src/PeerClient.js';
+
+vi.mock('../src/commands/helpers.js', () => ({
+    proxyCommand: vi.fn(),
+}));
+
+describe('AccountHistoryCommand', () => {
+    let store: MemoryAccountStore;
+    let number: string;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        store = new MemoryAccountStore();
+        ({ number } = await store.create('127.0.0.1'));
+        await store.setBalance(number, 500n, 'AD');
+        await store.setBalance(number, 300n, 'AW');
+    });
+
+    const run = async (args: string[]) => {
+        const socketMock = { write: vi.fn() } as any;
+        const ctx: CommandContext = { socket: socketMock, args, bankCode: '9999', store } as any;
+        await new AccountHistoryCommand().execute(ctx);
+        return socketMock.write.mock.calls[0][0] as string;
+    };
+
+    it('should list operations newest first with running balance', async () => {
+        const reply = await run([`${number}/9999`]);
+
+        expect(reply).toMatch(/^AH \S+Z AW -200 300 \| \S+Z AD \+500 500 \| \S+Z AC 0 0\r\n$/);
+    });
+
+    it('should page the history with offset and limit', async () => {
+        expect(await run([`${number}/9999`, '1', '1'])).toMatch(/^AH \S+Z AD \+500 500\r\n$/);
+        expect(await run([`${number}/9999`, '3'])).toBe('AH\r\n');
+    });
+
+    it('should cap the limit at 100 operations', async () => {
+        const history = vi.spyOn(store, 'history');
+        await run([`${number}/9999`, '0', '5000']);
+
+        expect(history).toHaveBeenCalledWith(number, 0, 100);
+    });
+
+    it('should proxy command for remote account', async () => {
+        const socketMock = { write: vi.fn() } as any;
+        const ctx: CommandContext = {
+            socket: socketMock,
+            args: ['12345/1111', '0', '5'],
+            bankCode: '9999',
+            CONFIG: { PORT: 65525, RESPONSE_TIMEOUT: 5000 },
+            peers: new PeerClient({ port: 65525 }),
+        } as any;
+
+        (helpers.proxyCommand as any).mockResolvedValue('AH');
+        await new AccountHistoryCommand().execute(ctx);
+
+        expect(helpers.proxyCommand).toHaveBeenCalledWith('1111', 65525, 'AH 12345/1111 0 5', 5000);
+        expect(socketMock.write).toHaveBeenCalledWith('AH\r\n');
+    });
+
+    it('should return error if account does not exist', async () => {
+        await expect(run(['99999/9999'])).rejects.toThrow('ACCOUNT_NOT_FOUND');
+    });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { AccountLockManager } from '../src/AccountLockManager.js';
+import { TransactionJournal } from '../src/TransactionJournal.js';
+import { AccountStore, FileAccountStore } from '../src/storage/index.js';
+import { PinGuard } from '../src/PinGuard.js';
+import { commandRegistry, CommandContext } from '../src/commands/index.js';
+
+const silentLogger = { info: () => {}, warn: () => {}, error: () => {} } as any;
+
+/**
+ * Minimální TCP server, který předává příkazy do commandRegistry stejně jako main.ts.
+ */
+function startTestServer(CONFIG: any, accountLocks: AccountLockManager, store: AccountStore): Promise<net.Server> {
+    const server = net.createServer((socket) => {
+        socket.on('data', async (data) => {
+            const [command, ...args] = data.toString().trim().split(/\s+/);
+            const ctx: CommandContext = {
+                socket,
+                args,
+                bankCode: '127.0.0.1',
+                remoteInfo: `${socket.remoteAddress}:${socket.remotePort}`,
+                logger: silentLogger,
+                networkMonitor: null as any,
+                accountLocks,
+                store,
+                transfers: null as any,
+                pins: new PinGuard(),
+                CONFIG
+            };
+            try {
+                await commandRegistry.get(command)!.execute(ctx);
+            } catch (err: any) {
+                socket.write(`ER ${err.message}\r\n`);
+            }
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function sendCommand(port: number, line: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const socket = net.createConnection({ host: '127.0.0.1', port }, () => socket.write(`${line}\r\n`));
+        socket.on('data', (data) => {
+            resolve(data.toString().trim());
+            socket.end();
+        });
+        socket.on('error', reject);
+    });
+}
+
+describe('AccountLockManager', () => {
+    it('should run operations on the same account one after another', async () => {
+        const locks = new AccountLockManager();
+        const order: string[] = [];
+        const slow = locks.runExclusive('12345', async () => {
+            order.push('first-start');
+            await new Promise(r => setTimeout(r, 20));
+            order.push('first-end');
+        });
+        const fast = locks.runExclusive('12345', async () => {
+            order.push('second');
+        });
+
+        await Promise.all([slow, fast]);
+
+        expect(order).toEqual(['first-start', 'first-end', 'second']);
+        expect(locks.isLocked('12345')).toBe(false);
+    });
+
+    it('should not block operations on different accounts', async () => {
+        const locks = new AccountLockManager();
+        let release!: () => void;
+        const held = locks.runExclusive('11111', () => new Promise<void>(r => { release = r; }));
+
+        await expect(locks.runExclusive('22222', async () => 'done')).resolves.toBe('done');
+
+        release();
+        await held;
+    });
+
+    it('should reject with ACCOUNT_BUSY when the wait is too long', async () => {
+        const locks = new AccountLockManager(30);
+        let release!: () => void;
+        const held = locks.runExclusive('12345', () => new Promise<void>(r => { release = r; }));
+
+        await expect(locks.runExclusive('12345', async () => 'never')).rejects.toThrow('ACCOUNT_BUSY');
+
+        release();
+        await held;
+        expect(locks.isLocked('12345')).toBe(false);
+    });
+
+    it('should release the lock when the operation throws', async () => {
+        const locks = new AccountLockManager();
+
+        await expect(locks.runExclusive('12345', async () => { throw new Error('LOW_FUNDS'); })).rejects.toThrow('LOW_FUNDS');
+        await expect(locks.runExclusive('12345', async () => 'ok')).resolves.toBe('ok');
+    });
+});
+
+describe('Concurrent transactions over TCP', () => {
+    let dir: string;
+    let server: net.Server;
+    let store: FileAccountStore;
+    let port: number;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-'));
+        await fs.writeFile(path.join(dir, '12345_127.0.0.1.txt'), '0');
+        store = new FileAccountStore(dir, new TransactionJournal(path.join(dir, 'journal.log')));
+        await store.init();
+        server = await startTestServer({ LOCK_TIMEOUT: 5000, CREDIT_LIMIT: 0 }, new AccountLockManager(), store);
+        port = (server.address() as net.AddressInfo).port;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+        await store.close();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should not lose any of many parallel deposits', async () => {
+        const clients = 50;
+        const responses = await Promise.all(
+            Array.from({ length: clients }, () => sendCommand(port, 'AD 12345/127.0.0.1 10'))
+        );
+
+        expect(responses.every(r => r === 'AD')).toBe(true);
+        expect(await fs.readFile(path.join(dir, '12345_127.0.0.1.txt'), 'utf8')).toBe(`${clients * 10}`);
+    });
+
+    it('should never withdraw more than the balance with parallel withdrawals', async () => {
+        await fs.writeFile(path.join(dir, '12345_127.0.0.1.txt'), '100');
+        // Úpravu souboru mimo server převezme index účtů až ze sledování adresáře
+        await vi.waitFor(async () => expect((await store.find('12345'))!.balance).toBe(100n));
+
+        const responses = await Promise.all(
+            Array.from({ length: 20 }, () => sendCommand(port, 'AW 12345/127.0.0.1 10'))
+        );
+
+        expect(responses.filter(r => r === 'AW')).toHaveLength(10);
+        expect(responses.filter(r => r.includes('LOW_FUNDS'))).toHaveLength(10);
+        expect(await fs.readFile(path.join(dir, '12345_127.0.0.1.txt'), 'utf8')).toBe('0');
+    });
+});
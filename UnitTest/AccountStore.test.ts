@@ -0,0 +1,339 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { TransactionJournal } from '../src/TransactionJournal.js';
+import {
+    AccountStore,
+    FileAccountStore,
+    JsonAccountStore,
+    MemoryAccountStore,
+    createAccountStore,
+    parseAccountFileName
+} from '../src/storage/index.js';
+
+const implementations: [string, (dir: string) => AccountStore][] = [
+    ['FileAccountStore', dir => new FileAccountStore(path.join(dir, 'accounts'), new TransactionJournal(path.join(dir, 'journal.log')))],
+    ['MemoryAccountStore', () => new MemoryAccountStore()],
+    ['JsonAccountStore', dir => new JsonAccountStore(path.join(dir, 'accounts.json'))],
+];
+
+describe.each(implementations)('%s', (_name, createStore) => {
+    let dir: string;
+    let store: AccountStore;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-store-'));
+        store = createStore(dir);
+        await store.init();
+    });
+
+    afterEach(async () => {
+        await store.close();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should create accounts with unique five digit numbers', async () => {
+        const a = await store.create('10.0.0.1');
+        const b = await store.create('10.0.0.2');
+
+        expect(a.number).toMatch(/^\d{5}$/);
+        expect(a.number).not.toBe(b.number);
+        expect(await store.find(a.number)).toEqual({ number: a.number, owner: '10.0.0.1', balance: 0n });
+    });
+
+    it('should update balance, list and remove accounts', async () => {
+        const { number } = await store.create('10.0.0.1');
+
+        await store.setBalance(number, 12345678901234567890n, 'AD');
+        expect((await store.find(number))!.balance).toBe(12345678901234567890n);
+        expect(await store.list()).toEqual([{ number, owner: '10.0.0.1', balance: 12345678901234567890n }]);
+
+        await store.remove(number);
+        expect(await store.find(number)).toBeNull();
+        expect(await store.list()).toEqual([]);
+    });
+
+    it('should set the PIN hash without touching the balance', async () => {
+        const { number } = await store.create('10.0.0.1');
+        await store.setBalance(number, 5n, 'AD');
+
+        await store.setPin(number, 'scrypt$00$11');
+        await store.setBalance(number, 7n, 'AD');
+
+        expect(await store.find(number)).toEqual({ number, owner: '10.0.0.1', balance: 7n, pinHash: 'scrypt$00$11' });
+    });
+
+    it('should keep negative balances and the credit limit', async () => {
+        const { number } = await store.create('10.0.0.1');
+        const other = await store.create('10.0.0.2');
+        await store.setBalance(other.number, 50n, 'AD');
+
+        await store.setCreditLimit(number, 300n);
+        await store.setBalance(number, -200n, 'AW');
+        await store.setPin(number, 'scrypt$00$11');
+
+        expect(await store.find(number)).toMatchObject({ balance: -200n, pinHash: 'scrypt$00$11', creditLimit: 300n });
+        expect((await store.summary()).total).toBe(-150n);
+        expect((await store.history(number, 0, 1))[0]).toMatchObject({ operation: 'AW', amount: -200n, balance: -200n });
+
+        await store.setCreditLimit(number, undefined);
+        expect((await store.find(number))!.creditLimit).toBeUndefined();
+    });
+
+    it('should record the account history newest first and page it', async () => {
+        const { number } = await store.create('10.0.0.1');
+        await store.setBalance(number, 500n, 'AD');
+        await store.setBalance(number, 300n, 'AW');
+        await store.setBalance(number, 310n, 'AT');
+
+        const history = await store.history(number, 0, 10);
+        expect(history.map(({ operation, amount, balance }) => [operation, amount, balance])).toEqual([
+            ['AT', 10n, 310n],
+            ['AW', -200n, 300n],
+            ['AD', 500n, 500n],
+            ['AC', 0n, 0n]
+        ]);
+        expect(history[0].time).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+        expect((await store.history(number, 1, 2)).map(e => e.operation)).toEqual(['AW', 'AD']);
+        expect(await store.history(number, 4, 10)).toEqual([]);
+    });
+
+    it('should delete the history together with the account', async () => {
+        const { number } = await store.create('10.0.0.1');
+        await store.setBalance(number, 0n, 'AD');
+        await store.remove(number);
+
+        await expect(store.history(number, 0, 10)).rejects.toThrow('ACCOUNT_NOT_FOUND');
+    });
+
+    it('should keep the BA and BN totals and per-owner counts up to date', async () => {
+        const a = await store.create('10.0.0.1');
+        const b = await store.create('10.0.0.1');
+        const c = await store.create('10.0.0.2');
+        await store.setBalance(a.number, 100n, 'AD');
+        await store.setBalance(c.number, 50n, 'AD');
+        await store.setBalance(a.number, 70n, 'AW');
+        expect(await store.summary()).toEqual({ total: 120n, clients: 2 });
+        expect(await store.countOwned('10.0.0.1')).toBe(2);
+
+        await store.remove(b.number);
+        expect(await store.summary()).toEqual({ total: 120n, clients: 2 });
+        expect(await store.countOwned('10.0.0.1')).toBe(1);
+        expect(await store.countOwned('10.0.0.9')).toBe(0);
+        await store.setBalance(c.number, 0n, 'AW');
+        await store.remove(c.number);
+        expect(await store.summary()).toEqual({ total: 70n, clients: 1 });
+    });
+
+    it('should put accounts with a given number when restoring', async () => {
+        await store.put({ number: '54321', owner: '10.0.0.5', balance: 70n, pinHash: 'scrypt$00$11' });
+        const created = await store.create('10.0.0.1');
+        await store.put({ number: created.number, owner: '10.0.0.9', balance: 5n });
+
+        expect(await store.find('54321')).toEqual({ number: '54321', owner: '10.0.0.5', balance: 70n, pinHash: 'scrypt$00$11' });
+        expect(await store.find(created.number)).toEqual({ number: created.number, owner: '10.0.0.9', balance: 5n });
+        expect(await store.list()).toHaveLength(2);
+        expect((await store.history('54321', 0, 10)).map(e => [e.operation, e.balance])).toEqual([['RS', 70n]]);
+        expect(await store.summary()).toEqual({ total: 75n, clients: 2 });
+    });
+
+    it('should put an account with its history unchanged', async () => {
+        const history = [
+            { time: '2026-01-01T00:00:00.000Z', operation: 'AC', amount: 0n, balance: 0n },
+            { time: '2026-01-02T00:00:00.000Z', operation: 'AD', amount: 70n, balance: 70n }
+        ];
+        await store.put({ number: '54321', owner: '10.0.0.5', balance: 70n }, history);
+
+        expect(await store.history('54321', 0, 10)).toEqual([...history].reverse());
+    });
+
+    it('should fail when changing an unknown account', async () => {
+        await expect(store.setBalance('99999', 1n, 'AD')).rejects.toThrow('ACCOUNT_NOT_FOUND');
+        await expect(store.setPin('99999', 'scrypt$00$11')).rejects.toThrow('ACCOUNT_NOT_FOUND');
+        await expect(store.remove('99999')).rejects.toThrow('ACCOUNT_NOT_FOUND');
+    });
+});
+
+describe('Persistent stores', () => {
+    let dir: string;
+    let opened: AccountStore[];
+
+    const openFileStore = async (accountsDir: string) => {
+        const store = new FileAccountStore(accountsDir, new TransactionJournal(path.join(dir, 'journal.log')));
+        await store.init();
+        opened.push(store);
+        return store;
+    };
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-store-'));
+        opened = [];
+    });
+
+    afterEach(async () => {
+        for (const store of opened) await store.close();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep the PIN hash next to the balance in the account file', async () => {
+        const accountsDir = path.join(dir, 'accounts');
+        const store = await openFileStore(accountsDir);
+        const { number } = await store.create('192.168.1.1', 'scrypt$aa$bb');
+        await store.setBalance(number, 250n, 'AD');
+
+        expect(await fs.readFile(path.join(accountsDir, `${number}_192.168.1.1.txt`), 'utf8')).toBe('250\nscrypt$aa$bb');
+        expect(await store.find(number)).toEqual({ number, owner: '192.168.1.1', balance: 250n, pinHash: 'scrypt$aa$bb' });
+    });
+
+    it('should store a negative balance and the credit limit in the account file', async () => {
+        const accountsDir = path.join(dir, 'accounts');
+        const store = await openFileStore(accountsDir);
+        const { number } = await store.create('192.168.1.1');
+        const file = path.join(accountsDir, `${number}_192.168.1.1.txt`);
+
+        await store.setCreditLimit(number, 500n);
+        await store.setBalance(number, -120n, 'AW');
+        expect(await fs.readFile(file, 'utf8')).toBe('-120\n\n500');
+
+        const reopened = await openFileStore(accountsDir);
+        expect(await reopened.find(number)).toEqual({ number, owner: '192.168.1.1', balance: -120n, creditLimit: 500n });
+
+        await reopened.setCreditLimit(number, undefined);
+        expect(await fs.readFile(file, 'utf8')).toBe('-120');
+    });
+
+    it('should keep the original <number>_<ip>.txt format on disk', async () => {
+        const accountsDir = path.join(dir, 'accounts');
+        const store = await openFileStore(accountsDir);
+        const { number } = await store.create('192.168.1.1');
+        await store.setBalance(number, 250n, 'AD');
+
+        expect((await fs.readdir(accountsDir)).sort()).toEqual([`${number}_192.168.1.1.history`, `${number}_192.168.1.1.txt`]);
+        expect(await fs.readFile(path.join(accountsDir, `${number}_192.168.1.1.txt`), 'utf8')).toBe('250');
+    });
+
+    it('should load accounts saved by a previous JsonAccountStore', async () => {
+        const file = path.join(dir, 'accounts.json');
+        const first = new JsonAccountStore(file);
+        await first.init();
+        const { number } = await first.create('10.0.0.1');
+        await first.setBalance(number, 42n, 'AD');
+        const other = await first.create('10.0.0.2', 'scrypt$aa$bb');
+
+        const second = new JsonAccountStore(file);
+        await second.init();
+
+        expect(await second.find(number)).toEqual({ number, owner: '10.0.0.1', balance: 42n });
+        expect((await second.find(other.number))!.pinHash).toBe('scrypt$aa$bb');
+        await second.setCreditLimit(other.number, 250n);
+        await second.setBalance(other.number, -250n, 'AW');
+        const third = new JsonAccountStore(file);
+        await third.init();
+        expect(await third.find(other.number)).toMatchObject({ balance: -250n, creditLimit: 250n });
+        expect((await second.history(number, 0, 10)).map(e => [e.operation, e.amount])).toEqual([['AD', 42n], ['AC', 0n]]);
+    });
+
+    it('should keep JsonAccountStore unchanged in memory when the file cannot be written', async () => {
+        const file = path.join(dir, 'accounts.json');
+        const store = new JsonAccountStore(file);
+        await store.init();
+        const { number } = await store.create('10.0.0.1');
+        await store.setBalance(number, 100n, 'AD');
+
+        await fs.mkdir(`${file}.tmp`);
+        await expect(store.setBalance(number, 300n, 'AD')).rejects.toThrow();
+        await expect(store.remove(number)).rejects.toThrow();
+        expect(await store.find(number)).toMatchObject({ balance: 100n });
+        expect((await store.history(number, 0, 10)).map(e => e.operation)).toEqual(['AD', 'AC']);
+
+        await fs.rmdir(`${file}.tmp`);
+        await store.setBalance(number, 50n, 'AW');
+        const reopened = new JsonAccountStore(file);
+        await reopened.init();
+        expect((await reopened.history(number, 0, 10)).map(e => [e.operation, e.balance])).toEqual([['AW', 50n], ['AD', 100n], ['AC', 0n]]);
+    });
+
+    it('should append JsonAccountStore history to a log next to the accounts file', async () => {
+        const file = path.join(dir, 'accounts.json');
+        await fs.writeFile(file, JSON.stringify({
+            version: 1,
+            accounts: { '11111': { owner: '10.0.0.1', balance: '7', history: [{ time: '2026-01-01T00:00:00.000Z', operation: 'AD', amount: '7', balance: '7' }] } }
+        }));
+        const store = new JsonAccountStore(file);
+        await store.init();
+        await store.setBalance('11111', 10n, 'AD');
+        const { number } = await store.create('10.0.0.2');
+        await store.remove(number);
+
+        const data = JSON.parse(await fs.readFile(file, 'utf8'));
+        expect(data.version).toBe(2);
+        expect(data.accounts['11111']).toEqual({ owner: '10.0.0.1', balance: '10' });
+        const log = path.join(dir, data.history.file);
+        expect((await fs.readFile(log, 'utf8')).trim().split('\n')).toHaveLength(4);
+
+        // Nedopsaný konec deníku po pádu se zahodí, smazané historie se při startu uklidí
+        await fs.appendFile(log, '{"account":"11111","oper');
+        const reopened = new JsonAccountStore(file);
+        await reopened.init();
+        expect((await reopened.history('11111', 0, 10)).map(e => [e.operation, e.balance])).toEqual([['AD', 10n], ['AD', 7n]]);
+        expect((await fs.readdir(dir)).filter(name => name.endsWith('.history'))).toHaveLength(1);
+        const compacted = JSON.parse(await fs.readFile(file, 'utf8')).history.file;
+        expect((await fs.readFile(path.join(dir, compacted), 'utf8')).trim().split('\n')).toHaveLength(2);
+    });
+
+    it('should keep the account history of FileAccountStore across restarts', async () => {
+        const accountsDir = path.join(dir, 'accounts');
+        const first = await openFileStore(accountsDir);
+        const { number } = await first.create('192.168.1.1');
+        await first.setBalance(number, 250n, 'AD');
+
+        const second = await openFileStore(accountsDir);
+        expect(await second.list()).toHaveLength(1);
+        expect((await second.history(number, 0, 10)).map(e => [e.operation, e.amount, e.balance])).toEqual([['AD', 250n, 250n], ['AC', 0n, 0n]]);
+
+        await second.remove(number);
+        expect(await fs.readdir(accountsDir)).toEqual([]);
+    });
+
+    it('should build the account index from existing files at startup', async () => {
+        const accountsDir = path.join(dir, 'accounts');
+        await fs.mkdir(accountsDir);
+        await fs.writeFile(path.join(accountsDir, '11111_10.0.0.1.txt'), '100');
+        await fs.writeFile(path.join(accountsDir, '22222_10.0.0.2.txt'), '20\nscrypt$aa$bb');
+        await fs.writeFile(path.join(accountsDir, 'notes.md'), 'x');
+
+        const store = await openFileStore(accountsDir);
+
+        expect(await store.find('22222')).toEqual({ number: '22222', owner: '10.0.0.2', balance: 20n, pinHash: 'scrypt$aa$bb' });
+        expect(await store.summary()).toEqual({ total: 120n, clients: 2 });
+    });
+
+    it('should pick up account files changed outside the server', async () => {
+        const accountsDir = path.join(dir, 'accounts');
+        const store = await openFileStore(accountsDir);
+        const { number } = await store.create('10.0.0.1');
+
+        await fs.writeFile(path.join(accountsDir, `${number}_10.0.0.1.txt`), '900');
+        await fs.writeFile(path.join(accountsDir, '33333_10.0.0.3.txt'), '5');
+        await vi.waitFor(async () => expect(await store.summary()).toEqual({ total: 905n, clients: 2 }));
+        expect((await store.find(number))!.balance).toBe(900n);
+
+        await fs.rm(path.join(accountsDir, '33333_10.0.0.3.txt'));
+        await vi.waitFor(async () => expect(await store.find('33333')).toBeNull());
+    });
+
+    it('should select the implementation from config', () => {
+        expect(createAccountStore({ STORAGE_TYPE: 'memory' })).toBeInstanceOf(MemoryAccountStore);
+        expect(createAccountStore({ STORAGE_TYPE: 'json', STORAGE_FILE: path.join(dir, 'a.json') })).toBeInstanceOf(JsonAccountStore);
+        expect(createAccountStore({ ACCOUNTS_DIR: dir, JOURNAL_FILE: path.join(dir, 'j.log') })).toBeInstanceOf(FileAccountStore);
+        expect(() => createAccountStore({ STORAGE_TYPE: 'sqlite' })).toThrow('STORAGE_TYPE');
+    });
+
+    it('should ignore files that are not account files', () => {
+        expect(parseAccountFileName('12345_10.0.0.1.txt')).toEqual({ number: '12345', owner: '10.0.0.1' });
+        expect(parseAccountFileName('12345_10.0.0.1.txt.tmp')).toBeNull();
+        expect(parseAccountFileName('12345_10.0.0.1.history')).toBeNull();
+        expect(parseAccountFileName('notes.txt')).toBeNull();
+    });
+});
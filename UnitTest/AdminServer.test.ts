@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import net from 'node:net';
+import { AdminServer, ClientInfo } from '../src/AdminServer.js';
+import { Metrics } from '../src/Metrics.js';
+import { MemoryAccountStore } from '../src/storage/index.js';
+import { proxyCommand, proxyEvents } from '../src/commands/index.js';
+
+const silentLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+describe('Metrics', () => {
+    it('should count commands, errors and timeouts per command', () => {
+        const metrics = new Metrics(['AB', 'AD']);
+
+        metrics.recordCommand('AB', 3, 'ok');
+        metrics.recordCommand('AB', 20, 'error');
+        metrics.recordCommand('AD', 6000, 'timeout');
+        metrics.recordCommand('XYZ', 1, 'ok');
+        const text = metrics.render();
+
+        expect(text).toContain('bank_commands_total{command="AB"} 2');
+        expect(text).toContain('bank_command_errors_total{command="AB"} 1');
+        expect(text).toContain('bank_command_timeouts_total{command="AD"} 1');
+        // Neznámé příkazy nevytváří vlastní časové řady
+        expect(text).toContain('bank_commands_total{command="unknown"} 1');
+        expect(text).not.toContain('XYZ');
+    });
+
+    it('should fill the latency histogram cumulatively', () => {
+        const metrics = new Metrics(['AB']);
+
+        metrics.recordCommand('AB', 3, 'ok');
+        metrics.recordCommand('AB', 20, 'ok');
+        const text = metrics.render();
+
+        expect(text).toContain('bank_command_duration_seconds_bucket{command="AB",le="0.005"} 1');
+        expect(text).toContain('bank_command_duration_seconds_bucket{command="AB",le="0.025"} 2');
+        expect(text).toContain('bank_command_duration_seconds_bucket{command="AB",le="+Inf"} 2');
+        expect(text).toContain('bank_command_duration_seconds_count{command="AB"} 2');
+    });
+
+    it('should track active sockets and proxy failures by target bank', () => {
+        const metrics = new Metrics([], () => ['10.0.0.2']);
+
+        metrics.socketOpened();
+        metrics.socketOpened();
+        metrics.socketClosed();
+        metrics.recordProxyFailure('10.0.0.2');
+        metrics.recordProxyFailure('10.0.0.2');
+        metrics.recordProxyFailure('10.9.9.9');
+        metrics.recordProxyFailure('10.9.9.8');
+
+        expect(metrics.render()).toContain('bank_active_sockets 1');
+        expect(metrics.render()).toContain('bank_proxy_failures_total{target="10.0.0.2"} 2');
+        expect(metrics.render()).toContain('bank_proxy_failures_total{target="other"} 2');
+        expect(metrics.render()).not.toContain('10.9.9');
+    });
+
+    it('should report failed proxy calls through proxyEvents', async () => {
+        const closed = net.createServer();
+        await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', () => resolve()));
+        const port = (closed.address() as net.AddressInfo).port;
+        await new Promise(resolve => closed.close(resolve));
+
+        const failures: string[] = [];
+        const listener = (target: string) => failures.push(target);
+        proxyEvents.on('failure', listener);
+        try {
+            await expect(proxyCommand('127.0.0.1', port, 'BC', 500)).rejects.toThrow();
+            await expect(proxyCommand('127.0.0.1', port, 'BC', 500, { reportFailures: false })).rejects.toThrow();
+        } finally {
+            proxyEvents.off('failure', listener);
+        }
+
+        expect(failures).toEqual(['127.0.0.1']);
+    });
+});
+
+describe('AdminServer', () => {
+    let admin: AdminServer;
+    let online: boolean;
+    let store: MemoryAccountStore;
+    let metrics: Metrics;
+    let clients: ClientInfo[];
+
+    const get = async (path: string) => {
+        const res = await fetch(`http://127.0.0.1:${admin.port()}${path}`);
+        return { status: res.status, type: res.headers.get('content-type'), body: await res.text() };
+    };
+
+    beforeEach(async () => {
+        online = true;
+        store = new MemoryAccountStore();
+        metrics = new Metrics(['BC']);
+        clients = [];
+        admin = new AdminServer({
+            logger: silentLogger,
+            metrics,
+            networkMonitor: { isOnline: () => online } as any,
+            store,
+            clients: () => clients
+        });
+        await admin.start(0, '127.0.0.1');
+    });
+
+    afterEach(async () => {
+        await admin.stop();
+    });
+
+    it('should report health of network and storage', async () => {
+        expect(await get('/health')).toMatchObject({ status: 200, body: '{"status":"ok","network":true,"storage":true}' });
+
+        online = false;
+        expect(await get('/health')).toMatchObject({ status: 503, body: '{"status":"degraded","network":false,"storage":true}' });
+
+        online = true;
+        store.list = async () => { throw new Error('EACCES'); };
+        expect(await get('/health')).toMatchObject({ status: 503, body: '{"status":"degraded","network":true,"storage":false}' });
+    });
+
+    it('should serve metrics in Prometheus text format', async () => {
+        metrics.recordCommand('BC', 1, 'ok');
+        online = false;
+
+        const res = await get('/metrics');
+
+        expect(res.status).toBe(200);
+        expect(res.type).toMatch(/^text\/plain; version=0\.0\.4/);
+        expect(res.body).toContain('bank_commands_total{command="BC"} 1');
+        expect(res.body).toContain('bank_network_online 0');
+    });
+
+    it('should list connected clients and reject anything but reading', async () => {
+        clients.push({ remote: '10.0.0.7:51000', connectedAt: 'a', lastActivityAt: 'b', lastCommand: 'AB', commands: 3 });
+
+        const res = await get('/clients');
+        expect(res.status).toBe(200);
+        expect(JSON.parse(res.body)).toEqual(clients);
+
+        expect((await get('/accounts')).status).toBe(404);
+        expect((await fetch(`http://127.0.0.1:${admin.port()}/clients`, { method: 'POST' })).status).toBe(405);
+    });
+
+    it('should export accounts and create backups only when configured', async () => {
+        expect((await get('/export')).status).toBe(404);
+        expect((await fetch(`http://127.0.0.1:${admin.port()}/backup`, { method: 'POST' })).status).toBe(405);
+        await admin.stop();
+
+        let snapshotFails = false;
+        admin = new AdminServer({
+            logger: silentLogger,
+            metrics,
+            networkMonitor: { isOnline: () => online } as any,
+            store,
+            clients: () => clients,
+            snapshot: async () => {
+                if (snapshotFails) throw new Error('rozpracované operace nedoběhly do 5 ms');
+                return [{ number: '11111', owner: '10.0.0.1', balance: 100n }];
+            },
+            backup: async () => ({ file: 'backup.json.gz', createdAt: 't', storageType: 'memory', accounts: 1, total: '100' })
+        });
+        await admin.start(0, '127.0.0.1');
+
+        expect(await get('/export')).toMatchObject({ status: 200, type: 'text/csv; charset=utf-8', body: 'number,owner,balance\r\n11111,10.0.0.1,100\r\n' });
+        expect(JSON.parse((await get('/export?format=json')).body)).toEqual([{ number: '11111', owner: '10.0.0.1', balance: '100' }]);
+        expect((await get('/export?format=xml')).status).toBe(400);
+
+        const backup = await fetch(`http://127.0.0.1:${admin.port()}/backup`, { method: 'POST' });
+        expect(backup.status).toBe(200);
+        expect(await backup.json()).toMatchObject({ file: 'backup.json.gz', accounts: 1 });
+        expect((await get('/backup')).status).toBe(405);
+
+        snapshotFails = true;
+        expect(await get('/export')).toMatchObject({ status: 503, body: '{"error":"rozpracované operace nedoběhly do 5 ms"}' });
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { AuditLog, verifyAuditLog } from '../src/AuditLog.js';
+
+describe('AuditLog', () => {
+    let dir: string;
+    let now: Date;
+    const clock = () => now;
+    const entry = (command: string, amount: string) => ({ remote: '10.0.0.5:40000', command, account: '10001', amount, outcome: 'OK' });
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-test-'));
+        now = new Date('2026-03-01T10:00:00Z');
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    async function lines(day: string): Promise<string[]> {
+        return (await fs.readFile(path.join(dir, `audit-${day}.log`), 'utf8')).split('\n').filter(Boolean);
+    }
+
+    it('should chain entries across days and restarts', async () => {
+        const audit = new AuditLog(dir, 0, undefined, clock);
+        await audit.init();
+        await audit.append(entry('AD', '500'));
+        now = new Date('2026-03-02T08:00:00Z');
+        await audit.append(entry('AW', '200'));
+
+        const restarted = new AuditLog(dir, 0, undefined, clock);
+        await restarted.init();
+        const third = await restarted.append(entry('AW', '100'));
+
+        expect(third.seq).toBe(3);
+        expect(third.prev).toBe(JSON.parse((await lines('2026-03-02'))[0]).hash);
+        const result = await verifyAuditLog(dir);
+        expect(result).toMatchObject({ files: 2, entries: 3, firstSeq: 1, lastHash: third.hash, problems: [] });
+        expect(restarted.head()).toEqual({ seq: 3, hash: third.hash });
+    });
+
+    it('should cut off an entry torn by a crash and continue the chain after the last whole one', async () => {
+        const audit = new AuditLog(dir, 0, undefined, clock);
+        await audit.init();
+        await audit.append(entry('AD', '500'));
+        const second = await audit.append(entry('AW', '200'));
+        await fs.appendFile(path.join(dir, 'audit-2026-03-01.log'), '{"seq":3,"ti');
+
+        const restarted = new AuditLog(dir, 0, undefined, clock);
+        await restarted.init();
+        const third = await restarted.append(entry('AW', '100'));
+
+        expect(third).toMatchObject({ seq: 3, prev: second.hash });
+        expect(await lines('2026-03-01')).toHaveLength(3);
+        expect(await verifyAuditLog(dir)).toMatchObject({ entries: 3, lastHash: third.hash, problems: [] });
+    });
+
+    it('should detect an edited entry', async () => {
+        const audit = new AuditLog(dir, 0, undefined, clock);
+        await audit.init();
+        for (const amount of ['500', '200', '100']) await audit.append(entry('AD', amount));
+
+        const file = path.join(dir, 'audit-2026-03-01.log');
+        await fs.writeFile(file, (await fs.readFile(file, 'utf8')).replace('"amount":"200"', '"amount":"20"'));
+
+        expect((await verifyAuditLog(dir)).problems).toEqual(['audit-2026-03-01.log:2: záznam 2 byl změněn (nesedí hash)']);
+    });
+
+    it('should detect a deleted entry', async () => {
+        const audit = new AuditLog(dir, 0, undefined, clock);
+        await audit.init();
+        for (const amount of ['500', '200', '100']) await audit.append(entry('AD', amount));
+
+        const [first, , third] = await lines('2026-03-01');
+        await fs.writeFile(path.join(dir, 'audit-2026-03-01.log'), `${first}\n${third}\n`);
+
+        expect((await verifyAuditLog(dir)).problems).toEqual(['audit-2026-03-01.log:2: chybí záznamy 2 až 2']);
+    });
+
+    it('should delete files past the retention and keep verifying from the oldest kept entry', async () => {
+        const audit = new AuditLog(dir, 7, undefined, clock);
+        await audit.init();
+        await audit.append(entry('AD', '500'));
+        now = new Date('2026-03-05T10:00:00Z');
+        await audit.append(entry('AD', '200'));
+        now = new Date('2026-03-10T10:00:00Z');
+        await audit.append(entry('AD', '100'));
+
+        expect((await fs.readdir(dir)).sort()).toEqual(['audit-2026-03-05.log', 'audit-2026-03-10.log']);
+        expect(await verifyAuditLog(dir)).toMatchObject({ entries: 2, firstSeq: 2, problems: [] });
+    });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import zlib from 'node:zlib';
+import {
+    captureAccounts, createBackupArchive, exportAccounts, readAccountsWithHistory, readBackup, restoreBackup, restoreBackupFiles, verifyBackup, writeBackup
+} from '../src/Backup.js';
+import { Account, FileAccountStore, MemoryAccountStore, createAccountStore } from '../src/storage/index.js';
+import { TransactionJournal } from '../src/TransactionJournal.js';
+import { SnapshotLock } from '../src/SnapshotLock.js';
+import { AppConfig } from '../src/config.js';
+
+const accounts: Account[] = [
+    { number: '22222', owner: '10.0.0.2', balance: 12345678901234567890n, pinHash: 'scrypt$aa$bb' },
+    { number: '11111', owner: '10.0.0.1', balance: 100n }
+];
+
+describe('Backup', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-backup-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should write a versioned archive with metadata and checksums and read it back', async () => {
+        const archive = createBackupArchive(accounts, { storageType: 'file', audit: { seq: 7, hash: 'ab' } }, new Date('2026-10-19T08:00:00.000Z'));
+
+        const file = await writeBackup(dir, archive);
+
+        expect(path.basename(file)).toBe('backup-2026-10-19T08-00-00-000Z.json.gz');
+        expect(await fs.readdir(dir)).toEqual([path.basename(file)]);
+        const read = await readBackup(file);
+        expect(read).toEqual(archive);
+        expect(read.metadata).toEqual({
+            createdAt: '2026-10-19T08:00:00.000Z',
+            storageType: 'file',
+            accounts: 2,
+            total: '12345678901234567990',
+            audit: { seq: 7, hash: 'ab' }
+        });
+        expect(read.accounts.map(a => a.number)).toEqual(['11111', '22222']);
+        expect(verifyBackup(read)).toEqual([]);
+    });
+
+    it('should detect a modified or foreign archive', async () => {
+        const archive = createBackupArchive(accounts, { storageType: 'file' });
+
+        const tampered = structuredClone(archive);
+        tampered.accounts[0].balance = '999';
+        expect(verifyBackup(tampered)).toEqual([
+            'účty neodpovídají kontrolnímu součtu',
+            'součet zůstatků 12345678901234568889 nesouhlasí s metadaty (12345678901234567990)'
+        ]);
+        expect(verifyBackup({ ...archive, version: 2 })).toEqual(['nepodporovaná verze zálohy 2']);
+        expect(verifyBackup({ accounts: [] } as any)).toEqual(['soubor není záloha banky']);
+
+        const file = path.join(dir, 'broken.json.gz');
+        await fs.writeFile(file, zlib.gzipSync('{"format":'));
+        await expect(readBackup(file)).rejects.toThrow();
+    });
+
+    it('should restore into an empty bank and refuse a non-empty one unless forced', async () => {
+        const archive = createBackupArchive(accounts, { storageType: 'file' });
+        const store = new MemoryAccountStore();
+
+        expect(await restoreBackup(store, archive)).toBe(2);
+        expect(await store.find('22222')).toEqual(accounts[0]);
+        expect((await store.history('22222', 0, 10)).map(e => e.operation)).toEqual(['RS']);
+
+        const other = new MemoryAccountStore([{ number: '33333', owner: '10.0.0.3', balance: 5n }]);
+        await expect(restoreBackup(other, archive)).rejects.toThrow('--force');
+        expect(await other.list()).toHaveLength(1);
+
+        await restoreBackup(other, archive, true);
+        expect((await other.list()).map(a => a.number).sort()).toEqual(['11111', '22222']);
+    });
+
+    it('should keep the account history through a backup and restore', async () => {
+        const source = new FileAccountStore(path.join(dir, 'source'), new TransactionJournal(path.join(dir, 'source.journal')));
+        await source.init();
+        const { number } = await source.create('10.0.0.1');
+        await source.setBalance(number, 500n, 'AD');
+        await source.setBalance(number, 300n, 'AW');
+        const history = await source.history(number, 0, 10);
+        const file = await writeBackup(dir, createBackupArchive(await readAccountsWithHistory(source), { storageType: 'file' }));
+        await source.close();
+
+        const archive = await readBackup(file);
+        expect(verifyBackup(archive)).toEqual([]);
+        expect(archive.accounts[0].history!.map(e => [e.operation, e.amount, e.balance])).toEqual([['AC', '0', '0'], ['AD', '500', '500'], ['AW', '-200', '300']]);
+
+        const restored = new FileAccountStore(path.join(dir, 'restored'), new TransactionJournal(path.join(dir, 'restored.journal')));
+        await restored.init();
+        await restoreBackup(restored, archive);
+        expect(await restored.history(number, 0, 10)).toEqual(history);
+        await restored.close();
+
+        const broken = structuredClone(archive);
+        broken.accounts[0].history![1].amount = 'x';
+        expect(verifyBackup(broken)).toContainEqual(expect.stringMatching(/^neplatný účet/));
+    });
+
+    it('should capture balances under the snapshot lock and read histories after releasing it', async () => {
+        const store = new MemoryAccountStore();
+        const lock = new SnapshotLock();
+        const { number } = await store.create('10.0.0.1');
+        await store.setBalance(number, 500n, 'AD');
+        // Operace, která doběhne mezi snímkem a čtením historie - pod výhradním zámkem by čekala donekonečna
+        const history = store.history.bind(store);
+        store.history = async (...args) => {
+            await lock.runShared(() => store.setBalance(number, 100n, 'AW'));
+            return history(...args);
+        };
+
+        const { accounts: captured, extra } = await captureAccounts(store, lock, 1000, () => 'head');
+
+        expect(extra).toBe('head');
+        expect(captured[0].balance).toBe(500n);
+        expect(captured[0].history!.map(e => e.operation)).toEqual(['AC', 'AD']);
+    });
+
+    it('should restore files through a staging copy and replace the accounts only when it is complete', async () => {
+        const archive = createBackupArchive(accounts, { storageType: 'file' });
+        const CONFIG = {
+            STORAGE_TYPE: 'file',
+            ACCOUNTS_DIR: path.join(dir, 'accounts'),
+            JOURNAL_FILE: path.join(dir, 'journal.log'),
+            STORAGE_FILE: path.join(dir, 'accounts.json')
+        } as AppConfig;
+        const current = createAccountStore(CONFIG);
+        await current.init();
+        await current.put({ number: '33333', owner: '10.0.0.3', balance: 5n });
+        await current.close();
+
+        await expect(restoreBackupFiles(CONFIG, archive)).rejects.toThrow('--force');
+        expect(await restoreBackupFiles(CONFIG, archive, true)).toBe(2);
+
+        expect((await fs.readdir(dir)).sort()).toEqual(['accounts', 'journal.log']);
+        const restored = createAccountStore(CONFIG);
+        await restored.init();
+        expect((await restored.list()).map(a => a.number).sort()).toEqual(['11111', '22222']);
+        await restored.close();
+
+        const json = { ...CONFIG, STORAGE_TYPE: 'json' } as AppConfig;
+        expect(await restoreBackupFiles(json, archive)).toBe(2);
+        expect(await restoreBackupFiles(json, archive, true)).toBe(2);
+        expect(await fs.readdir(dir)).not.toContain('accounts.json.restore');
+        expect((await fs.readdir(dir)).filter(name => name.endsWith('.history'))).toEqual([expect.stringMatching(/^accounts\.json\.[0-9a-f]+\.history$/)]);
+        const restoredJson = createAccountStore(json);
+        await restoredJson.init();
+        expect(await restoredJson.find('22222')).toEqual(accounts[0]);
+        await restoredJson.close();
+    });
+
+    it('should back up negative balances and credit limits', async () => {
+        const overdrawn: Account = { number: '33333', owner: '10.0.0.3', balance: -400n, creditLimit: 500n };
+        const archive = createBackupArchive([...accounts, overdrawn], { storageType: 'file' });
+
+        expect(archive.metadata.total).toBe('12345678901234567590');
+        expect(archive.accounts[2]).toEqual({ number: '33333', owner: '10.0.0.3', balance: '-400', creditLimit: '500' });
+        expect(verifyBackup(archive)).toEqual([]);
+
+        const store = new MemoryAccountStore();
+        await restoreBackup(store, archive);
+        expect(await store.find('33333')).toEqual(overdrawn);
+    });
+
+    it('should not restore a damaged archive', async () => {
+        const archive = createBackupArchive(accounts, { storageType: 'file' });
+        archive.metadata.accounts = 3;
+        const store = new MemoryAccountStore();
+
+        await expect(restoreBackup(store, archive)).rejects.toThrow('Záloha je poškozená');
+        expect(await store.list()).toEqual([]);
+    });
+
+    it('should export accounts to CSV and JSON without PIN hashes', () => {
+        expect(exportAccounts(accounts, 'csv')).toBe('number,owner,balance\r\n11111,10.0.0.1,100\r\n22222,10.0.0.2,12345678901234567890\r\n');
+        expect(JSON.parse(exportAccounts(accounts, 'json'))).toEqual([
+            { number: '11111', owner: '10.0.0.1', balance: '100' },
+            { number: '22222', owner: '10.0.0.2', balance: '12345678901234567890' }
+        ]);
+    });
+});
@@ -1,42 +1,55 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { BalanceCommand } from '../src/commands/BalanceCommand.js';
 import { CommandContext } from '../src/commands/types.js';
+import { MemoryAccountStore } from '../src/storage/index.js';
 import * as helpers from '../src/commands/helpers.js';
-import fs from 'node:fs/promises';
+import { PeerClient } from '../src/PeerClient.js';
 
 vi.mock('../src/commands/helpers.js', () => ({
-    findAccountFile: vi.fn(),
     proxyCommand: vi.fn(),
 }));
 
-vi.mock('node:fs/promises', () => ({
-    default: {
-        readFile: vi.fn(),
-    }
-}));
-
 describe('BalanceCommand', () => {
     beforeEach(() => {
         vi.clearAllMocks();
     });
 
-    it('should return balance for local account', async () => {
+    it('should return balance and available amount for local account', async () => {
         const socketMock = { write: vi.fn() } as any;
         const ctx: CommandContext = {
             socket: socketMock,
             args: ['12345'],
             bankCode: '9999',
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
+            CONFIG: { CREDIT_LIMIT: 0 },
+            store: new MemoryAccountStore([{ number: '12345', owner: '127.0.0.1', balance: 1000n }]),
             logger: { error: vi.fn() } as any,
         } as any;
 
-        (helpers.findAccountFile as any).mockResolvedValue('./accounts/12345_127.0.0.1.txt');
-        (fs.readFile as any).mockResolvedValue('1000');
+        const command = new BalanceCommand();
+        await command.execute(ctx);
+
+        expect(socketMock.write).toHaveBeenCalledWith('AB 1000 1000\r\n');
+    });
+
+    it('should include the credit limit in the available amount', async () => {
+        const socketMock = { write: vi.fn() } as any;
+        const ctx: CommandContext = {
+            socket: socketMock,
+            args: ['12345'],
+            bankCode: '9999',
+            CONFIG: { CREDIT_LIMIT: 300 },
+            store: new MemoryAccountStore([
+                { number: '12345', owner: '127.0.0.1', balance: -200n },
+                { number: '12346', owner: '127.0.0.1', balance: -200n, creditLimit: 1000n }
+            ]),
+            logger: { error: vi.fn() } as any,
+        } as any;
 
         const command = new BalanceCommand();
         await command.execute(ctx);
+        await command.execute({ ...ctx, args: ['12346'] });
 
-        expect(socketMock.write).toHaveBeenCalledWith('AB 1000\r\n');
+        expect(socketMock.write.mock.calls).toEqual([['AB -200 100\r\n'], ['AB -200 800\r\n']]);
     });
 
     it('should proxy command for remote account', async () => {
@@ -46,6 +59,7 @@ describe('BalanceCommand', () => {
             args: ['12345/1111'],
             bankCode: '9999',
             CONFIG: { PORT: 65525, RESPONSE_TIMEOUT: 5000 },
+            peers: new PeerClient({ port: 65525 }),
             logger: { error: vi.fn() } as any,
         } as any;
 
@@ -64,14 +78,11 @@ describe('BalanceCommand', () => {
             socket: socketMock,
             args: ['12345'],
             bankCode: '9999',
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
+            store: new MemoryAccountStore(),
         } as any;
 
-        (helpers.findAccountFile as any).mockResolvedValue(null);
-
         const command = new BalanceCommand();
-        await command.execute(ctx);
-
-        expect(socketMock.write).toHaveBeenCalledWith('ER Účet neexistuje.\r\n');
+        await expect(command.execute(ctx)).rejects.toThrow('ACCOUNT_NOT_FOUND');
+        expect(socketMock.write).not.toHaveBeenCalled();
     });
 });
@@ -1,32 +1,19 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { BankAmountCommand } from '../src/commands/BankAmountCommand.js';
 import { CommandContext } from '../src/commands/types.js';
-import fs from 'node:fs/promises';
-
-vi.mock('node:fs/promises', () => ({
-    default: {
-        readdir: vi.fn(),
-        readFile: vi.fn(),
-    }
-}));
+import { MemoryAccountStore } from '../src/storage/index.js';
 
 describe('BankAmountCommand', () => {
-    beforeEach(() => {
-        vi.clearAllMocks();
-    });
-
     it('should calculate total amount of all accounts', async () => {
         const socketMock = { write: vi.fn() } as any;
         const ctx: CommandContext = {
             socket: socketMock,
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
+            store: new MemoryAccountStore([
+                { number: '11111', owner: '127.0.0.1', balance: 1000n },
+                { number: '22222', owner: '127.0.0.1', balance: 2000n },
+            ]),
         } as any;
 
-        (fs.readdir as any).mockResolvedValue(['acc1.txt', 'acc2.txt']);
-        (fs.readFile as any)
-            .mockResolvedValueOnce('1000')
-            .mockResolvedValueOnce('2000');
-
         const command = new BankAmountCommand();
         await command.execute(ctx);
 
@@ -37,11 +24,9 @@ describe('BankAmountCommand', () => {
         const socketMock = { write: vi.fn() } as any;
         const ctx: CommandContext = {
             socket: socketMock,
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
+            store: new MemoryAccountStore(),
         } as any;
 
-        (fs.readdir as any).mockResolvedValue([]);
-
         const command = new BankAmountCommand();
         await command.execute(ctx);
 
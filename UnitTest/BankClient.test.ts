@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import net from 'node:net';
+import { startTestBank, freePort, TestBank } from './bankHarness.js';
+import { BankClient } from '../src/BankClient.js';
+import { parseScript, runScript } from '../src/ClientScript.js';
+
+describe('BankClient', () => {
+    let bank: TestBank;
+    let client: BankClient;
+
+    const start = async (overrides: object = {}) => {
+        bank = await startTestBank(overrides);
+        client = new BankClient('127.0.0.1', bank.port!, { timeoutMs: 2000 });
+    };
+
+    afterEach(async () => {
+        client.close();
+        await bank.destroy();
+    });
+
+    it('should pair pipelined responses with their commands', async () => {
+        await start();
+
+        const responses = await Promise.all([client.send('AC 1234'), client.send('BC'), client.send('BA')]);
+
+        expect(responses[0]).toMatch(/^AC \d{5}\/127\.0\.0\.1$/);
+        expect(responses.slice(1)).toEqual(['BC 127.0.0.1', 'BA 0']);
+    });
+
+    it('should report the idle disconnect and reconnect on the next command', async () => {
+        await start({ CLIENT_IDLE_TIMEOUT: 100 });
+        const notices: string[] = [];
+        client.on('notice', (line) => notices.push(line));
+
+        expect(await client.send('BC')).toBe('BC 127.0.0.1');
+        await new Promise(resolve => client.once('close', resolve));
+
+        expect(notices).toEqual(['ER E905 Odpojeno pro neaktivitu']);
+        expect(client.isConnected()).toBe(false);
+        expect(await client.send('BC')).toBe('BC 127.0.0.1');
+    });
+
+    it('should close the connection on timeout so a late reply does not answer the next command', async () => {
+        const port = await freePort(['127.0.0.1']);
+        // Server, který na úplně první příkaz odpoví pozdě a na další hned
+        let count = 0;
+        const server = net.createServer(socket => {
+            socket.on('data', () => {
+                const reply = `R${++count}\r\n`;
+                if (count === 1) setTimeout(() => !socket.destroyed && socket.write(reply), 200);
+                else socket.write(reply);
+            });
+        });
+        await new Promise<void>(resolve => server.listen(port, '127.0.0.1', () => resolve()));
+        bank = { destroy: () => new Promise<void>(resolve => server.close(() => resolve())) } as TestBank;
+        client = new BankClient('127.0.0.1', port, { timeoutMs: 100 });
+
+        await expect(client.send('A')).rejects.toThrow('TIMEOUT');
+        expect(client.isConnected()).toBe(false);
+        await new Promise(resolve => setTimeout(resolve, 200));
+        expect(await client.send('B')).toBe('R2');
+    });
+
+    it('should run a script, fill in captured values and count mismatches', async () => {
+        await start();
+        const output: string[] = [];
+        const steps = parseScript([
+            '# založení účtu a vklad',
+            'AC 1234 => ^AC (?<account>\\d{5})/(?<bank>\\S+)$',
+            'AD ${account}/${bank} 500 => ^AD$',
+            '',
+            'AB ${account}/${bank} => ^AB 400$',
+            'BN'
+        ].join('\n'));
+
+        const result = await runScript(client, steps, (line) => output.push(line));
+
+        expect(result).toEqual({ passed: 2, failed: 1 });
+        expect(output).toContain('< AB 500 500');
+        expect(output).toContain('! řádek 5: odpověď neodpovídá /^AB 400$/');
+        expect(output.at(-1)).toBe('< BN 1');
+    });
+});
+
+describe('parseScript', () => {
+    it('should point at the line with an invalid pattern', () => {
+        expect(() => parseScript('BC\nBA => ^BA (')).toThrow(/Řádek 2/);
+    });
+});
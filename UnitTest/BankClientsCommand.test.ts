@@ -1,28 +1,20 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { BankClientsCommand } from '../src/commands/BankClientsCommand.js';
 import { CommandContext } from '../src/commands/types.js';
-import fs from 'node:fs/promises';
-
-vi.mock('node:fs/promises', () => ({
-    default: {
-        readdir: vi.fn(),
-    }
-}));
+import { MemoryAccountStore } from '../src/storage/index.js';
 
 describe('BankClientsCommand', () => {
-    beforeEach(() => {
-        vi.clearAllMocks();
-    });
-
     it('should calculate number of unique client IPs', async () => {
         const socketMock = { write: vi.fn() } as any;
         const ctx: CommandContext = {
             socket: socketMock,
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
+            store: new MemoryAccountStore([
+                { number: '12345', owner: '192.168.1.1', balance: 0n },
+                { number: '67890', owner: '192.168.1.1', balance: 0n },
+                { number: '11111', owner: '192.168.1.2', balance: 0n },
+            ]),
         } as any;
 
-        (fs.readdir as any).mockResolvedValue(['12345_192.168.1.1.txt', '67890_192.168.1.1.txt', '11111_192.168.1.2.txt']);
-
         const command = new BankClientsCommand();
         await command.execute(ctx);
 
@@ -33,11 +25,9 @@ describe('BankClientsCommand', () => {
         const socketMock = { write: vi.fn() } as any;
         const ctx: CommandContext = {
             socket: socketMock,
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
+            store: new MemoryAccountStore(),
         } as any;
 
-        (fs.readdir as any).mockResolvedValue([]);
-
         const command = new BankClientsCommand();
         await command.execute(ctx);
 
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { commandRegistry, renderCommandTable, CommandContext } from '../src/commands/index.js';
+
+function run(args: string[]) {
+    const socketMock = { write: vi.fn() } as any;
+    const ctx: CommandContext = { socket: socketMock, args } as any;
+    return { execute: () => commandRegistry.get('HELP')!.execute(ctx), socketMock };
+}
+
+describe('HelpCommand', () => {
+    it('should list the client commands without the ones used between banks', async () => {
+        const { execute, socketMock } = run([]);
+
+        await execute();
+
+        expect(socketMock.write).toHaveBeenCalledWith('HELP BC AC AD AW AB AH AR AP BA BN AT RP LG HELP exit\r\n');
+    });
+
+    it('should describe a single command', async () => {
+        const { execute, socketMock } = run(['AW']);
+
+        await execute();
+
+        expect(socketMock.write).toHaveBeenCalledWith('HELP AW <účet> <částka> [PIN] - Výběr peněz z účtu (s PINem účtu).\r\n');
+    });
+
+    it('should describe commands used between banks on request', async () => {
+        const { execute, socketMock } = run(['TC']);
+
+        await execute();
+
+        expect(socketMock.write).toHaveBeenCalledWith('HELP TC <id> <W|D> - Potvrdí připravenou část převodu AT.\r\n');
+    });
+
+    it('should reject an unknown command', async () => {
+        await expect(run(['XYZ']).execute()).rejects.toThrow('UNKNOWN_COMMAND');
+    });
+
+    it('should keep the command table in the readme up to date', () => {
+        const table = renderCommandTable([...commandRegistry.values()].map(command => command.spec));
+
+        expect(readFileSync('readme.md', 'utf8')).toContain(table);
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LanguageCommand } from '../src/commands/LanguageCommand.js';
+import { CommandContext } from '../src/commands/types.js';
+
+function createContext(args: string[]) {
+    const socketMock = { write: vi.fn() } as any;
+    const session = { language: 'cs' as const };
+    const ctx: CommandContext = { socket: socketMock, args, session } as any;
+    return { ctx, socketMock, session };
+}
+
+describe('LanguageCommand', () => {
+    it('should switch the language of the connection', async () => {
+        const { ctx, socketMock, session } = createContext(['en']);
+
+        await new LanguageCommand().execute(ctx);
+
+        expect(session.language).toBe('en');
+        expect(socketMock.write).toHaveBeenCalledWith('LG en\r\n');
+    });
+
+    it('should report the current language without an argument', async () => {
+        const { ctx, socketMock } = createContext([]);
+
+        await new LanguageCommand().execute(ctx);
+
+        expect(socketMock.write).toHaveBeenCalledWith('LG cs\r\n');
+    });
+
+    it('should reject an unknown language', async () => {
+        const { ctx, session } = createContext(['de']);
+
+        await expect(new LanguageCommand().execute(ctx)).rejects.toThrow('UNKNOWN_LANGUAGE');
+        expect(session.language).toBe('cs');
+    });
+});
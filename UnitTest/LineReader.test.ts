@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { LineReader } from '../src/LineReader.js';
+
+describe('LineReader', () => {
+    it('should split several pipelined commands in order', () => {
+        const reader = new LineReader();
+
+        expect(reader.push(Buffer.from('BC\r\nAB 12345/10.0.0.1\nBA\r\n'))).toEqual([
+            { text: 'BC', tooLong: false },
+            { text: 'AB 12345/10.0.0.1', tooLong: false },
+            { text: 'BA', tooLong: false },
+        ]);
+    });
+
+    it('should join a command split across chunks', () => {
+        const reader = new LineReader();
+
+        expect(reader.push(Buffer.from('AD 12345/10.0.'))).toEqual([]);
+        expect(reader.push(Buffer.from('0.1 500\r'))).toEqual([]);
+        expect(reader.push(Buffer.from('\nBC'))).toEqual([{ text: 'AD 12345/10.0.0.1 500', tooLong: false }]);
+        expect(reader.push(Buffer.from('\r\n'))).toEqual([{ text: 'BC', tooLong: false }]);
+    });
+
+    it('should decode a multibyte character split between chunks', () => {
+        const reader = new LineReader();
+        const bytes = Buffer.from('ER Účet\r\n', 'utf8');
+        // 'Ú' je v UTF-8 dvoubajtový, rozdělíme ho mezi dva pakety
+        const splitAt = bytes.indexOf(0xc3) + 1;
+
+        expect(reader.push(bytes.subarray(0, splitAt))).toEqual([]);
+        expect(reader.push(bytes.subarray(splitAt))).toEqual([{ text: 'ER Účet', tooLong: false }]);
+    });
+
+    it('should report a too long line once and continue with the next one', () => {
+        const reader = new LineReader(10);
+
+        expect(reader.push(Buffer.from('A'.repeat(8)))).toEqual([]);
+        expect(reader.push(Buffer.from('A'.repeat(8)))).toEqual([{ text: '', tooLong: true }]);
+        expect(reader.push(Buffer.from('A'.repeat(20)))).toEqual([]);
+        expect(reader.push(Buffer.from('AAA\r\nBC\r\n'))).toEqual([{ text: 'BC', tooLong: false }]);
+    });
+
+    it('should report a too long complete line', () => {
+        const reader = new LineReader(5);
+
+        expect(reader.push(Buffer.from('ABCDEFG\nBC\n'))).toEqual([{ text: '', tooLong: true }, { text: 'BC', tooLong: false }]);
+    });
+
+    it('should return the unterminated rest on flush', () => {
+        const reader = new LineReader();
+        reader.push(Buffer.from('AB 500'));
+
+        expect(reader.flush()).toBe('AB 500');
+        expect(reader.flush()).toBe('');
+    });
+});
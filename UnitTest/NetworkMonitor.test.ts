@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import net from 'node:net';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { NetworkMonitor } from '../src/NetworkMonitor.js';
+import { InterfacesProbe, NetworkProbe, ProcRouteProbe, TcpProbe, createProbes } from '../src/NetworkProbes.js';
+
+/**
+ * Sonda, které test přepíná stav kabelu.
+ */
+class FakeProbe implements NetworkProbe {
+    readonly name = 'fake';
+    plugged = true;
+    calls = 0;
+
+    async check(): Promise<boolean> {
+        this.calls++;
+        return this.plugged;
+    }
+}
+
+describe('NetworkMonitor', () => {
+    let logger: any;
+
+    beforeEach(() => {
+        logger = { info: vi.fn(), error: vi.fn() };
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should detect the cable being unplugged and plugged back in on the timer', async () => {
+        vi.useFakeTimers();
+        const probe = new FakeProbe();
+        const monitor = new NetworkMonitor(logger, 1000, [probe]);
+
+        expect(await monitor.startMonitoring()).toBe(true);
+        expect(monitor.isOnline()).toBe(true);
+
+        probe.plugged = false;
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(monitor.isOnline()).toBe(false);
+        expect(logger.error).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(logger.error).toHaveBeenCalledTimes(1);
+
+        probe.plugged = true;
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(monitor.isOnline()).toBe(true);
+        expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('SÍŤ OBNOVENA'));
+
+        monitor.stopMonitoring();
+        const calls = probe.calls;
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(probe.calls).toBe(calls);
+    });
+
+    it('should not run any probe when reading the cached state', async () => {
+        const probe = new FakeProbe();
+        const monitor = new NetworkMonitor(logger, 1000, [probe]);
+
+        monitor.isOnline();
+        monitor.isOnline();
+
+        expect(probe.calls).toBe(0);
+    });
+
+    it('should be offline when any probe fails or throws', async () => {
+        const ok = new FakeProbe();
+        const broken: NetworkProbe = { name: 'broken', check: async () => { throw new Error('ENOENT'); } };
+        const monitor = new NetworkMonitor(logger, 1000, [ok, broken]);
+
+        expect(await monitor.checkConnection()).toBe(false);
+        expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('broken: ENOENT'));
+    });
+});
+
+describe('NetworkProbes', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-probe-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should find the default route in /proc/net/route', async () => {
+        const header = 'Iface\tDestination\tGateway \tFlags\tRefCnt\tUse\tMetric\tMask\t\tMTU\tWindow\tIRTT';
+        const withDefault = path.join(dir, 'route-default');
+        const withoutDefault = path.join(dir, 'route-local');
+        await fs.writeFile(withDefault, [
+            header,
+            'eth0\t00000000\t0102A8C0\t0003\t0\t0\t100\t00000000\t0\t0\t0',
+            'eth0\t0002A8C0\t00000000\t0001\t0\t0\t100\t00FFFFFF\t0\t0\t0',
+        ].join('\n'));
+        await fs.writeFile(withoutDefault, [
+            header,
+            'eth0\t0002A8C0\t00000000\t0001\t0\t0\t100\t00FFFFFF\t0\t0\t0',
+        ].join('\n'));
+
+        expect(await new ProcRouteProbe(withDefault).check()).toBe(true);
+        expect(await new ProcRouteProbe(withoutDefault).check()).toBe(false);
+    });
+
+    it('should ignore loopback interfaces', async () => {
+        const lo = { address: '127.0.0.1', internal: true } as os.NetworkInterfaceInfo;
+        const eth = { address: '10.0.0.5', internal: false } as os.NetworkInterfaceInfo;
+
+        expect(await new InterfacesProbe(() => ({ lo: [lo] })).check()).toBe(false);
+        expect(await new InterfacesProbe(() => ({ lo: [lo], eth0: [eth] })).check()).toBe(true);
+    });
+
+    it('should check TCP reachability of a host', async () => {
+        const server = net.createServer(socket => socket.end());
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const port = (server.address() as net.AddressInfo).port;
+
+        expect(await new TcpProbe('127.0.0.1', port, 500).check()).toBe(true);
+        await new Promise(resolve => server.close(resolve));
+        expect(await new TcpProbe('127.0.0.1', port, 500).check()).toBe(false);
+    });
+
+    it('should build probes from config', () => {
+        expect(createProbes({ NETWORK_PROBES: ['interfaces', 'tcp'], NETWORK_PROBE_HOST: '10.0.0.1' }).map(p => p.name))
+            .toEqual(['interfaces', 'tcp']);
+        expect(() => createProbes({ NETWORK_PROBES: ['tcp'] })).toThrow('NETWORK_PROBE_HOST');
+        expect(() => createProbes({ NETWORK_PROBES: ['ping'] })).toThrow('ping');
+    });
+});
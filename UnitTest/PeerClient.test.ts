@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { execFileSync } from 'node:child_process';
+import { startTestBank, TestBank } from './bankHarness.js';
+import { PeerClient } from '../src/PeerClient.js';
+
+const silentLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+/**
+ * Vygeneruje self-signed certifikát pro 127.0.0.1, který zároveň slouží jako vlastní CA.
+ */
+function createCertificate(dir: string, name: string) {
+    const cert = path.join(dir, `${name}.crt`);
+    const key = path.join(dir, `${name}.key`);
+    execFileSync('openssl', [
+        'req', '-x509', '-newkey', 'ec', '-pkeyopt', 'ec_paramgen_curve:prime256v1', '-nodes',
+        '-keyout', key, '-out', cert, '-days', '1', '-subj', '/CN=127.0.0.1',
+        '-addext', 'subjectAltName=IP:127.0.0.1'
+    ], { stdio: 'ignore' });
+    return { cert, key };
+}
+
+describe('TLS between banks', () => {
+    let dir: string;
+    let bankCert: { cert: string; key: string };
+    let otherCert: { cert: string; key: string };
+    let server: TestBank | null = null;
+
+    const start = async (overrides: object) => {
+        server = await startTestBank(overrides);
+        return server;
+    };
+
+    const withTls = (overrides: object = {}) => start({
+        TLS_PORT: 0,
+        TLS_CERT: bankCert.cert,
+        TLS_KEY: bankCert.key,
+        TLS_CA: bankCert.cert,
+        ...overrides
+    });
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-tls-'));
+        bankCert = createCertificate(dir, 'bank');
+        otherCert = createCertificate(dir, 'other');
+    });
+
+    afterEach(async () => {
+        await server?.destroy();
+        server = null;
+        vi.clearAllMocks();
+    });
+
+    afterAll(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should serve commands over TLS next to the plain port', async () => {
+        const bank = await withTls();
+        const ca = await fs.readFile(bankCert.cert);
+
+        const secure = new PeerClient({ port: bank.port!, tlsPort: bank.tlsPort!, tls: { ca }, fallback: false });
+        const plain = new PeerClient({ port: bank.port! });
+
+        expect(await secure.send('127.0.0.1', 'BC', 2000)).toMatch(/^BC /);
+        expect(await plain.send('127.0.0.1', 'BC', 2000)).toMatch(/^BC /);
+    });
+
+    it('should not open the plain port with TLS_ONLY', async () => {
+        const bank = await withTls({ TLS_ONLY: true });
+
+        expect(bank.port).toBeNull();
+        expect(bank.tlsPort).toBeGreaterThan(0);
+    });
+
+    it('should require a client certificate signed by TLS_CA for mutual TLS', async () => {
+        const bank = await withTls({ TLS_CLIENT_AUTH: 'required', TLS_ONLY: true });
+        const ca = await fs.readFile(bankCert.cert);
+        const send = (tls: object) =>
+            new PeerClient({ port: 0, tlsPort: bank.tlsPort!, tls: { ca, ...tls }, fallback: false }).send('127.0.0.1', 'BC', 2000);
+
+        await expect(send({})).rejects.toThrow();
+        await expect(send({ cert: await fs.readFile(otherCert.cert), key: await fs.readFile(otherCert.key) })).rejects.toThrow();
+        expect(await send({ cert: await fs.readFile(bankCert.cert), key: await fs.readFile(bankCert.key) })).toMatch(/^BC /);
+    });
+
+    it('should accept transfer phase commands from a bank with a verified client certificate', async () => {
+        const bank = await withTls({ TLS_CLIENT_AUTH: 'optional' });
+        const ca = await fs.readFile(bankCert.cert);
+        const send = (tls: object) =>
+            new PeerClient({ port: 0, tlsPort: bank.tlsPort!, tls: { ca, ...tls }, fallback: false }).send('127.0.0.1', 'TQ x1', 2000);
+
+        expect(await send({})).toBe('ER E409 Tento příkaz přijímáme jen od ověřených bank.');
+        expect(await send({ cert: await fs.readFile(bankCert.cert), key: await fs.readFile(bankCert.key) })).toBe('TQ x1 ABORTED');
+    });
+
+    it('should fall back to plain text for a bank without TLS and remember it', async () => {
+        const bank = await start({});
+        // Na tomto portu TLS neběží - odpoví nešifrovaný port banky
+        const peers = new PeerClient({ port: bank.port!, tlsPort: bank.port!, fallback: true }, silentLogger);
+
+        expect(await peers.send('127.0.0.1', 'BC', 2000)).toMatch(/^BC /);
+        expect(await peers.send('127.0.0.1', 'BC', 2000)).toMatch(/^BC /);
+        expect(silentLogger.warn).toHaveBeenCalledTimes(1);
+        expect(silentLogger.warn.mock.calls[0][0]).toMatch(/nepodporuje TLS/);
+    });
+
+    it('should not fall back when the peer certificate cannot be verified', async () => {
+        const bank = await withTls();
+        const peers = new PeerClient({
+            port: bank.port!,
+            tlsPort: bank.tlsPort!,
+            tls: { ca: await fs.readFile(otherCert.cert) },
+            fallback: true
+        }, silentLogger);
+
+        await expect(peers.send('127.0.0.1', 'BC', 2000)).rejects.toThrow(/self-signed|certificate/i);
+        expect(silentLogger.warn).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PinGuard, generatePin, hashPin, isValidPin, verifyPin } from '../src/PinGuard.js';
+import { Account } from '../src/storage/index.js';
+
+describe('PIN hashing', () => {
+    it('should salt every hash and verify only the right PIN', async () => {
+        const first = await hashPin('1234');
+        const second = await hashPin('1234');
+
+        expect(first).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+        expect(first).not.toBe(second);
+        expect(await verifyPin('1234', first)).toBe(true);
+        expect(await verifyPin('4321', first)).toBe(false);
+        expect(await verifyPin('1234', 'plain-text')).toBe(false);
+    });
+
+    it('should generate and accept only numeric PINs of 4 to 8 digits', () => {
+        expect(generatePin()).toMatch(/^\d{6}$/);
+        expect(isValidPin('0000')).toBe(true);
+        expect(isValidPin('123')).toBe(false);
+        expect(isValidPin('123456789')).toBe(false);
+        expect(isValidPin('12a4')).toBe(false);
+        expect(isValidPin(undefined)).toBe(false);
+    });
+});
+
+describe('PinGuard', () => {
+    const withPin = async (pin: string): Promise<Account> =>
+        ({ number: '12345', owner: '10.0.0.1', balance: 0n, pinHash: await hashPin(pin) });
+    const legacy: Account = { number: '54321', owner: '10.0.0.1', balance: 0n };
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should accept the right PIN and reject a wrong or missing one', async () => {
+        const guard = new PinGuard();
+        const account = await withPin('1234');
+
+        expect(await guard.authorize(account, '1234', false)).toBe('pin');
+        await expect(guard.authorize(account, '9999', false)).rejects.toThrow('INVALID_PIN');
+        await expect(guard.authorize(account, undefined, false)).rejects.toThrow('INVALID_PIN');
+    });
+
+    it('should lock the account after repeated failures until the lockout passes', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const guard = new PinGuard(3, 60000);
+        const account = await withPin('1234');
+
+        await expect(guard.authorize(account, '0000', false)).rejects.toThrow('INVALID_PIN');
+        await expect(guard.authorize(account, '0000', false)).rejects.toThrow('INVALID_PIN');
+        await expect(guard.authorize(account, '0000', false)).rejects.toThrow('ACCOUNT_LOCKED');
+        await expect(guard.authorize(account, '1234', false)).rejects.toThrow('ACCOUNT_LOCKED');
+
+        vi.advanceTimersByTime(60001);
+        expect(await guard.authorize(account, '1234', false)).toBe('pin');
+    });
+
+    it('should reset the failure count after a successful attempt', async () => {
+        const guard = new PinGuard(2, 60000);
+        const account = await withPin('1234');
+
+        await expect(guard.authorize(account, '0000', false)).rejects.toThrow('INVALID_PIN');
+        await guard.authorize(account, '1234', false);
+
+        await expect(guard.authorize(account, '0000', false)).rejects.toThrow('INVALID_PIN');
+    });
+
+    it('should let PIN-less accounts through only until PINs are required', async () => {
+        const guard = new PinGuard();
+
+        expect(await guard.authorize(legacy, undefined, false)).toBe('legacy');
+        await expect(guard.authorize(legacy, '1234', true)).rejects.toThrow('PIN_NOT_SET');
+    });
+});
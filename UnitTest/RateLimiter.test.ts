@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter, TokenBucket } from '../src/RateLimiter.js';
+
+describe('TokenBucket', () => {
+    it('should allow a burst up to capacity and then refill over time', () => {
+        let now = 0;
+        const bucket = new TokenBucket(60, 2, () => now);
+
+        expect(bucket.take()).toBe(true);
+        expect(bucket.take()).toBe(true);
+        expect(bucket.take()).toBe(false);
+
+        now += 1000; // 60 za minutu = 1 za sekundu
+        expect(bucket.take()).toBe(true);
+        expect(bucket.take()).toBe(false);
+    });
+});
+
+describe('RateLimiter', () => {
+    const limits = { maxConnectionsPerIp: 2, perConnection: 3, perIp: 4, accountCreation: 1 };
+
+    it('should limit concurrent connections per IP', () => {
+        const limiter = new RateLimiter(limits);
+
+        expect(limiter.connectionOpened('10.0.0.1')).toBe(true);
+        expect(limiter.connectionOpened('10.0.0.1')).toBe(true);
+        expect(limiter.connectionOpened('10.0.0.1')).toBe(false);
+        expect(limiter.connectionOpened('10.0.0.2')).toBe(true);
+
+        limiter.connectionClosed('10.0.0.1');
+        expect(limiter.connectionOpened('10.0.0.1')).toBe(true);
+    });
+
+    it('should limit commands per connection and per IP', () => {
+        const limiter = new RateLimiter(limits, () => 0);
+        const first = limiter.connectionBucket();
+        const second = limiter.connectionBucket();
+
+        for (let i = 0; i < 3; i++) limiter.checkCommand('10.0.0.1', 'BC', first);
+        expect(() => limiter.checkCommand('10.0.0.1', 'BC', first)).toThrow('RATE_LIMITED');
+
+        // Druhé spojení má vlastní limit, ale sdílí limit adresy (4 příkazy)
+        limiter.checkCommand('10.0.0.1', 'BC', second);
+        expect(() => limiter.checkCommand('10.0.0.1', 'BC', second)).toThrow('RATE_LIMITED');
+        expect(() => limiter.checkCommand('10.0.0.2', 'BC', limiter.connectionBucket())).not.toThrow();
+    });
+
+    it('should apply the stricter limit to AC', () => {
+        const limiter = new RateLimiter(limits, () => 0);
+
+        limiter.checkCommand('10.0.0.1', 'AC', limiter.connectionBucket());
+        expect(() => limiter.checkCommand('10.0.0.1', 'AC', limiter.connectionBucket())).toThrow('AC_RATE_LIMITED');
+        expect(() => limiter.checkCommand('10.0.0.1', 'AB', limiter.connectionBucket())).not.toThrow();
+    });
+
+    it('should not limit anything when set to 0', () => {
+        const limiter = new RateLimiter({ maxConnectionsPerIp: 0, perConnection: 0, perIp: 0, accountCreation: 0 }, () => 0);
+
+        expect(limiter.connectionBucket()).toBeNull();
+        for (let i = 0; i < 100; i++) {
+            expect(limiter.connectionOpened('10.0.0.1')).toBe(true);
+            limiter.checkCommand('10.0.0.1', 'AC', null);
+        }
+    });
+});
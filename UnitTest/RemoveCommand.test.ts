@@ -1,88 +1,89 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { RemoveCommand } from '../src/commands/RemoveCommand.js';
 import { CommandContext } from '../src/commands/types.js';
-import * as helpers from '../src/commands/helpers.js';
-import fs from 'node:fs/promises';
+import { AccountLockManager } from '../src/AccountLockManager.js';
+import { MemoryAccountStore } from '../src/storage/index.js';
+import { PinGuard, hashPin } from '../src/PinGuard.js';
 
-vi.mock('../src/commands/helpers.js', () => ({
-    findAccountFile: vi.fn(),
-}));
-
-vi.mock('node:fs/promises', () => ({
-    default: {
-        readFile: vi.fn(),
-        unlink: vi.fn(),
-    }
-}));
+function createContext(remoteAddress: string, store: MemoryAccountStore, args: string[] = ['12345']) {
+    const socketMock = {
+        remoteAddress,
+        write: vi.fn(),
+    } as any;
+    const ctx: CommandContext = {
+        socket: socketMock,
+        args,
+        CONFIG: { PIN_REQUIRED: false },
+        accountLocks: new AccountLockManager(),
+        pins: new PinGuard(),
+        store,
+        logger: { info: vi.fn() } as any,
+    } as any;
+    return { ctx, socketMock };
+}
 
 describe('RemoveCommand', () => {
-    beforeEach(() => {
-        vi.clearAllMocks();
-    });
-
     it('should remove account if balance is 0 and IP matches', async () => {
-        const socketMock = {
-            remoteAddress: '192.168.1.1',
-            write: vi.fn(),
-        } as any;
-        const ctx: CommandContext = {
-            socket: socketMock,
-            args: ['12345'],
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
-            logger: { info: vi.fn() } as any,
-        } as any;
-
-        (helpers.findAccountFile as any).mockResolvedValue('./accounts/12345_192.168.1.1.txt');
-        (fs.readFile as any).mockResolvedValue('0');
-        (fs.unlink as any).mockResolvedValue(undefined);
+        const store = new MemoryAccountStore([{ number: '12345', owner: '192.168.1.1', balance: 0n }]);
+        const { ctx, socketMock } = createContext('192.168.1.1', store);
 
         const command = new RemoveCommand();
         await command.execute(ctx);
 
-        expect(fs.unlink).toHaveBeenCalledWith('./accounts/12345_192.168.1.1.txt');
+        expect(await store.find('12345')).toBeNull();
         expect(socketMock.write).toHaveBeenCalledWith('AR\r\n');
     });
 
     it('should not remove account if IP does not match', async () => {
-        const socketMock = {
-            remoteAddress: '192.168.1.2',
-            write: vi.fn(),
-        } as any;
-        const ctx: CommandContext = {
-            socket: socketMock,
-            args: ['12345'],
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
-            logger: { info: vi.fn() } as any,
-        } as any;
-
-        (helpers.findAccountFile as any).mockResolvedValue('./accounts/12345_192.168.1.1.txt');
+        const store = new MemoryAccountStore([{ number: '12345', owner: '192.168.1.1', balance: 0n }]);
+        const { ctx, socketMock } = createContext('192.168.1.2', store);
 
         const command = new RemoveCommand();
-        await command.execute(ctx);
+        await expect(command.execute(ctx)).rejects.toThrow('REMOVE_NOT_OWNER');
 
-        expect(fs.unlink).not.toHaveBeenCalled();
-        expect(socketMock.write).toHaveBeenCalledWith(expect.stringContaining('původní IP adresy'));
+        expect(await store.find('12345')).not.toBeNull();
+        expect(socketMock.write).not.toHaveBeenCalled();
     });
 
     it('should not remove account if balance is not 0', async () => {
-        const socketMock = {
-            remoteAddress: '192.168.1.1',
-            write: vi.fn(),
-        } as any;
-        const ctx: CommandContext = {
-            socket: socketMock,
-            args: ['12345'],
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
-            logger: { info: vi.fn() } as any,
-        } as any;
-
-        (helpers.findAccountFile as any).mockResolvedValue('./accounts/12345_192.168.1.1.txt');
-        (fs.readFile as any).mockResolvedValue('100');
+        const store = new MemoryAccountStore([{ number: '12345', owner: '192.168.1.1', balance: 100n }]);
+        const { ctx, socketMock } = createContext('192.168.1.1', store);
 
         const command = new RemoveCommand();
-        await command.execute(ctx);
+        await expect(command.execute(ctx)).rejects.toThrow('ACCOUNT_NOT_EMPTY');
+
+        expect(await store.find('12345')).not.toBeNull();
+        expect(socketMock.write).not.toHaveBeenCalled();
+    });
+
+    it('should not remove an overdrawn account', async () => {
+        const store = new MemoryAccountStore([{ number: '12345', owner: '192.168.1.1', balance: -50n, creditLimit: 100n }]);
+        const { ctx, socketMock } = createContext('192.168.1.1', store);
+
+        await expect(new RemoveCommand().execute(ctx)).rejects.toThrow('ACCOUNT_OVERDRAWN');
 
-        expect(fs.unlink).not.toHaveBeenCalled();
-        expect(socketMock.write).toHaveBeenCalledWith(expect.stringContaining('finance'));
+        expect(await store.find('12345')).not.toBeNull();
+        expect(socketMock.write).not.toHaveBeenCalled();
+    });
+
+    it('should report a missing account', async () => {
+        const { ctx, socketMock } = createContext('192.168.1.1', new MemoryAccountStore());
+
+        await expect(new RemoveCommand().execute(ctx)).rejects.toThrow('ACCOUNT_NOT_FOUND');
+        expect(socketMock.write).not.toHaveBeenCalled();
+    });
+
+    it('should remove an account with a PIN from any IP when the PIN matches', async () => {
+        const store = new MemoryAccountStore([{ number: '12345', owner: '192.168.1.1', balance: 0n, pinHash: await hashPin('1234') }]);
+
+        const wrong = createContext('10.0.0.99', store, ['12345', '0000']);
+        await expect(new RemoveCommand().execute(wrong.ctx)).rejects.toThrow('INVALID_PIN');
+        expect(await store.find('12345')).not.toBeNull();
+
+        const { ctx, socketMock } = createContext('10.0.0.99', store, ['12345', '1234']);
+        await new RemoveCommand().execute(ctx);
+
+        expect(await store.find('12345')).toBeNull();
+        expect(socketMock.write).toHaveBeenCalledWith('AR\r\n');
     });
 });
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import net from 'node:net';
+import { BankInfo, MAX_BANK_CLIENTS, MAX_SCAN_TARGETS, checkScanRanges, parseIpRange, parsePortRange, planRobbery, scanBanks } from '../src/RobberyPlanner.js';
+import { RobberyPlanCommand } from '../src/commands/RobberyPlanCommand.js';
+
+function bank(code: string, amount: bigint, clients: number): BankInfo {
+    return { code, host: code, port: 65525, amount, clients };
+}
+
+/**
+ * Falešná banka, která odpovídá na BC/BA/BN pevnými hodnotami.
+ */
+function startFakeBank(code: string, amount: string, clients: string, port = 0): Promise<net.Server> {
+    const replies: Record<string, string> = { BC: `BC ${code}`, BA: `BA ${amount}`, BN: `BN ${clients}` };
+    const server = net.createServer(socket => {
+        socket.on('data', data => socket.write(`${replies[data.toString().trim()] ?? 'ER Neznámý příkaz'}\r\n`));
+    });
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => resolve(server));
+    });
+}
+
+describe('RobberyPlanner', () => {
+    const servers: net.Server[] = [];
+
+    afterEach(async () => {
+        await Promise.all(servers.splice(0).map(s => new Promise(r => s.close(r))));
+    });
+
+    it('should parse IP and port ranges', () => {
+        expect([...parseIpRange('10.0.0.254-10.0.1.1')]).toEqual(['10.0.0.254', '10.0.0.255', '10.0.1.0', '10.0.1.1']);
+        expect([...parseIpRange('192.168.1.0/30')]).toEqual(['192.168.1.1', '192.168.1.2']);
+        expect([...parseIpRange('127.0.0.1')]).toEqual(['127.0.0.1']);
+        expect(parseIpRange('0.0.0.0/0').size).toBe(2 ** 32 - 2);
+        expect(parsePortRange('65525-65527')).toEqual([65525, 65526, 65527]);
+        expect(parsePortRange('80')).toEqual([80]);
+        expect(() => parseIpRange('10.0.0.5-10.0.0.1')).toThrow();
+        expect(() => parsePortRange('0-10')).toThrow();
+    });
+
+    it('should pick the banks with the fewest clients that reach the amount', () => {
+        const banks = [
+            bank('A', 1000n, 10),
+            bank('B', 600n, 3),
+            bank('C', 500n, 2),
+            bank('D', 100n, 1),
+        ];
+
+        const plan = planRobbery(banks, 1050n)!;
+
+        expect(plan.banks.map(b => b.code).sort()).toEqual(['B', 'C']);
+        expect(plan.clients).toBe(5);
+        expect(plan.amount).toBe(1100n);
+    });
+
+    it('should return null when the network does not hold enough money', () => {
+        expect(planRobbery([bank('A', 100n, 1)], 101n)).toBeNull();
+        expect(planRobbery([], 1n)).toBeNull();
+    });
+
+    it('should plan over banks reporting the most clients possible without a table per client', () => {
+        const banks = Array.from({ length: 200 }, (_, i) => bank(`10.0.0.${i + 1}`, BigInt(1000 + i), MAX_BANK_CLIENTS - i));
+
+        const plan = planRobbery(banks, 2300n)!;
+
+        expect(plan.banks.map(b => b.code)).toEqual(['10.0.0.199', '10.0.0.200']);
+        expect(plan).toMatchObject({ amount: 2397n, clients: 2 * MAX_BANK_CLIENTS - 199 - 198 });
+    });
+
+    it('should find banks over real sockets and skip closed ports', async () => {
+        const a = await startFakeBank('10.0.0.1', '5000', '4');
+        const first = (a.address() as net.AddressInfo).port;
+        // Druhá banka o dva porty dál, mezi nimi zůstane zavřený port
+        const b = await startFakeBank('10.0.0.2', '700', '1', first + 2);
+        servers.push(a, b);
+
+        const { banks } = await scanBanks({
+            ipRange: '127.0.0.1',
+            portRange: `${first}-${first + 3}`,
+            concurrency: 16,
+            hostTimeoutMs: 500,
+            deadline: Date.now() + 3000
+        });
+
+        expect(banks.map(b => b.code).sort()).toEqual(['10.0.0.1', '10.0.0.2']);
+        expect(banks.find(b => b.code === '10.0.0.1')).toMatchObject({ amount: 5000n, clients: 4 });
+    });
+
+    it('should stop scanning at the deadline and report skipped addresses', async () => {
+        const query = vi.fn(() => new Promise<string>((_, reject) => setTimeout(() => reject(new Error('TIMEOUT')), 50)));
+
+        const started = Date.now();
+        const { banks, skipped } = await scanBanks({
+            ipRange: '10.0.0.1-10.0.0.100',
+            portRange: '65525',
+            concurrency: 4,
+            hostTimeoutMs: 50,
+            deadline: Date.now() + 120,
+            query
+        });
+
+        expect(Date.now() - started).toBeLessThan(400);
+        expect(banks).toEqual([]);
+        expect(skipped).toBeGreaterThan(80);
+    });
+
+    it('should refuse scans larger than MAX_SCAN_TARGETS', async () => {
+        expect(checkScanRanges('10.0.0.0/16', '65525')).toEqual([]);
+        expect(checkScanRanges('10.0.0.0/8', '65525-65535')).toEqual([`SCAN_IP_RANGE: 16777214 adres × 11 portů je víc než ${MAX_SCAN_TARGETS} cílů skenu`]);
+        expect(checkScanRanges('10.0.0.9-10.0.0.1', 'x')).toHaveLength(2);
+        await expect(scanBanks({ ipRange: '0.0.0.0/0', portRange: '1-65535', concurrency: 1, hostTimeoutMs: 1, deadline: Date.now() }))
+            .rejects.toThrow(/větší než/);
+    });
+
+    it('should ignore implausible client counts and keep every query within the deadline', async () => {
+        const timeouts: number[] = [];
+        const replies: Record<string, string> = { BC: 'BC 10.0.0.1', BA: 'BA 5000', BN: `BN ${MAX_BANK_CLIENTS + 1}` };
+        const query = vi.fn(async (_host: string, _port: number, line: string, timeoutMs: number) => {
+            timeouts.push(timeoutMs);
+            await new Promise(resolve => setTimeout(resolve, 60));
+            return replies[line];
+        });
+
+        const { banks } = await scanBanks({
+            ipRange: '10.0.0.1', portRange: '65525', concurrency: 1, hostTimeoutMs: 1000, deadline: Date.now() + 200, query
+        });
+
+        expect(banks).toEqual([]);
+        expect(timeouts).toHaveLength(3);
+        expect(timeouts[1]).toBeLessThanOrEqual(200 - 60);
+        expect(timeouts[2]).toBe(timeouts[1]);
+    });
+
+    it('should reply with a readable plan', async () => {
+        const a = await startFakeBank('10.0.0.1', '5000', '4');
+        servers.push(a);
+        const port = (a.address() as net.AddressInfo).port;
+        const socketMock = { write: vi.fn() } as any;
+
+        await new RobberyPlanCommand().execute({
+            socket: socketMock,
+            args: ['3000'],
+            bankCode: '127.0.0.1',
+            logger: { info: vi.fn() } as any,
+            CONFIG: { RESPONSE_TIMEOUT: 2000, SCAN_IP_RANGE: '127.0.0.1', SCAN_PORT_RANGE: `${port}` }
+        } as any);
+
+        expect(socketMock.write).toHaveBeenCalledWith(
+            'RP Pro 3000 stačí vyloupit 1 bank: 10.0.0.1 (5000, klientů: 4) - celkem 5000, zasaženo 4 klientů.\r\n'
+        );
+    });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { Scheduler, ScheduleRule, checkScheduleRules, divide, interest } from '../src/Scheduler.js';
+import { AccountLockManager } from '../src/AccountLockManager.js';
+import { MemoryAccountStore } from '../src/storage/index.js';
+
+const silentLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+describe('Scheduler', () => {
+    let dir: string;
+    let logFile: string;
+    let store: MemoryAccountStore;
+    let locks: AccountLockManager;
+    let clock: Date;
+    let audit: { append: ReturnType<typeof vi.fn> };
+
+    const monthlyInterest: ScheduleRule = { name: 'urok', type: 'interest', schedule: '0 0 1 * *', rate: '1.5', rounding: 'half-even' };
+    const balance = async (number: string) => (await store.find(number))!.balance;
+
+    async function createScheduler(rules: ScheduleRule[]): Promise<Scheduler> {
+        const scheduler = new Scheduler(store, locks, silentLogger, { logFile, rules, lockTimeoutMs: 100, now: () => clock, audit: audit as any });
+        await scheduler.init();
+        return scheduler;
+    }
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-scheduler-'));
+        logFile = path.join(dir, 'scheduler.log');
+        store = new MemoryAccountStore([
+            { number: '10001', owner: '127.0.0.1', balance: 1000n },
+            { number: '10002', owner: '127.0.0.1', balance: 250n },
+            { number: '10003', owner: '127.0.0.2', balance: 0n }
+        ]);
+        locks = new AccountLockManager();
+        clock = new Date('2026-10-19T10:00:00Z');
+        audit = { append: vi.fn(async () => ({})) };
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should round interest exactly by the configured policy', () => {
+        expect(divide(25n, 10n, 'down')).toBe(2n);
+        expect(divide(25n, 10n, 'half-up')).toBe(3n);
+        expect(divide(25n, 10n, 'half-even')).toBe(2n);
+        expect(divide(35n, 10n, 'half-even')).toBe(4n);
+        expect(divide(-25n, 10n, 'half-up')).toBe(-3n);
+        expect(divide(-26n, 10n, 'down')).toBe(-2n);
+
+        expect(interest(250n, '1.5', 'down')).toBe(3n);
+        expect(interest(250n, '1.5', 'half-even')).toBe(4n);
+        expect(interest(123456789012345678901234567890n, '0.001', 'down')).toBe(1234567890123456789012345n);
+    });
+
+    it('should apply a new rule from the next period and only once per period', async () => {
+        const scheduler = await createScheduler([monthlyInterest]);
+
+        await scheduler.tick();
+        expect(await balance('10001')).toBe(1000n);
+
+        clock = new Date('2026-11-01T00:00:30Z');
+        await scheduler.tick();
+        await scheduler.tick();
+
+        expect(await balance('10001')).toBe(1015n);
+        expect(await balance('10002')).toBe(254n);
+        expect(await balance('10003')).toBe(0n);
+        expect((await store.history('10001', 0, 1))[0]).toMatchObject({ operation: 'IN', amount: 15n, balance: 1015n });
+        expect(audit.append).toHaveBeenCalledTimes(2);
+        expect(audit.append).toHaveBeenCalledWith(expect.objectContaining({
+            remote: 'scheduler:urok', command: 'IN', account: '10001', amount: '15', before: '1000', after: '1015', outcome: 'OK'
+        }));
+    });
+
+    it('should not apply the same period again after a restart', async () => {
+        await (await createScheduler([monthlyInterest])).tick();
+        clock = new Date('2026-11-01T08:00:00Z');
+        await (await createScheduler([monthlyInterest])).tick();
+        expect(await balance('10001')).toBe(1015n);
+
+        const restarted = await createScheduler([monthlyInterest]);
+        await restarted.tick();
+        expect(await balance('10001')).toBe(1015n);
+
+        clock = new Date('2026-12-01T00:00:00Z');
+        await restarted.tick();
+        expect(await balance('10001')).toBe(1030n);
+    });
+
+    it('should finish a run interrupted by a crash without charging any account twice', async () => {
+        const fee: ScheduleRule = { name: 'vedeni', type: 'fee', schedule: '0 0 1 * *', amount: 20 };
+        const period = '2026-10-01T00:00:00.000Z';
+        await store.setBalance('10001', 980n, 'FE');
+        // Pád po potvrzení prvního účtu a uprostřed zápisu druhého
+        await fs.writeFile(logFile, [
+            { type: 'skip', rule: 'vedeni', period: '2026-09-01T00:00:00.000Z' },
+            { type: 'run', rule: 'vedeni', period },
+            { type: 'apply', rule: 'vedeni', period, account: '10001', before: '1000', after: '980' },
+            { type: 'account', rule: 'vedeni', period, account: '10001', amount: '-20' },
+            { type: 'apply', rule: 'vedeni', period, account: '10002', before: '250', after: '230' }
+        ].map(line => JSON.stringify(line) + '\n').join(''));
+
+        const scheduler = await createScheduler([fee]);
+        expect(await balance('10002')).toBe(230n);
+
+        await scheduler.tick();
+        expect(await balance('10001')).toBe(980n);
+        expect(await balance('10002')).toBe(230n);
+        expect(await balance('10003')).toBe(0n);
+
+        await (await createScheduler([fee])).tick();
+        expect(await balance('10001')).toBe(980n);
+    });
+
+    it('should skip an unconfirmed change of an account removed before the restart', async () => {
+        const fee: ScheduleRule = { name: 'vedeni', type: 'fee', schedule: '0 0 1 * *', amount: 20 };
+        const period = '2026-10-01T00:00:00.000Z';
+        await fs.writeFile(logFile, [
+            { type: 'run', rule: 'vedeni', period },
+            { type: 'apply', rule: 'vedeni', period, account: '10009', before: '100', after: '80' }
+        ].map(line => JSON.stringify(line) + '\n').join(''));
+
+        const scheduler = await createScheduler([fee]);
+        await scheduler.tick();
+
+        expect(await store.find('10009')).toBeNull();
+        expect(await balance('10001')).toBe(980n);
+        expect(silentLogger.warn).toHaveBeenCalledWith(expect.stringMatching(/10009 už neexistuje/));
+    });
+
+    it('should never take a fee below zero', async () => {
+        const scheduler = await createScheduler([{ name: 'vedeni', type: 'fee', schedule: '1h', amount: '300' }]);
+
+        clock = new Date('2026-10-19T11:00:00Z');
+        await scheduler.tick();
+
+        expect(await balance('10001')).toBe(700n);
+        expect(await balance('10002')).toBe(0n);
+        expect(await balance('10003')).toBe(0n);
+        expect(await store.history('10003', 0, 10)).toEqual([]);
+    });
+
+    it('should leave overdrawn accounts alone', async () => {
+        await store.setBalance('10003', -500n, 'AW');
+        const scheduler = await createScheduler([monthlyInterest, { name: 'vedeni', type: 'fee', schedule: '0 0 1 * *', amount: 20 }]);
+
+        clock = new Date('2026-11-01T00:00:00Z');
+        await scheduler.tick();
+
+        expect(await balance('10003')).toBe(-500n);
+        expect(await balance('10001')).toBe(995n);
+    });
+
+    it('should check for new periods on its own once started', async () => {
+        vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+        vi.setSystemTime(new Date('2026-10-31T23:59:00Z'));
+        const scheduler = new Scheduler(store, locks, silentLogger, { logFile, rules: [monthlyInterest], lockTimeoutMs: 100, checkIntervalMs: 60000 });
+        await scheduler.init();
+        scheduler.start();
+
+        await vi.advanceTimersByTimeAsync(60000);
+        await scheduler.tick();
+        await scheduler.stop();
+
+        expect(await balance('10001')).toBe(1015n);
+    });
+
+    it('should report invalid rules', () => {
+        expect(checkScheduleRules([monthlyInterest, { name: 'poplatek', type: 'fee', schedule: '1d', amount: 5 }])).toEqual([]);
+
+        const problems = checkScheduleRules([
+            { name: 'urok', type: 'interest', schedule: '0 0 32 * *', rate: '1,5' },
+            { name: 'urok', type: 'fee', schedule: 'monthly', amount: -1 },
+            { name: 'x', type: 'bonus' as any, schedule: '1d' }
+        ]);
+        expect(problems).toHaveLength(6);
+        expect(problems.join('\n')).toMatch(/rate musí být/);
+        expect(problems.join('\n')).toMatch(/jméno je použité víckrát/);
+        expect(problems.join('\n')).toMatch(/type musí být interest nebo fee/);
+    });
+
+    it('should reject cron schedules that never run', () => {
+        expect(checkScheduleRules([{ name: 'prestupny', type: 'fee', schedule: '0 0 29 2 *', amount: 5 }])).toEqual([]);
+        expect(checkScheduleRules([{ name: 'nikdy', type: 'fee', schedule: '0 0 31 2 *', amount: 5 }])).toEqual([
+            expect.stringMatching(/^pravidlo nikdy: schedule za \d+ dní ani jednou nenastane/)
+        ]);
+        expect(checkScheduleRules([{ name: 'nikdy', type: 'fee', schedule: '0 0 31 4,6,9,11 *', amount: 5 }])).toHaveLength(1);
+        // Den v týdnu stačí i u neexistujícího data (shoda jednoho z nich)
+        expect(checkScheduleRules([{ name: 'patky', type: 'fee', schedule: '0 0 31 2 5', amount: 5 }])).toEqual([]);
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SetPinCommand } from '../src/commands/SetPinCommand.js';
+import { CommandContext } from '../src/commands/types.js';
+import { validateArgs } from '../src/commands/spec.js';
+import { AccountLockManager } from '../src/AccountLockManager.js';
+import { MemoryAccountStore } from '../src/storage/index.js';
+import { PinGuard, hashPin, verifyPin } from '../src/PinGuard.js';
+
+describe('SetPinCommand', () => {
+    let store: MemoryAccountStore;
+
+    beforeEach(() => {
+        store = new MemoryAccountStore([{ number: '12345', owner: '192.168.1.1', balance: 100n }]);
+    });
+
+    function createContext(remoteAddress: string, args: string[]) {
+        const socketMock = { remoteAddress, write: vi.fn() } as any;
+        const ctx: CommandContext = {
+            socket: socketMock,
+            args,
+            bankCode: '10.0.0.1',
+            CONFIG: { PIN_REQUIRED: false },
+            accountLocks: new AccountLockManager(),
+            pins: new PinGuard(),
+            store,
+            logger: { info: vi.fn(), error: vi.fn() } as any,
+        } as any;
+        return { ctx, socketMock };
+    }
+
+    it('should let the owner set a first PIN on a PIN-less account', async () => {
+        const { ctx, socketMock } = createContext('192.168.1.1', ['12345/10.0.0.1', '2468']);
+
+        await new SetPinCommand().execute(ctx);
+
+        expect(socketMock.write).toHaveBeenCalledWith('AP\r\n');
+        const account = (await store.find('12345'))!;
+        expect(await verifyPin('2468', account.pinHash!)).toBe(true);
+        expect(account.balance).toBe(100n);
+    });
+
+    it('should not let anyone else set a first PIN', async () => {
+        const { ctx, socketMock } = createContext('192.168.1.2', ['12345/10.0.0.1', '2468']);
+
+        await expect(new SetPinCommand().execute(ctx)).rejects.toThrow('PIN_NOT_OWNER');
+
+        expect(socketMock.write).not.toHaveBeenCalled();
+        expect((await store.find('12345'))!.pinHash).toBeUndefined();
+    });
+
+    it('should change an existing PIN only with the old one', async () => {
+        await store.setPin('12345', await hashPin('1111'));
+
+        const wrong = createContext('192.168.1.1', ['12345/10.0.0.1', '2222', '9999']);
+        await expect(new SetPinCommand().execute(wrong.ctx)).rejects.toThrow('INVALID_PIN');
+
+        const { ctx, socketMock } = createContext('172.16.0.5', ['12345/10.0.0.1', '2222', '1111']);
+        await new SetPinCommand().execute(ctx);
+
+        expect(socketMock.write).toHaveBeenCalledWith('AP\r\n');
+        expect(await verifyPin('2222', (await store.find('12345'))!.pinHash!)).toBe(true);
+    });
+
+    it('should reject a malformed PIN and a missing account', async () => {
+        const { spec } = new SetPinCommand();
+        expect(() => validateArgs(spec, ['12345/10.0.0.1', '12'])).toThrow('INVALID_PIN_FORMAT');
+        expect(() => validateArgs(spec, ['12345/10.0.0.1', '2468', '1x'])).toThrow('INVALID_PIN_FORMAT');
+        expect(() => validateArgs(spec, ['12345', '2468'])).toThrow('INVALID_FORMAT');
+
+        const missing = createContext('192.168.1.1', ['99999/10.0.0.1', '1234']);
+        await expect(new SetPinCommand().execute(missing.ctx)).rejects.toThrow('ACCOUNT_NOT_FOUND');
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { SnapshotLock } from '../src/SnapshotLock.js';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('SnapshotLock', () => {
+    it('should run shared operations concurrently', async () => {
+        const lock = new SnapshotLock();
+        const order: string[] = [];
+
+        await Promise.all([
+            lock.runShared(async () => { order.push('a start'); await delay(20); order.push('a end'); }),
+            lock.runShared(async () => { order.push('b start'); await delay(5); order.push('b end'); })
+        ]);
+
+        expect(order).toEqual(['a start', 'b start', 'b end', 'a end']);
+    });
+
+    it('should wait for running operations and hold new ones back during the snapshot', async () => {
+        const lock = new SnapshotLock();
+        const order: string[] = [];
+
+        const running = lock.runShared(async () => { await delay(20); order.push('running'); });
+        const snapshot = lock.runExclusive(async () => { order.push('snapshot'); return 42; }, 1000);
+        const later = lock.runShared(async () => { order.push('later'); });
+
+        expect(await snapshot).toBe(42);
+        await Promise.all([running, later]);
+        expect(order).toEqual(['running', 'snapshot', 'later']);
+    });
+
+    it('should give up when running operations do not finish in time', async () => {
+        const lock = new SnapshotLock();
+        const running = lock.runShared(() => delay(100));
+
+        await expect(lock.runExclusive(async () => 'snapshot', 10)).rejects.toThrow('nedoběhly do 10 ms');
+        // Zámek se uvolnil, nové operace nečekají
+        expect(await lock.runShared(async () => 'ok')).toBe('ok');
+        await running;
+    });
+});
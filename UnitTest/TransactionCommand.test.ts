@@ -1,82 +1,131 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { TransactionCommand } from '../src/commands/TransactionCommand.js';
 import { CommandContext } from '../src/commands/types.js';
+import { validateArgs } from '../src/commands/spec.js';
+import { AccountLockManager } from '../src/AccountLockManager.js';
+import { MemoryAccountStore } from '../src/storage/index.js';
 import * as helpers from '../src/commands/helpers.js';
-import fs from 'node:fs/promises';
+import { PinGuard, hashPin } from '../src/PinGuard.js';
+import { PeerClient } from '../src/PeerClient.js';
 
 vi.mock('../src/commands/helpers.js', () => ({
-    findAccountFile: vi.fn(),
     proxyCommand: vi.fn(),
 }));
 
-vi.mock('node:fs/promises', () => ({
-    default: {
-        readFile: vi.fn(),
-        writeFile: vi.fn(),
-    }
-}));
-
 describe('TransactionCommand', () => {
+    let store: MemoryAccountStore;
+    let pins: PinGuard;
+
     beforeEach(() => {
         vi.clearAllMocks();
+        store = new MemoryAccountStore([{ number: '12345', owner: '127.0.0.1', balance: 1000n }]);
+        pins = new PinGuard(3, 60000);
     });
 
-    it('should deposit money to local account (AD)', async () => {
+    function createContext(args: string[], CONFIG: object = {}) {
         const socketMock = { write: vi.fn() } as any;
         const ctx: CommandContext = {
             socket: socketMock,
-            args: ['12345', '500'],
+            args,
             bankCode: '9999',
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
-            logger: { info: vi.fn() } as any,
+            CONFIG: { PORT: 65525, RESPONSE_TIMEOUT: 5000, PIN_REQUIRED: false, CREDIT_LIMIT: 0, ...CONFIG },
+            accountLocks: new AccountLockManager(),
+            pins,
+            peers: new PeerClient({ port: 65525 }),
+            store,
+            logger: { info: vi.fn(), error: vi.fn() } as any,
         } as any;
+        return { ctx, socketMock };
+    }
 
-        (helpers.findAccountFile as any).mockResolvedValue('./accounts/12345_127.0.0.1.txt');
-        (fs.readFile as any).mockResolvedValue('1000');
-        (fs.writeFile as any).mockResolvedValue(undefined);
+    it('should deposit money to local account (AD)', async () => {
+        const { ctx, socketMock } = createContext(['12345', '500']);
 
         const command = new TransactionCommand('AD');
         await command.execute(ctx);
 
-        expect(fs.writeFile).toHaveBeenCalledWith('./accounts/12345_127.0.0.1.txt', '1500');
+        expect((await store.find('12345'))!.balance).toBe(1500n);
         expect(socketMock.write).toHaveBeenCalledWith('AD\r\n');
     });
 
     it('should withdraw money from local account (AW)', async () => {
-        const socketMock = { write: vi.fn() } as any;
-        const ctx: CommandContext = {
-            socket: socketMock,
-            args: ['12345', '400'],
-            bankCode: '9999',
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
-            logger: { info: vi.fn() } as any,
-        } as any;
-
-        (helpers.findAccountFile as any).mockResolvedValue('./accounts/12345_127.0.0.1.txt');
-        (fs.readFile as any).mockResolvedValue('1000');
-        (fs.writeFile as any).mockResolvedValue(undefined);
+        const { ctx, socketMock } = createContext(['12345', '400']);
 
         const command = new TransactionCommand('AW');
         await command.execute(ctx);
 
-        expect(fs.writeFile).toHaveBeenCalledWith('./accounts/12345_127.0.0.1.txt', '600');
+        expect((await store.find('12345'))!.balance).toBe(600n);
         expect(socketMock.write).toHaveBeenCalledWith('AW\r\n');
     });
 
     it('should throw error for insufficient funds (AW)', async () => {
-        const socketMock = { write: vi.fn() } as any;
-        const ctx: CommandContext = {
-            socket: socketMock,
-            args: ['12345', '1500'],
-            bankCode: '9999',
-            CONFIG: { ACCOUNTS_DIR: './accounts' },
-            logger: { info: vi.fn() } as any,
-        } as any;
-
-        (helpers.findAccountFile as any).mockResolvedValue('./accounts/12345_127.0.0.1.txt');
-        (fs.readFile as any).mockResolvedValue('1000');
+        const { ctx } = createContext(['12345', '1500']);
 
         const command = new TransactionCommand('AW');
         await expect(command.execute(ctx)).rejects.toThrow('LOW_FUNDS');
+        expect((await store.find('12345'))!.balance).toBe(1000n);
+    });
+
+    it('should let a withdrawal go below zero only down to the credit limit', async () => {
+        const overdraft = createContext(['12345', '1500'], { CREDIT_LIMIT: 500 });
+        await new TransactionCommand('AW').execute(overdraft.ctx);
+        expect((await store.find('12345'))!.balance).toBe(-500n);
+
+        await expect(new TransactionCommand('AW').execute(createContext(['12345', '1'], { CREDIT_LIMIT: 500 }).ctx)).rejects.toThrow('LOW_FUNDS');
+
+        // Vlastní limit účtu má přednost před výchozím
+        await store.setCreditLimit('12345', 600n);
+        await new TransactionCommand('AW').execute(createContext(['12345', '100'], { CREDIT_LIMIT: 500 }).ctx);
+        expect((await store.find('12345'))!.balance).toBe(-600n);
+        expect((await store.history('12345', 0, 1))[0]).toMatchObject({ operation: 'AW', amount: -100n, balance: -600n });
+    });
+
+    it('should reject unknown account and invalid amount', async () => {
+        const missing = createContext(['99999', '100']);
+        await expect(new TransactionCommand('AD').execute(missing.ctx)).rejects.toThrow('INVALID_TRANSACTION');
+
+        const { spec } = new TransactionCommand('AD');
+        expect(() => validateArgs(spec, ['12345/1111', '-5'])).toThrow('INVALID_TRANSACTION');
+        expect(() => validateArgs(spec, ['12345', '5'])).toThrow('INVALID_TRANSACTION');
+        expect(() => validateArgs(spec, ['12345/1111'])).toThrow('INVALID_TRANSACTION');
+    });
+
+    it('should proxy transaction for remote account', async () => {
+        const { ctx, socketMock } = createContext(['12345/1111', '500']);
+        (helpers.proxyCommand as any).mockResolvedValue('AD');
+
+        await new TransactionCommand('AD').execute(ctx);
+
+        expect(helpers.proxyCommand).toHaveBeenCalledWith('1111', 65525, 'AD 12345/1111 500', 5000);
+        expect(socketMock.write).toHaveBeenCalledWith('AD\r\n');
+    });
+
+    it('should require the PIN for withdrawals from an account that has one', async () => {
+        await store.setPin('12345', await hashPin('1234'));
+
+        await expect(new TransactionCommand('AW').execute(createContext(['12345', '100']).ctx)).rejects.toThrow('INVALID_PIN');
+        await expect(new TransactionCommand('AW').execute(createContext(['12345', '100', '9999']).ctx)).rejects.toThrow('INVALID_PIN');
+
+        const { ctx, socketMock } = createContext(['12345', '100', '1234']);
+        await new TransactionCommand('AW').execute(ctx);
+
+        expect((await store.find('12345'))!.balance).toBe(900n);
+        expect(socketMock.write).toHaveBeenCalledWith('AW\r\n');
+    });
+
+    it('should refuse PIN-less withdrawals once PINs are required', async () => {
+        const { ctx } = createContext(['12345', '100'], { PIN_REQUIRED: true });
+
+        await expect(new TransactionCommand('AW').execute(ctx)).rejects.toThrow('PIN_NOT_SET');
+        expect((await store.find('12345'))!.balance).toBe(1000n);
+    });
+
+    it('should pass the PIN unchanged to the remote bank', async () => {
+        const { ctx } = createContext(['12345/1111', '500', '0042']);
+        (helpers.proxyCommand as any).mockResolvedValue('AW');
+
+        await new TransactionCommand('AW').execute(ctx);
+
+        expect(helpers.proxyCommand).toHaveBeenCalledWith('1111', 65525, 'AW 12345/1111 500 0042', 5000);
     });
 });
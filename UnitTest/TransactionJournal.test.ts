@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { TransactionJournal } from '../src/TransactionJournal.js';
+
+describe('TransactionJournal', () => {
+    let dir: string;
+    let accountsDir: string;
+    let journalFile: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-journal-'));
+        accountsDir = path.join(dir, 'accounts');
+        journalFile = path.join(dir, 'data', 'journal.log');
+        await fs.mkdir(accountsDir);
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should apply create, update and delete and leave no temp files', async () => {
+        const journal = new TransactionJournal(journalFile);
+        await journal.recover(accountsDir);
+        const f = path.join(accountsDir, '12345_127.0.0.1.txt');
+
+        await journal.apply('AC', f, null, '0');
+        await journal.apply('AD', f, '0', '500');
+        expect(await fs.readFile(f, 'utf8')).toBe('500');
+
+        await journal.apply('AW', f, '500', '0');
+        await journal.apply('AR', f, '0', null);
+        expect(await fs.readdir(accountsDir)).toEqual([]);
+    });
+
+    it('should roll back an operation that was not committed before a crash', async () => {
+        const f = path.join(accountsDir, '12345_127.0.0.1.txt');
+        await fs.writeFile(f, '');
+        await fs.writeFile(`${f}.tmp`, '15');
+        await fs.mkdir(path.dirname(journalFile), { recursive: true });
+        await fs.writeFile(journalFile,
+            JSON.stringify({ id: 1, state: 'BEGIN', op: 'AD', file: f, before: '10', after: '15' }) + '\n');
+
+        const journal = new TransactionJournal(journalFile);
+        const recovered = await journal.recover(accountsDir);
+
+        expect(recovered).toBe(1);
+        expect(await fs.readFile(f, 'utf8')).toBe('10');
+        expect(await fs.readdir(accountsDir)).toEqual(['12345_127.0.0.1.txt']);
+        expect(await fs.readFile(journalFile, 'utf8')).toBe('');
+    });
+
+    it('should keep committed operations and ignore a torn last line', async () => {
+        const f = path.join(accountsDir, '12345_127.0.0.1.txt');
+        await fs.writeFile(f, '15');
+        await fs.mkdir(path.dirname(journalFile), { recursive: true });
+        await fs.writeFile(journalFile, [
+            JSON.stringify({ id: 1, state: 'BEGIN', op: 'AD', file: f, before: '10', after: '15' }),
+            JSON.stringify({ id: 1, state: 'COMMIT' }),
+            '{"id":2,"state":"BEG'
+        ].join('\n'));
+
+        const recovered = await new TransactionJournal(journalFile).recover(accountsDir);
+
+        expect(recovered).toBe(0);
+        expect(await fs.readFile(f, 'utf8')).toBe('15');
+    });
+
+    it('should undo an unfinished account creation and removal', async () => {
+        const created = path.join(accountsDir, '11111_127.0.0.1.txt');
+        const removed = path.join(accountsDir, '22222_127.0.0.1.txt');
+        await fs.writeFile(created, '0');
+        await fs.mkdir(path.dirname(journalFile), { recursive: true });
+        await fs.writeFile(journalFile, [
+            JSON.stringify({ id: 1, state: 'BEGIN', op: 'AC', file: created, before: null, after: '0' }),
+            JSON.stringify({ id: 2, state: 'BEGIN', op: 'AR', file: removed, before: '0', after: null }),
+        ].join('\n') + '\n');
+
+        await new TransactionJournal(journalFile).recover(accountsDir);
+
+        expect(await fs.readdir(accountsDir)).toEqual(['22222_127.0.0.1.txt']);
+        expect(await fs.readFile(removed, 'utf8')).toBe('0');
+    });
+
+    it('should truncate the journal after the checkpoint interval', async () => {
+        const journal = new TransactionJournal(journalFile, undefined, 4);
+        await journal.recover(accountsDir);
+        const f = path.join(accountsDir, '12345_127.0.0.1.txt');
+
+        await journal.apply('AC', f, null, '0');
+        await journal.apply('AD', f, '0', '1');
+
+        expect(await fs.readFile(journalFile, 'utf8')).toBe('');
+    });
+});
@@ -0,0 +1,360 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { TransferManager, TransferRejectedError } from '../src/TransferManager.js';
+import { AccountLockManager } from '../src/AccountLockManager.js';
+import { SnapshotLock } from '../src/SnapshotLock.js';
+import { MemoryAccountStore } from '../src/storage/index.js';
+import { commandRegistry, CommandContext, validateArgs } from '../src/commands/index.js';
+import { PinGuard, hashPin } from '../src/PinGuard.js';
+import { toBankError } from '../src/errors.js';
+
+const silentLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+interface TestBank {
+    code: string;
+    store: MemoryAccountStore;
+    locks: AccountLockManager;
+    transfers: TransferManager;
+    pins: PinGuard;
+    audit: { append: ReturnType<typeof vi.fn> };
+    online: boolean;
+}
+
+/**
+ * Pošle řádek protokolu bance stejně, jako by přišel po síti, a vrátí první řádek odpovědi.
+ */
+async function dispatch(bank: TestBank, line: string): Promise<string> {
+    const [command, ...args] = line.split(/\s+/);
+    const socket = { write: vi.fn(), remoteAddress: '127.0.0.1' } as any;
+    const ctx: CommandContext = {
+        socket,
+        args,
+        bankCode: bank.code,
+        remoteInfo: 'test',
+        logger: silentLogger,
+        networkMonitor: null as any,
+        accountLocks: bank.locks,
+        store: bank.store,
+        transfers: bank.transfers,
+        pins: bank.pins,
+        session: { language: 'cs' },
+        CONFIG: {} as any
+    };
+    try {
+        const handler = commandRegistry.get(command)!;
+        validateArgs(handler.spec, args);
+        await handler.execute(ctx);
+    } catch (err: any) {
+        return toBankError(err).toReply('cs');
+    }
+    return socket.write.mock.calls[0][0].trim();
+}
+
+describe('TransferManager', () => {
+    let dir: string;
+    let banks: Map<string, TestBank>;
+
+    async function createBank(code: string, accounts: [string, bigint][]): Promise<TestBank> {
+        const store = new MemoryAccountStore(accounts.map(([number, balance]) => ({ number, owner: '127.0.0.1', balance })));
+        const locks = new AccountLockManager();
+        const pins = new PinGuard();
+        const send = async (target: string, line: string) => {
+            const peer = banks.get(target);
+            if (!peer || !peer.online) throw new Error('connect ECONNREFUSED');
+            return dispatch(peer, line);
+        };
+        const audit = { append: vi.fn(async () => ({})) };
+        const transfers = new TransferManager(store, locks, silentLogger, send, {
+            audit: audit as any,
+            logFile: path.join(dir, code, 'transfers.log'),
+            stepTimeoutMs: 100,
+            prepareTimeoutMs: 0,
+            retryIntervalMs: 1000,
+            authorizeWithdrawal: async (account, pin) => {
+                await pins.authorize(account, pin, false);
+            }
+        });
+        await transfers.init();
+        const bank = { code, store, locks, transfers, pins, audit, online: true };
+        banks.set(code, bank);
+        return bank;
+    }
+
+    async function balance(bank: TestBank, account: string) {
+        return (await bank.store.find(account))!.balance;
+    }
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-transfer-'));
+        banks = new Map();
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should transfer between two local accounts', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n], ['22222', 0n]]);
+
+        expect(await dispatch(a, 'AT 11111/10.0.0.1 22222/10.0.0.1 200')).toBe('AT');
+
+        expect(await balance(a, '11111')).toBe(300n);
+        expect(await balance(a, '22222')).toBe(200n);
+    });
+
+    it('should transfer to and from an account at another bank', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n]]);
+        const b = await createBank('10.0.0.2', [['33333', 100n]]);
+
+        expect(await dispatch(a, 'AT 11111/10.0.0.1 33333/10.0.0.2 200')).toBe('AT');
+        expect(await balance(a, '11111')).toBe(300n);
+        expect(await balance(b, '33333')).toBe(300n);
+
+        expect(await dispatch(a, 'AT 33333/10.0.0.2 11111/10.0.0.1 50')).toBe('AT');
+        expect(await balance(a, '11111')).toBe(350n);
+        expect(await balance(b, '33333')).toBe(250n);
+    });
+
+    it('should write every balance change of a transfer to the audit log', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n]]);
+        const b = await createBank('10.0.0.2', [['33333', 100n]]);
+
+        expect(await dispatch(a, 'AT 11111/10.0.0.1 33333/10.0.0.2 200')).toBe('AT');
+        expect(await dispatch(a, 'AT 11111/10.0.0.1 33333/10.0.0.9 50')).toMatch(/nedostupná/);
+
+        const entries = (bank: TestBank) => bank.audit.append.mock.calls.map(([entry]) => entry);
+        expect(entries(a)).toEqual([
+            expect.objectContaining({ command: 'TP', account: '11111', amount: '200', before: '500', after: '300', outcome: 'OK' }),
+            expect.objectContaining({ command: 'TP', account: '11111', amount: '50', before: '300', after: '250' }),
+            expect.objectContaining({ command: 'TA', account: '11111', amount: '50', before: '250', after: '300' })
+        ]);
+        expect(entries(b)).toEqual([
+            expect.objectContaining({ command: 'TC', account: '33333', amount: '200', before: '100', after: '300' })
+        ]);
+        expect(entries(b)[0].remote).toMatch(/^transfer:/);
+    });
+
+    it('should reject and change nothing when funds are missing', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n]]);
+        const b = await createBank('10.0.0.2', [['33333', 100n]]);
+
+        const response = await dispatch(a, 'AT 33333/10.0.0.2 11111/10.0.0.1 1000');
+
+        expect(response).toBe('ER E408 Převod se nezdařil: Banka 10.0.0.2: Není dostatek finančních prostředků!');
+        expect(await balance(a, '11111')).toBe(500n);
+        expect(await balance(b, '33333')).toBe(100n);
+    });
+
+    it('should refund the local account when the other bank is unreachable', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n]]);
+
+        const response = await dispatch(a, 'AT 11111/10.0.0.1 33333/10.0.0.9 200');
+
+        expect(response).toMatch(/nedostupná/);
+        expect(await balance(a, '11111')).toBe(500n);
+    });
+
+    it('should reject transfers where no account belongs to this bank', async () => {
+        const a = await createBank('10.0.0.1', []);
+
+        await expect(a.transfers.transfer(
+            { account: '1', bank: '10.0.0.2' }, { account: '2', bank: '10.0.0.3' }, 1n, '10.0.0.1'
+        )).rejects.toBeInstanceOf(TransferRejectedError);
+        expect(await dispatch(a, 'AT 11111/10.0.0.1 22222/10.0.0.1 abc')).toBe('ER E103 Špatný formát převodu.');
+    });
+
+    it('should finish the commit once a vanished bank comes back', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n]]);
+        const b = await createBank('10.0.0.2', [['33333', 0n]]);
+
+        // Banka B odpoví na přípravu a pak zmizí
+        const send = (a.transfers as any).send;
+        (a.transfers as any).send = async (target: string, line: string, timeout: number) => {
+            const response = await send(target, line, timeout);
+            if (line.startsWith('TP')) b.online = false;
+            return response;
+        };
+
+        expect(await dispatch(a, 'AT 11111/10.0.0.1 33333/10.0.0.2 200')).toBe('AT');
+        expect(await balance(a, '11111')).toBe(300n);
+        expect(await balance(b, '33333')).toBe(0n);
+
+        b.online = true;
+        await a.transfers.resumePending();
+
+        expect(await balance(b, '33333')).toBe(200n);
+    });
+
+    it('should not finish transfers in the background while a backup takes its snapshot', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n]]);
+        const b = await createBank('10.0.0.2', [['33333', 0n]]);
+        const lock = new SnapshotLock();
+        (b.transfers as any).options.snapshotLock = lock;
+        await (a.transfers as any).save({
+            role: 'coordinator', id: 'tx-6', coordinator: '10.0.0.1',
+            from: { account: '11111', bank: '10.0.0.1' }, to: { account: '33333', bank: '10.0.0.2' },
+            amount: '100', state: 'COMMITTED', updatedAt: Date.now()
+        });
+        expect(await dispatch(b, 'TP tx-6 10.0.0.1 D 33333/10.0.0.2 100')).toBe('TP tx-6');
+
+        // Připsání vkladu po dotazu na koordinátora počká, až záloha uvolní zámek
+        let release!: () => void;
+        const snapshot = lock.runExclusive(() => new Promise<void>(resolve => release = resolve), 1000);
+        const resumed = b.transfers.resumePending();
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(await balance(b, '33333')).toBe(0n);
+
+        release();
+        await snapshot;
+        await resumed;
+        expect(await balance(b, '33333')).toBe(100n);
+    });
+
+    it('should roll back a transfer left undecided by a crash after restart', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n]]);
+        const b = await createBank('10.0.0.2', [['33333', 0n]]);
+
+        // Koordinátor připraví obě strany a "spadne" před rozhodnutím
+        const record = {
+            role: 'coordinator', id: 'tx-1', coordinator: '10.0.0.1',
+            from: { account: '11111', bank: '10.0.0.1' }, to: { account: '33333', bank: '10.0.0.2' },
+            amount: '200', state: 'STARTED', updatedAt: Date.now()
+        };
+        await (a.transfers as any).save(record);
+        await a.transfers.prepare('tx-1', '10.0.0.1', 'W', '11111', 200n);
+        expect(await dispatch(b, 'TP tx-1 10.0.0.1 D 33333/10.0.0.2 200')).toBe('TP tx-1');
+        expect(await balance(a, '11111')).toBe(300n);
+
+        const restarted = new TransferManager(a.store, a.locks, silentLogger, (a.transfers as any).send, {
+            logFile: path.join(dir, '10.0.0.1', 'transfers.log'), stepTimeoutMs: 100, prepareTimeoutMs: 0, retryIntervalMs: 1000
+        });
+        await restarted.init();
+        await restarted.resumePending();
+        a.transfers = restarted;
+
+        expect(await balance(a, '11111')).toBe(500n);
+        expect(restarted.status('tx-1')).toBe('ABORTED');
+        expect(await dispatch(b, 'TC tx-1 D')).toBe('ER E402 Převod již byl zrušen.');
+        expect(await balance(b, '33333')).toBe(0n);
+    });
+
+    it('should undo a half-applied withdrawal found in the log', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 300n]]);
+        const logFile = path.join(dir, '10.0.0.1', 'transfers.log');
+        const record = {
+            role: 'participant', id: 'tx-2', coordinator: '10.0.0.5', kind: 'W',
+            account: '11111', amount: '200', state: 'PREPARED', updatedAt: Date.now()
+        };
+        await fs.writeFile(logFile, JSON.stringify({ type: 'apply', record, before: '500', after: '300', recover: 'undo' }) + '\n');
+
+        const restarted = new TransferManager(a.store, a.locks, silentLogger, async () => 'TQ tx-2 ABORTED', {
+            logFile, stepTimeoutMs: 100, prepareTimeoutMs: 0, retryIntervalMs: 1000
+        });
+        await restarted.init();
+
+        expect(await balance(a, '11111')).toBe(500n);
+    });
+
+    it('should close a half-applied change of an account removed before the restart', async () => {
+        const a = await createBank('10.0.0.1', []);
+        const logFile = path.join(dir, '10.0.0.1', 'transfers.log');
+        const record = {
+            role: 'participant', id: 'tx-4', coordinator: '10.0.0.5', kind: 'D',
+            account: '11111', amount: '200', state: 'COMMITTED', updatedAt: Date.now()
+        };
+        await fs.writeFile(logFile, JSON.stringify({ type: 'apply', record, before: '0', after: '200', recover: 'redo' }) + '\n');
+
+        const restarted = new TransferManager(a.store, a.locks, silentLogger, async () => 'TQ tx-4 COMMITTED', {
+            logFile, stepTimeoutMs: 100, prepareTimeoutMs: 0, retryIntervalMs: 1000
+        });
+        await restarted.init();
+
+        expect(await restarted.commit('tx-4', 'D')).toBeUndefined();
+        expect(silentLogger.error).toHaveBeenCalledWith(expect.stringMatching(/11111 už neexistuje/));
+    });
+
+    it('should drop long finished transfers from the log on restart', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n], ['22222', 0n]]);
+        const logFile = path.join(dir, '10.0.0.1', 'transfers.log');
+        await (a.transfers as any).save({
+            role: 'coordinator', id: 'tx-old', coordinator: '10.0.0.1',
+            from: { account: '11111', bank: '10.0.0.1' }, to: { account: '22222', bank: '10.0.0.1' },
+            amount: '100', state: 'COMMITTED', updatedAt: Date.now() - 2 * 24 * 60 * 60 * 1000
+        });
+        await dispatch(a, 'AT 11111/10.0.0.1 22222/10.0.0.1 200');
+
+        const restarted = new TransferManager(a.store, a.locks, silentLogger, (a.transfers as any).send, {
+            logFile, stepTimeoutMs: 100, prepareTimeoutMs: 0, retryIntervalMs: 1000
+        });
+        await restarted.init();
+
+        const ids = (await fs.readFile(logFile, 'utf8')).trim().split('\n').map(line => JSON.parse(line).record.id);
+        expect(ids).toHaveLength(3);
+        expect(ids).not.toContain('tx-old');
+    });
+
+    it('should ask the coordinator when a prepared transfer waits too long', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n]]);
+        const b = await createBank('10.0.0.2', [['33333', 0n]]);
+        await (a.transfers as any).save({
+            role: 'coordinator', id: 'tx-3', coordinator: '10.0.0.1',
+            from: { account: '11111', bank: '10.0.0.1' }, to: { account: '33333', bank: '10.0.0.2' },
+            amount: '100', state: 'COMMITTED', updatedAt: Date.now()
+        });
+
+        expect(await dispatch(b, 'TP tx-3 10.0.0.1 D 33333/10.0.0.2 100')).toBe('TP tx-3');
+        await b.transfers.resumePending();
+
+        expect(await balance(b, '33333')).toBe(100n);
+        expect(await dispatch(a, 'TQ unknown')).toBe('TQ unknown ABORTED');
+    });
+
+    it('should credit a deposit only after the coordinator confirms the commit', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n]]);
+        const b = await createBank('10.0.0.2', [['33333', 0n]]);
+        await (a.transfers as any).save({
+            role: 'coordinator', id: 'tx-5', coordinator: '10.0.0.1',
+            from: { account: '11111', bank: '10.0.0.1' }, to: { account: '33333', bank: '10.0.0.2' },
+            amount: '100', state: 'STARTED', updatedAt: Date.now()
+        });
+        expect(await dispatch(b, 'TP tx-5 10.0.0.1 D 33333/10.0.0.2 100')).toBe('TP tx-5');
+
+        expect(await dispatch(b, 'TC tx-5 D')).toBe('ER E410 Koordinátor převod nepotvrdil (PENDING).');
+        a.online = false;
+        expect(await dispatch(b, 'TC tx-5 D')).toMatch(/^ER E406 Banka 10.0.0.1 je nedostupná/);
+        expect(await balance(b, '33333')).toBe(0n);
+
+        a.online = true;
+        await (a.transfers as any).setState((a.transfers as any).records.get('coordinator:tx-5'), 'COMMITTING');
+        expect(await dispatch(b, 'TC tx-5 D')).toBe('TC tx-5');
+        expect(await balance(b, '33333')).toBe(100n);
+    });
+
+    it('should require the PIN of the source account, also at another bank', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n]]);
+        const b = await createBank('10.0.0.2', [['33333', 100n]]);
+        await a.store.setPin('11111', await hashPin('1234'));
+        await b.store.setPin('33333', await hashPin('5678'));
+
+        expect(await dispatch(a, 'AT 11111/10.0.0.1 33333/10.0.0.2 200 9999')).toBe('ER E301 Neplatný PIN.');
+        expect(await dispatch(a, 'AT 11111/10.0.0.1 33333/10.0.0.2 200 1234')).toBe('AT');
+
+        expect(await dispatch(a, 'AT 33333/10.0.0.2 11111/10.0.0.1 50 1234')).toBe('ER E408 Převod se nezdařil: Banka 10.0.0.2: Neplatný PIN.');
+        expect(await dispatch(a, 'AT 33333/10.0.0.2 11111/10.0.0.1 50 5678')).toBe('AT');
+
+        expect(await balance(a, '11111')).toBe(350n);
+        expect(await balance(b, '33333')).toBe(250n);
+    });
+
+    it('should keep each transfer durably in the log file', async () => {
+        const a = await createBank('10.0.0.1', [['11111', 500n], ['22222', 0n]]);
+
+        await dispatch(a, 'AT 11111/10.0.0.1 22222/10.0.0.1 200');
+
+        const lines = (await fs.readFile(path.join(dir, '10.0.0.1', 'transfers.log'), 'utf8')).trim().split('\n').map(l => JSON.parse(l));
+        const last = lines.filter(l => l.record.role === 'coordinator').pop();
+        expect(last.record).toMatchObject({ state: 'COMMITTED', amount: '200' });
+    });
+});
@@ -0,0 +1,138 @@
+import { vi } from 'vitest';
+import os from 'node:os';
+import net from 'node:net';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { startServer, BankServer } from '../src/server.js';
+import { loadConfig } from '../src/config.js';
+
+/**
+ * Banka spuštěná v testu: skutečný TCP server s vlastním dočasným adresářem pro účty, žurnál a log převodů.
+ */
+export interface TestBank extends BankServer {
+    /** Adresa, na které banka naslouchá; zároveň je to kód banky. */
+    readonly host: string;
+    readonly dir: string;
+    readonly logger: any;
+    /** Zastaví banku a smaže její dočasný adresář. */
+    destroy(): Promise<void>;
+}
+
+/**
+ * Spustí banku na host (výchozí 127.0.0.1) a volném portu. overrides přepisují klíče app_config.json.
+ * Kontrola sítě je vypnutá a účty jsou v souborech (STORAGE_TYPE file), pokud overrides neřeknou jinak.
+ */
+export async function startTestBank(overrides: object = {}, host: string = '127.0.0.1'): Promise<TestBank> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-test-'));
+    const file = path.join(dir, 'app_config.json');
+    await fs.writeFile(file, JSON.stringify({
+        PORT: 0,
+        HOST: host,
+        ACCOUNTS_DIR: path.join(dir, 'accounts'),
+        JOURNAL_FILE: path.join(dir, 'journal.log'),
+        STORAGE_FILE: path.join(dir, 'accounts.json'),
+        TRANSFER_LOG: path.join(dir, 'transfers.log'),
+        AUDIT_DIR: path.join(dir, 'audit'),
+        QUARANTINE_DIR: path.join(dir, 'quarantine'),
+        BACKUP_DIR: path.join(dir, 'backups'),
+        SCHEDULER_LOG: path.join(dir, 'scheduler.log'),
+        NETWORK_PROBES: [],
+        ...overrides
+    }));
+
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as any;
+    let server: BankServer;
+    try {
+        server = await startServer(loadConfig({ file, env: {}, argv: [] }), logger);
+    } catch (err) {
+        await fs.rm(dir, { recursive: true, force: true });
+        throw err;
+    }
+
+    return {
+        ...server,
+        host,
+        dir,
+        logger,
+        async destroy() {
+            await server.stop();
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    };
+}
+
+/**
+ * Spustí několik bank, každou na jiné loopback adrese (127.0.0.1, 127.0.0.2, ...), ale na stejném portu -
+ * banky si posílají příkazy na svůj vlastní PORT, takže se navzájem najdou jen podle adresy (kódu banky).
+ * Všechny adresy jsou v PEER_BANKS, takže si banky navzájem přijmou příkazy převodů.
+ */
+export async function startTestBanks(count: number, overrides: object = {}): Promise<TestBank[]> {
+    const hosts = Array.from({ length: count }, (_, i) => `127.0.0.${i + 1}`);
+    const port = await freePort(hosts);
+    const banks: TestBank[] = [];
+    try {
+        for (const host of hosts) banks.push(await startTestBank({ PEER_BANKS: hosts, ...overrides, PORT: port }, host));
+    } catch (err) {
+        await Promise.all(banks.map(bank => bank.destroy()));
+        throw err;
+    }
+    return banks;
+}
+
+/**
+ * Najde port, který je volný na všech zadaných adresách.
+ */
+export async function freePort(hosts: string[]): Promise<number> {
+    for (let attempt = 0; attempt < 10; attempt++) {
+        const servers: net.Server[] = [];
+        try {
+            let port = 0;
+            for (const host of hosts) {
+                const server = net.createServer();
+                await new Promise<void>((resolve, reject) => {
+                    server.once('error', reject);
+                    server.listen(port, host, () => resolve());
+                });
+                servers.push(server);
+                port = (server.address() as net.AddressInfo).port;
+            }
+            return port;
+        } catch {
+            // Port je na některé adrese obsazený, zkusí se jiný
+        } finally {
+            await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+        }
+    }
+    throw new Error('Nepodařilo se najít volný port');
+}
+
+/**
+ * Připojí se k bance (případně z adresy localAddress); odeslané řádky jdou najednou a odpovědi se sbírají do received.
+ */
+export function connect(port: number, host: string = '127.0.0.1', localAddress?: string) {
+    const socket = net.createConnection({ host, port, localAddress });
+    const received: string[] = [];
+    let buffer = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (data: string) => {
+        buffer += data;
+        const lines = buffer.split('\r\n');
+        buffer = lines.pop()!;
+        received.push(...lines);
+    });
+    const closed = new Promise<void>(resolve => socket.on('close', () => resolve()));
+    return {
+        socket,
+        ready: new Promise<void>(resolve => socket.once('connect', () => resolve())),
+        send: (...lines: string[]) => socket.write(lines.map(l => l + '\r\n').join('')),
+        /** Počká, až dorazí aspoň count odpovědí (nebo se spojení zavře). */
+        waitFor: async (count: number) => {
+            while (received.length < count && !socket.destroyed) {
+                await new Promise(resolve => setTimeout(resolve, 10));
+            }
+            return received;
+        },
+        received,
+        closed
+    };
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { loadConfig, reloadConfig, ConfigError } from '../src/config.js';
+
+describe('config', () => {
+    let dir: string;
+    let file: string;
+
+    const write = (content: object) => fs.writeFile(file, JSON.stringify(content));
+    const load = (env: NodeJS.ProcessEnv = {}, argv: string[] = []) => loadConfig({ file, env, argv });
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-config-'));
+        file = path.join(dir, 'app_config.json');
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should fill in defaults for missing optional keys', async () => {
+        await write({ PORT: 65525, ACCOUNTS_DIR: './accounts' });
+
+        const config = load();
+
+        expect(config.PORT).toBe(65525);
+        expect(config.RESPONSE_TIMEOUT).toBe(5000);
+        expect(config.STORAGE_TYPE).toBe('file');
+        expect(config.LOG_LEVEL).toBe('info');
+        expect(config.SCAN_IP_RANGE).toBeUndefined();
+    });
+
+    it('should report every problem at once', async () => {
+        await write({ PORT: 65525, RESPONSE_TIMOUT: 5000, LOCK_TIMEOUT: '5000', STORAGE_TYPE: 'sql' });
+
+        let error: ConfigError | undefined;
+        try {
+            load();
+        } catch (err: any) {
+            error = err;
+        }
+
+        expect(error).toBeInstanceOf(ConfigError);
+        expect(error!.problems).toHaveLength(4);
+        expect(error!.message).toMatch(/RESPONSE_TIMOUT: neznámý klíč/);
+        expect(error!.message).toMatch(/LOCK_TIMEOUT.*celé číslo.*"5000"/);
+        expect(error!.message).toMatch(/STORAGE_TYPE.*file, memory, json/);
+        expect(error!.message).toMatch(/ACCOUNTS_DIR: chybí povinná hodnota/);
+    });
+
+    it('should fail clearly when the file is missing or broken', async () => {
+        expect(() => load()).toThrow(/Chybí konfigurační soubor/);
+
+        await fs.writeFile(file, '{ "PORT": ');
+        expect(() => load()).toThrow(/není platný JSON/);
+    });
+
+    it('should let environment variables and then command line flags override the file', async () => {
+        await write({ PORT: 65525, ACCOUNTS_DIR: './accounts', RESPONSE_TIMEOUT: 5000 });
+
+        const fromEnv = load({ BANK_PORT: '65530', BANK_NETWORK_PROBES: 'interfaces, tcp', BANK_RESPONSE_TIMEOUT: '4000' });
+        expect(fromEnv.PORT).toBe(65530);
+        expect(fromEnv.NETWORK_PROBES).toEqual(['interfaces', 'tcp']);
+
+        const fromArgs = load({ BANK_RESPONSE_TIMEOUT: '4000' }, ['--response-timeout', '3000', '--log-level=debug']);
+        expect(fromArgs.RESPONSE_TIMEOUT).toBe(3000);
+        expect(fromArgs.LOG_LEVEL).toBe('debug');
+
+        expect(() => load({ BANK_PORT: 'abc' })).toThrow(/PORT \(BANK_PORT\): musí být celé číslo/);
+        expect(() => load({}, ['--prot', '1'])).toThrow(/--prot: neznámý přepínač/);
+    });
+
+    it('should apply only reloadable keys on reload', async () => {
+        await write({ PORT: 65525, ACCOUNTS_DIR: './accounts', RESPONSE_TIMEOUT: 5000 });
+        const config = load();
+
+        await write({ PORT: 65526, ACCOUNTS_DIR: './accounts', RESPONSE_TIMEOUT: 2000 });
+        const result = reloadConfig(config, { file, env: {}, argv: [] });
+
+        expect(result).toEqual({ changed: ['RESPONSE_TIMEOUT'], needsRestart: ['PORT'] });
+        expect(config.RESPONSE_TIMEOUT).toBe(2000);
+        expect(config.PORT).toBe(65525);
+    });
+
+    it('should require certificate files for the TLS options', async () => {
+        await write({ PORT: 65525, ACCOUNTS_DIR: './accounts', TLS_PORT: 65526, TLS_ONLY: true, TLS_CLIENT_AUTH: 'required' });
+
+        expect(() => load()).toThrow(/TLS_PORT: vyžaduje TLS_CERT a TLS_KEY[\s\S]*TLS_CLIENT_AUTH: hodnota required vyžaduje TLS_CA/);
+        expect(() => load({}, ['--TLS_PORT', ''])).toThrow(ConfigError);
+
+        await write({ PORT: 65525, ACCOUNTS_DIR: './accounts', TLS_ONLY: true });
+        expect(() => load()).toThrow(/TLS_ONLY: vyžaduje TLS_PORT/);
+    });
+
+    it('should validate scheduler rules and accept them as JSON from the environment', async () => {
+        await write({ PORT: 65525, ACCOUNTS_DIR: './accounts', SCHEDULE: [{ name: 'urok', type: 'interest', schedule: 'monthly', rate: '0.5' }] });
+        expect(() => load()).toThrow(/SCHEDULE: pravidlo urok: schedule musí být cron/);
+
+        const rules = [{ name: 'poplatek', type: 'fee', schedule: '0 0 1 * *', amount: 20 }];
+        expect(load({ BANK_SCHEDULE: JSON.stringify(rules) }).SCHEDULE).toEqual(rules);
+        expect(() => load({ BANK_SCHEDULE: 'urok' })).toThrow(/SCHEDULE \(BANK_SCHEDULE\): musí být pole objektů/);
+    });
+
+    it('should reject scan ranges that are invalid or too large', async () => {
+        await write({ PORT: 65525, ACCOUNTS_DIR: './accounts', SCAN_IP_RANGE: '10.0.0.0/8', SCAN_PORT_RANGE: '65525-65535' });
+        expect(() => load()).toThrow(/SCAN_IP_RANGE: 16777214 adres × 11 portů je víc než 65536 cílů skenu/);
+        expect(() => load({ BANK_SCAN_IP_RANGE: '10.0.0.1-10.0.0.x' })).toThrow(/SCAN_IP_RANGE: Neplatn/);
+        expect(load({ BANK_SCAN_IP_RANGE: '10.0.0.0/24' }).SCAN_IP_RANGE).toBe('10.0.0.0/24');
+    });
+
+    it('should keep the current config when the reloaded one is invalid', async () => {
+        await write({ PORT: 65525, ACCOUNTS_DIR: './accounts' });
+        const config = load();
+
+        await write({ PORT: 65525, ACCOUNTS_DIR: './accounts', RESPONSE_TIMEOUT: -1 });
+
+        expect(() => reloadConfig(config, { file, env: {}, argv: [] })).toThrow(ConfigError);
+        expect(config.RESPONSE_TIMEOUT).toBe(5000);
+    });
+});
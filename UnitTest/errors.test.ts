@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { BankError, toBankError, parseErrorReply } from '../src/errors.js';
+
+describe('BankError', () => {
+    it('should render the code and text in both languages', () => {
+        const error = new BankError('LOW_FUNDS');
+
+        expect(error.message).toBe('LOW_FUNDS');
+        expect(error.toReply('cs')).toBe('ER E202 Není dostatek finančních prostředků!');
+        expect(error.toReply('en')).toBe('ER E202 Insufficient funds!');
+    });
+
+    it('should translate parameters, including nested errors', () => {
+        const error = new BankError('TRANSFER_FAILED', {
+            reason: new BankError('TRANSFER_PEER_REJECTED', { bank: '10.0.0.2', reason: new BankError('INVALID_PIN') })
+        });
+
+        expect(error.toReply('cs')).toBe('ER E408 Převod se nezdařil: Banka 10.0.0.2: Neplatný PIN.');
+        expect(error.toReply('en')).toBe('ER E408 The transfer failed: Bank 10.0.0.2: Invalid PIN.');
+    });
+
+    it('should hide unexpected errors behind SERVER_ERROR', () => {
+        const known = new BankError('ACCOUNT_BUSY');
+
+        expect(toBankError(known)).toBe(known);
+        expect(toBankError(new Error('TIMEOUT')).key).toBe('TIMEOUT');
+        expect(toBankError(new Error('EACCES: permission denied')).key).toBe('SERVER_ERROR');
+    });
+});
+
+describe('parseErrorReply', () => {
+    it('should turn a coded reply back into the same error in any language', () => {
+        const error = parseErrorReply(new BankError('ACCOUNT_LOCKED').toReply('cs'))!;
+
+        expect(error.key).toBe('ACCOUNT_LOCKED');
+        expect(error.toReply('en')).toBe(new BankError('ACCOUNT_LOCKED').toReply('en'));
+    });
+
+    it('should keep the remote text when parameters cannot be recovered', () => {
+        const error = parseErrorReply('ER E504 Z vaší adresy je založeno příliš mnoho účtů (limit 3).')!;
+
+        expect(error.key).toBe('ACCOUNT_LIMIT');
+        expect(error.toReply('en')).toBe('ER E504 Z vaší adresy je založeno příliš mnoho účtů (limit 3).');
+    });
+
+    it('should pass replies without a known code through as PEER_REPLY', () => {
+        expect(parseErrorReply('ER Účet neexistuje.')!.toReply('en')).toBe('ER E907 Účet neexistuje.');
+        expect(parseErrorReply('ER E999 Něco nového')!.toReply('cs')).toBe('ER E907 E999 Něco nového');
+        expect(parseErrorReply('AB 100')).toBeNull();
+    });
+});
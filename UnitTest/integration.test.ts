@@ -0,0 +1,245 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import net from 'node:net';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { startTestBank, startTestBanks, freePort, connect, TestBank } from './bankHarness.js';
+import { verifyAuditLog } from '../src/AuditLog.js';
+import { readBackup, restoreBackup } from '../src/Backup.js';
+import { MemoryAccountStore } from '../src/storage/index.js';
+
+describe('banks over real sockets', () => {
+    let banks: TestBank[] = [];
+    let cleanup: (() => Promise<unknown>)[] = [];
+
+    afterEach(async () => {
+        await Promise.all(banks.map(bank => bank.destroy()));
+        await Promise.all(cleanup.map(fn => fn()));
+        banks = [];
+        cleanup = [];
+    });
+
+    /** Pošle příkazy jednomu spojení a vrátí jejich odpovědi. */
+    const exchange = async (bank: TestBank, ...lines: string[]) => {
+        const client = connect(bank.port!, bank.host);
+        cleanup.push(async () => client.socket.destroy());
+        await client.ready;
+        client.send(...lines);
+        return client.waitFor(lines.length);
+    };
+
+    it('should proxy AD, AW and AB to another bank', async () => {
+        banks = await startTestBanks(2);
+        const [local, remote] = banks;
+
+        const [created] = await exchange(remote, 'AC 1234');
+        const account = created.split(' ')[1];
+        expect(account).toMatch(/^\d{5}\/127\.0\.0\.2$/);
+
+        expect(await exchange(local, `AD ${account} 500`, `AW ${account} 200 1234`, `AB ${account}`, `AW ${account} 1 9999`))
+            .toEqual(['AD', 'AW', 'AB 300 300', 'ER E301 Neplatný PIN.']);
+
+        // Zůstatek je uložený v souboru účtu vzdálené banky, ne u té, která příkazy přeposílala
+        const [number] = account.split('/');
+        expect((await remote.store.find(number))!.balance).toBe(300n);
+        expect(await local.store.find(number)).toBeNull();
+        expect(await fs.readdir(path.join(remote.dir, 'accounts'))).toContain(`${number}_127.0.0.1.txt`);
+    });
+
+    it('should write money movements and proxied requests to the audit log', async () => {
+        banks = await startTestBanks(2);
+        const [local, remote] = banks;
+        const [created] = await exchange(local, 'AC 1234');
+        const account = created.split(' ')[1];
+        const number = account.split('/')[0];
+
+        await exchange(local, `AD ${account} 500`, `AW ${account} 900 1234`, `AB ${account}`, 'AB 99999/127.0.0.2');
+
+        const audit = await fs.readdir(path.join(local.dir, 'audit'));
+        const entries = (await fs.readFile(path.join(local.dir, 'audit', audit[0]), 'utf8')).split('\n').filter(Boolean).map(l => JSON.parse(l));
+        expect(entries.map(({ command, account, proxiedTo, amount, before, after, outcome }) => ({ command, account, proxiedTo, amount, before, after, outcome })))
+            .toEqual([
+                { command: 'AC', account: number, after: '0', outcome: 'OK' },
+                { command: 'AD', account: number, amount: '500', before: '0', after: '500', outcome: 'OK' },
+                { command: 'AW', account: number, amount: '900', before: '500', outcome: 'E202' },
+                { command: 'AB', account: '99999', proxiedTo: '127.0.0.2', outcome: 'E201' }
+            ].map(e => ({ proxiedTo: undefined, amount: undefined, before: undefined, after: undefined, ...e })));
+        expect(entries[0].remote).toMatch(/^127\.0\.0\.1:\d+$/);
+        // PIN se do auditu nezapisuje
+        expect(entries.flatMap(e => Object.values(e))).not.toContain('1234');
+        expect((await verifyAuditLog(path.join(local.dir, 'audit'))).problems).toEqual([]);
+        // Pro cizí banku je přeposlané AB obyčejný dotaz na zůstatek, ten se do auditu nezapisuje
+        expect(await fs.readdir(path.join(remote.dir, 'audit'))).toEqual([]);
+    });
+
+    it('should transfer money between two banks with AT', async () => {
+        banks = await startTestBanks(2);
+        const [first, second] = banks;
+        const [from] = await exchange(first, 'AC 1234');
+        const [to] = await exchange(second, 'AC 4321');
+        const source = from.split(' ')[1];
+        const target = to.split(' ')[1];
+
+        expect(await exchange(first, `AD ${source} 1000`, `AT ${source} ${target} 400 1234`, `AB ${source}`, `AB ${target}`))
+            .toEqual(['AD', 'AT', 'AB 600 600', 'AB 400 400']);
+    });
+
+    it('should accept transfer phase commands only from peer banks', async () => {
+        banks = await startTestBanks(2);
+        const [, second] = banks;
+        const [to] = await exchange(second, 'AC 4321');
+        const target = to.split(' ')[1];
+
+        // Klient z adresy, která není v PEER_BANKS, si nemůže připsat peníze sám
+        const stranger = connect(second.port!, second.host, '127.0.0.3');
+        cleanup.push(async () => stranger.socket.destroy());
+        await stranger.ready;
+        stranger.send(`TP x1 127.0.0.1 D ${target} 1000`, 'TC x1 D', 'TQ x1');
+        expect(await stranger.waitFor(3)).toEqual(Array(3).fill('ER E409 Tento příkaz přijímáme jen od ověřených bank.'));
+
+        // Banka z PEER_BANKS projde, ale vklad se připíše až po potvrzení koordinátorem (ten převod x1 nezná)
+        expect(await exchange(second, `TP x1 127.0.0.1 D ${target} 1000`, 'TC x1 D', `AB ${target}`))
+            .toEqual(['TP x1', 'ER E402 Převod již byl zrušen.', 'AB 0 0']);
+    });
+
+    it('should show the account history of another bank with AH', async () => {
+        banks = await startTestBanks(2);
+        const [first, second] = banks;
+        const [from] = await exchange(first, 'AC 1234');
+        const [to] = await exchange(second, 'AC 4321');
+        const source = from.split(' ')[1];
+        const target = to.split(' ')[1];
+        await exchange(first, `AD ${source} 1000`, `AT ${source} ${target} 400 1234`);
+
+        const [history] = await exchange(first, `AH ${target}`);
+        expect(history).toMatch(/^AH \S+Z AT \+400 400 \| \S+Z AC 0 0$/);
+        expect((await exchange(first, `AH ${source} 0 1`))[0]).toMatch(/^AH \S+Z AT -400 600$/);
+    });
+
+    it('should back up a running bank over HTTP and restore it elsewhere', async () => {
+        const bank = await startTestBank({ ADMIN_PORT: 0 });
+        banks = [bank];
+        const [created] = await exchange(bank, 'AC 1234');
+        const account = created.split(' ')[1];
+        await exchange(bank, `AD ${account} 750`);
+
+        const res = await fetch(`http://127.0.0.1:${bank.adminPort}/backup`, { method: 'POST' });
+        const { file, accounts, total } = await res.json();
+        expect([res.status, accounts, total]).toEqual([200, 1, '750']);
+        expect(path.dirname(file)).toBe(path.join(bank.dir, 'backups'));
+
+        const archive = await readBackup(file);
+        expect(archive.metadata.audit!.seq).toBe(2);
+        const restored = new MemoryAccountStore();
+        await restoreBackup(restored, archive);
+        const [number] = account.split('/');
+        expect(await restored.find(number)).toEqual(await bank.store.find(number));
+
+        const csv = await (await fetch(`http://127.0.0.1:${bank.adminPort}/export?format=csv`)).text();
+        expect(csv).toBe(`number,owner,balance\r\n${number},127.0.0.1,750\r\n`);
+    });
+
+    it('should let an account with a credit limit go below zero and keep it until repaid', async () => {
+        const bank = await startTestBank({ ADMIN_PORT: 0, CREDIT_LIMIT: 100 });
+        banks = [bank];
+        const [created] = await exchange(bank, 'AC 1234');
+        const account = created.split(' ')[1];
+        const [number] = account.split('/');
+        const setLimit = (limit: string) => fetch(`http://127.0.0.1:${bank.adminPort}/credit-limit?account=${number}&limit=${limit}`, { method: 'POST' });
+
+        expect(await exchange(bank, `AW ${account} 150 1234`, `AW ${account} 100 1234`, `AB ${account}`))
+            .toEqual(['ER E202 Není dostatek finančních prostředků!', 'AW', 'AB -100 0']);
+
+        const res = await setLimit('500');
+        expect([res.status, await res.json()]).toEqual([200, { account: number, balance: '-100', creditLimit: '500', available: '400' }]);
+        expect(await exchange(bank, `AW ${account} 400 1234`, `AB ${account}`, 'BA', `AR ${account} 1234`)).toEqual([
+            'AW',
+            'AB -500 0',
+            'BA -500',
+            'ER E208 Účet v záporném zůstatku nelze zrušit, nejdřív je potřeba dluh splatit.'
+        ]);
+        expect(await fs.readFile(path.join(bank.dir, 'accounts', `${number}_127.0.0.1.txt`), 'utf8')).toMatch(/^-500\nscrypt\$\S+\n500$/);
+
+        expect((await setLimit('default')).status).toBe(200);
+        expect((await setLimit('-5')).status).toBe(400);
+        expect((await fetch(`http://127.0.0.1:${bank.adminPort}/credit-limit?account=99999&limit=10`, { method: 'POST' })).status).toBe(404);
+        expect(await exchange(bank, `AB ${account}`, `AD ${account} 500`, `AR ${account} 1234`)).toEqual(['AB -500 0', 'AD', 'AR']);
+    });
+
+    it('should translate errors of another bank into the language of the connection', async () => {
+        banks = await startTestBanks(2, { LANGUAGE: 'en' });
+        const [local, remote] = banks;
+        const [created] = await exchange(remote, 'AC 1234');
+        const account = created.split(' ')[1];
+
+        expect(await exchange(local, 'AB 99999/127.0.0.2', `AW ${account} 100 1234`, 'LG cs', `AW ${account} 100 1234`, 'LG de'))
+            .toEqual([
+                'ER E201 The account does not exist.',
+                'ER E202 Insufficient funds!',
+                'LG cs',
+                'ER E202 Není dostatek finančních prostředků!',
+                'ER E107 Neznámý jazyk, podporované jsou: cs, en.'
+            ]);
+    });
+
+    it('should answer in time when the other bank does not respond', async () => {
+        const port = await freePort(['127.0.0.1', '127.0.0.2']);
+        // Cizí banka, která spojení přijme, ale nikdy neodpoví
+        const silent = net.createServer(socket => socket.resume());
+        await new Promise<void>(resolve => silent.listen(port, '127.0.0.2', () => resolve()));
+        cleanup.push(() => new Promise(resolve => silent.close(resolve)));
+        const bank = await startTestBank({ PORT: port, RESPONSE_TIMEOUT: 300 });
+        banks = [bank];
+
+        const startedAt = Date.now();
+        const client = connect(bank.port!);
+        cleanup.push(async () => client.socket.destroy());
+        await client.ready;
+        client.send('AB 12345/127.0.0.2');
+        await client.waitFor(1);
+        expect(Date.now() - startedAt).toBeLessThan(1000);
+
+        // Pozdě doběhlé přeposlání už nesmí poslat druhou odpověď místo odpovědi na další příkaz
+        await new Promise(resolve => setTimeout(resolve, 100));
+        client.send('BC');
+        expect(await client.waitFor(2)).toEqual(['ER E901 Operace trvala příliš dlouho!', 'BC 127.0.0.1']);
+    });
+
+    it('should report an unreachable bank', async () => {
+        banks = await startTestBanks(1);
+
+        const [response] = await exchange(banks[0], 'AB 12345/127.0.0.2');
+
+        expect(response).toMatch(/^ER E906 Chyba při komunikaci s cizí bankou: .*ECONNREFUSED/);
+    });
+
+    it('should reject unknown commands and keep the connection open', async () => {
+        banks = [await startTestBank()];
+
+        expect(await exchange(banks[0], 'XYZ', 'ab 12345', 'BC')).toEqual(['ER E100 Neznámý příkaz', 'ER E100 Neznámý příkaz', 'BC 127.0.0.1']);
+    });
+
+    it('should validate arguments before running a command', async () => {
+        banks = [await startTestBank()];
+
+        expect(await exchange(banks[0], 'AD 12345 100', 'AC 12', 'AT 10001/127.0.0.1 10002/127.0.0.1 0', 'BC navíc', 'HELP AB'))
+            .toEqual([
+                'ER E102 Špatný formát nebo účet neexistuje.',
+                'ER E105 Špatný formát, PIN musí mít 4 až 8 číslic.',
+                'ER E103 Špatný formát převodu.',
+                'ER E101 Špatný formát.',
+                'HELP AB <účet> - Zjištění zůstatku a disponibilní částky účtu (včetně úvěrového limitu).'
+            ]);
+        expect(await banks[0].store.list()).toHaveLength(0);
+    });
+
+    it('should disconnect idle clients', async () => {
+        banks = [await startTestBank({ CLIENT_IDLE_TIMEOUT: 100 })];
+        const client = connect(banks[0].port!);
+        await client.ready;
+
+        await client.closed;
+
+        expect(client.received).toEqual(['ER E905 Odpojeno pro neaktivitu']);
+        expect(banks[0].logger.warn).toHaveBeenCalledWith(expect.stringMatching(/odpojen pro neaktivitu/));
+    });
+});
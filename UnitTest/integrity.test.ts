@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { checkAccountFiles, formatIntegrityReport, writeIntegrityReport } from '../src/storage/index.js';
+
+describe('checkAccountFiles', () => {
+    let dir: string;
+    let accountsDir: string;
+    let quarantineDir: string;
+
+    const write = (file: string, content: string) => fs.writeFile(path.join(accountsDir, file), content);
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-integrity-'));
+        accountsDir = path.join(dir, 'accounts');
+        quarantineDir = path.join(dir, 'quarantine');
+        await fs.mkdir(accountsDir);
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should accept valid account files with PIN hash, credit limit and history', async () => {
+        await write('11111_10.0.0.1.txt', '100');
+        await write('22222_10.0.0.2.txt', '0\nscrypt$0a1b$2c3d');
+        await write('22222_10.0.0.2.history', '{}\n');
+        await write('44444_10.0.0.4.txt', '-250\n\n500');
+        await write('33333_10.0.0.3.txt.tmp', 'x');
+
+        const report = await checkAccountFiles(accountsDir, quarantineDir);
+
+        expect(report).toEqual({ dir: accountsDir, accounts: 3, problems: [], quarantined: [] });
+        await expect(fs.access(quarantineDir)).rejects.toThrow();
+    });
+
+    it('should report bad names, contents, number ranges and duplicates', async () => {
+        await write('notes.txt', 'x');
+        await write('readme.md', 'x');
+        await write('123_10.0.0.1.txt', '5');
+        await write('44444_server.txt', '5');
+        await write('55555_10.0.0.1.txt', 'abc');
+        await write('56565_10.0.0.1.txt', '+5');
+        await write('58585_10.0.0.1.txt', '5\n\n-100');
+        await write('57575_10.0.0.1.txt', '5\nplain-pin');
+        await write('66666_10.0.0.1.txt', '1');
+        await write('66666_10.0.0.2.txt', '2');
+        await write('77777_10.0.0.1.history', '{}\n');
+        await write('88888_10.0.0.1.txt', '8');
+
+        const report = await checkAccountFiles(accountsDir);
+
+        expect(report.accounts).toBe(1);
+        expect(report.quarantined).toEqual([]);
+        expect(report.problems).toEqual([
+            { file: '123_10.0.0.1.txt', reason: 'číslo účtu 123 mimo rozsah 10000-99999' },
+            { file: '44444_server.txt', reason: 'vlastník server není IP adresa' },
+            { file: '55555_10.0.0.1.txt', reason: 'neplatný zůstatek "abc"' },
+            { file: '56565_10.0.0.1.txt', reason: 'neplatný zůstatek "+5"' },
+            { file: '57575_10.0.0.1.txt', reason: 'neplatný hash PINu' },
+            { file: '58585_10.0.0.1.txt', reason: 'neplatný úvěrový limit "-100"' },
+            { file: '66666_10.0.0.1.txt', reason: 'účet 66666 je v 2 souborech' },
+            { file: '66666_10.0.0.2.txt', reason: 'účet 66666 je v 2 souborech' },
+            { file: '77777_10.0.0.1.history', reason: 'historie bez souboru účtu' },
+            { file: 'notes.txt', reason: 'název neodpovídá tvaru <číslo>_<IP>.txt' },
+            { file: 'readme.md', reason: 'název neodpovídá tvaru <číslo>_<IP>.txt' }
+        ]);
+        expect(await fs.readdir(accountsDir)).toHaveLength(12);
+    });
+
+    it('should move bad files and their history to quarantine', async () => {
+        await write('11111_10.0.0.1.txt', 'oops');
+        await write('11111_10.0.0.1.history', '{}\n');
+        await write('notes.txt', 'x');
+        await write('22222_10.0.0.1.txt', '5');
+
+        const report = await checkAccountFiles(accountsDir, quarantineDir);
+
+        expect(report.quarantined).toEqual(['11111_10.0.0.1.txt', '11111_10.0.0.1.history', 'notes.txt']);
+        expect(await fs.readdir(accountsDir)).toEqual(['22222_10.0.0.1.txt']);
+        expect((await fs.readdir(quarantineDir)).sort()).toEqual(['11111_10.0.0.1.history', '11111_10.0.0.1.txt', 'notes.txt']);
+        expect((await checkAccountFiles(accountsDir)).problems).toEqual([]);
+    });
+
+    it('should write a readable report', async () => {
+        await write('notes.txt', 'x');
+        const report = await checkAccountFiles(accountsDir, quarantineDir);
+        const time = new Date('2026-10-19T08:00:00.000Z');
+
+        const file = await writeIntegrityReport(report, quarantineDir, time);
+
+        expect(path.basename(file)).toBe('report-2026-10-19T08-00-00-000Z.txt');
+        expect(await fs.readFile(file, 'utf8')).toBe(formatIntegrityReport(report, time));
+        expect(formatIntegrityReport(report, time)).toBe([
+            `Kontrola ${accountsDir} (2026-10-19T08:00:00.000Z): 0 platných účtů, 1 problémů.`,
+            'notes.txt: název neodpovídá tvaru <číslo>_<IP>.txt',
+            'přesunuto do karantény: notes.txt',
+            ''
+        ].join('\n'));
+    });
+});
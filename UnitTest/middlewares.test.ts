@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CommandPipeline, Command, CommandContext } from '../src/commands/index.js';
+import { replyErrors, responseTimeout, recordMetrics, accountLimit } from '../src/middlewares.js';
+import { Metrics } from '../src/Metrics.js';
+import { MemoryAccountStore } from '../src/storage/index.js';
+import { AccountLockManager } from '../src/AccountLockManager.js';
+import { BankError } from '../src/errors.js';
+
+function createCommand(name: string, execute: (ctx: CommandContext) => Promise<void>): Map<string, Command> {
+    return new Map([[name, { spec: { name, description: '', args: [], example: name }, execute }]]);
+}
+
+function createContext(command: string, overrides: object = {}) {
+    const socket = { write: vi.fn() } as any;
+    const logger = { error: vi.fn() } as any;
+    const ctx: CommandContext = {
+        socket,
+        command,
+        args: [],
+        remoteInfo: '10.0.0.5:40000',
+        clientIp: '10.0.0.5',
+        logger,
+        session: { language: 'en' },
+        CONFIG: { RESPONSE_TIMEOUT: 50, MAX_ACCOUNTS_PER_IP: 1 },
+        ...overrides
+    } as any;
+    return { ctx, socket, logger };
+}
+
+describe('middlewares', () => {
+    it('should reply with the error in the language of the connection and log it', async () => {
+        const { ctx, socket, logger } = createContext('AW');
+        const pipeline = new CommandPipeline(createCommand('AW', async () => { throw new BankError('LOW_FUNDS'); }))
+            .use(replyErrors(logger));
+
+        await pipeline.run(ctx);
+
+        expect(socket.write).toHaveBeenCalledWith('ER E202 Insufficient funds!\r\n');
+        expect(logger.error).toHaveBeenCalledWith('Chyba (10.0.0.5:40000): E202 Není dostatek finančních prostředků!');
+    });
+
+    it('should time out slow commands and drop their late writes', async () => {
+        const { ctx, socket, logger } = createContext('AB');
+        let finish: () => void;
+        const finished = new Promise<void>(resolve => { finish = resolve; });
+        const metrics = new Metrics(['AB']);
+        const pipeline = new CommandPipeline(createCommand('AB', async (command) => {
+            await new Promise(resolve => setTimeout(resolve, 100));
+            command.socket.write('AB 100\r\n');
+            finish();
+        }))
+            .use(replyErrors(logger))
+            .use(recordMetrics(metrics))
+            .use(responseTimeout());
+
+        await pipeline.run(ctx);
+        await finished;
+
+        expect(socket.write.mock.calls).toEqual([['ER E901 The operation took too long!\r\n']]);
+        expect(metrics.render()).toContain('bank_command_timeouts_total{command="AB"} 1');
+    });
+
+    it('should refuse new accounts over the per-address limit', async () => {
+        const store = new MemoryAccountStore([{ number: '10001', owner: '10.0.0.5', balance: 0n }]);
+        const execute = vi.fn(async () => {});
+        const pipeline = new CommandPipeline(createCommand('AC', execute)).use(accountLimit());
+
+        const { ctx } = createContext('AC', { store, accountLocks: new AccountLockManager() });
+        await expect(pipeline.run(ctx)).rejects.toThrow('ACCOUNT_LIMIT');
+
+        const other = createContext('AC', { store, accountLocks: new AccountLockManager(), clientIp: '10.0.0.6' });
+        await pipeline.run(other.ctx);
+        expect(execute).toHaveBeenCalledTimes(1);
+    });
+});
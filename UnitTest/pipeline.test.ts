@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CommandPipeline, Command, CommandContext, CommandTag } from '../src/commands/index.js';
+
+function createCommand(name: string, tags: CommandTag[] = []): Command {
+    return {
+        spec: { name, description: '', args: [], example: name, tags },
+        execute: vi.fn(async (ctx: CommandContext) => { ctx.socket.write(`${name}\r\n`); })
+    };
+}
+
+function createContext(command: string): CommandContext {
+    return { command, args: [], socket: { write: vi.fn() } } as any;
+}
+
+describe('CommandPipeline', () => {
+    const commands = new Map([createCommand('BC'), createCommand('AD', ['mutating'])].map(c => [c.spec.name, c]));
+
+    it('should run middlewares in registration order around the command', async () => {
+        const calls: string[] = [];
+        const pipeline = new CommandPipeline(commands)
+            .use(async (_ctx, next) => { calls.push('a:before'); await next(); calls.push('a:after'); })
+            .use(async (ctx, next) => { calls.push(`b:${ctx.command}`); await next(); });
+
+        await pipeline.run(createContext('BC'));
+
+        expect(calls).toEqual(['a:before', 'b:BC', 'a:after']);
+        expect(commands.get('BC')!.execute).toHaveBeenCalled();
+    });
+
+    it('should apply tagged middlewares only to commands with the tag', async () => {
+        const mutating = vi.fn(async (_ctx: CommandContext, next: () => Promise<void>) => next());
+        const pipeline = new CommandPipeline(commands).use(mutating, ['mutating']);
+
+        await pipeline.run(createContext('BC'));
+        expect(mutating).not.toHaveBeenCalled();
+
+        await pipeline.run(createContext('AD'));
+        expect(mutating).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let a middleware stop the command or pass a changed context on', async () => {
+        const socket = { write: vi.fn() } as any;
+        const pipeline = new CommandPipeline(commands)
+            .use(async (ctx, next) => next({ ...ctx, socket }))
+            .use(async (ctx, next) => { if (ctx.args[0] !== 'stop') await next(); });
+
+        await pipeline.run(createContext('AD'));
+        expect(socket.write).toHaveBeenCalledWith('AD\r\n');
+
+        socket.write.mockClear();
+        await pipeline.run({ ...createContext('AD'), args: ['stop'] });
+        expect(socket.write).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown commands after the untagged middlewares', async () => {
+        const untagged = vi.fn(async (_ctx: CommandContext, next: () => Promise<void>) => next());
+        const tagged = vi.fn(async (_ctx: CommandContext, next: () => Promise<void>) => next());
+        const pipeline = new CommandPipeline(commands).use(untagged).use(tagged, ['mutating']);
+
+        await expect(pipeline.run(createContext('XYZ'))).rejects.toThrow('UNKNOWN_COMMAND');
+        expect(untagged).toHaveBeenCalled();
+        expect(tagged).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { startTestBank, connect, TestBank } from './bankHarness.js';
+
+describe('startServer', () => {
+    let server: TestBank | null = null;
+
+    const start = async (overrides: object = {}) => {
+        server = await startTestBank({ STORAGE_TYPE: 'memory', ...overrides });
+        return server;
+    };
+
+    afterEach(async () => {
+        await server?.destroy();
+        server = null;
+    });
+
+    it('should let an in-flight command finish and then notify the client', async () => {
+        const bank = await start();
+        const account = await bank.store.create('127.0.0.1');
+        const setBalance = bank.store.setBalance.bind(bank.store);
+        bank.store.setBalance = async (...args) => {
+            await new Promise(resolve => setTimeout(resolve, 200));
+            return setBalance(...args);
+        };
+
+        const client = connect(bank.port);
+        await client.ready;
+        client.send(`AD ${account.number}/127.0.0.1 100`, 'BC');
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(await bank.stop()).toBe(true);
+        await client.closed;
+
+        expect(client.received).toEqual([
+            'AD',
+            'ER E903 Server se vypíná, příkaz nebyl proveden',
+            'ER E904 Server se vypíná'
+        ]);
+        expect((await bank.store.find(account.number))!.balance).toBe(100n);
+    });
+
+    it('should stop accepting new connections', async () => {
+        const bank = await start();
+        const port = bank.port;
+
+        await bank.stop();
+
+        const socket = net.createConnection({ host: '127.0.0.1', port });
+        await expect(new Promise((resolve, reject) => {
+            socket.once('connect', resolve);
+            socket.once('error', reject);
+        })).rejects.toThrow(/ECONNREFUSED/);
+    });
+
+    it('should give up waiting after SHUTDOWN_TIMEOUT', async () => {
+        const bank = await start({ SHUTDOWN_TIMEOUT: 50, RESPONSE_TIMEOUT: 5000 });
+        bank.store.summary = () => new Promise(() => {}); // BA se nikdy nedokončí
+
+        const client = connect(bank.port);
+        await client.ready;
+        client.send('BA');
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        expect(await bank.stop()).toBe(false);
+        await client.closed;
+        expect(client.received).toEqual([]);
+    });
+
+    it('should quarantine corrupt account files before listening', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-check-'));
+        try {
+            await fs.mkdir(path.join(dir, 'accounts'));
+            await fs.writeFile(path.join(dir, 'accounts', '11111_127.0.0.1.txt'), 'abc');
+            await fs.writeFile(path.join(dir, 'accounts', '22222_127.0.0.1.txt'), '40');
+            const bank = await start({ STORAGE_TYPE: 'file', ACCOUNTS_DIR: path.join(dir, 'accounts'), QUARANTINE_DIR: path.join(dir, 'quarantine') });
+
+            expect(await bank.store.summary()).toEqual({ total: 40n, clients: 1 });
+            expect(await fs.readdir(path.join(dir, 'quarantine'))).toContain('11111_127.0.0.1.txt');
+            expect(bank.logger.warn).toHaveBeenCalledWith('Kontrola účtů: 11111_127.0.0.1.txt: neplatný zůstatek "abc"');
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should finish the journal before checking account files', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-check-'));
+        try {
+            // Pád uprostřed zápisu: soubor účtu je rozepsaný, žurnál má původní obsah
+            const file = path.join(dir, 'accounts', '11111_127.0.0.1.txt');
+            await fs.mkdir(path.join(dir, 'accounts'));
+            await fs.writeFile(file, '');
+            await fs.writeFile(path.join(dir, 'journal.log'), JSON.stringify({ id: 1, state: 'BEGIN', op: 'AD', file, before: '40', after: '70' }) + '\n');
+            const bank = await start({
+                STORAGE_TYPE: 'file',
+                ACCOUNTS_DIR: path.join(dir, 'accounts'),
+                JOURNAL_FILE: path.join(dir, 'journal.log'),
+                QUARANTINE_DIR: path.join(dir, 'quarantine'),
+                INTEGRITY_STRICT: true
+            });
+
+            expect(await bank.store.summary()).toEqual({ total: 40n, clients: 1 });
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should refuse to start with corrupt account files in strict mode', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-check-'));
+        try {
+            await fs.mkdir(path.join(dir, 'accounts'));
+            await fs.writeFile(path.join(dir, 'accounts', 'notes.txt'), 'x');
+
+            await expect(start({ STORAGE_TYPE: 'file', ACCOUNTS_DIR: path.join(dir, 'accounts'), QUARANTINE_DIR: path.join(dir, 'quarantine'), INTEGRITY_STRICT: true }))
+                .rejects.toThrow(/INTEGRITY_STRICT/);
+            expect(await fs.readdir(path.join(dir, 'accounts'))).toEqual(['notes.txt']);
+            expect((await fs.readdir(path.join(dir, 'quarantine')))[0]).toMatch(/^report-/);
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should refuse connections over MAX_CONNECTIONS_PER_IP', async () => {
+        const bank = await start({ MAX_CONNECTIONS_PER_IP: 1 });
+
+        const first = connect(bank.port);
+        await first.ready;
+        const second = connect(bank.port);
+        await second.closed;
+        expect(second.received).toEqual(['ER E501 Příliš mnoho spojení z vaší adresy.']);
+
+        first.send('BC');
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(first.received).toEqual(['BC 127.0.0.1']);
+    });
+
+    it('should enforce command rate limits and the account cap per IP', async () => {
+        const bank = await start({ RATE_LIMIT_CONNECTION: 3, RATE_LIMIT_AC: 2, MAX_ACCOUNTS_PER_IP: 1 });
+
+        const client = connect(bank.port);
+        await client.ready;
+        client.send('AC 1234', 'AC 1234', 'AC 1234', 'BC');
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(client.received).toHaveLength(4);
+        expect(client.received[0]).toMatch(/^AC \d{5}\/127\.0\.0\.1$/);
+        expect(client.received.slice(1)).toEqual([
+            'ER E504 Z vaší adresy je založeno příliš mnoho účtů (limit 1).',
+            'ER E503 Příliš mnoho nových účtů za krátkou dobu, zkuste to později.',
+            'ER E502 Příliš mnoho příkazů, zpomalte.'
+        ]);
+        expect(await bank.store.list()).toHaveLength(1);
+    });
+
+    it('should return the same result when stopped twice', async () => {
+        const bank = await start();
+
+        const first = bank.stop();
+        expect(bank.stop()).toBe(first);
+        expect(await first).toBe(true);
+    });
+});
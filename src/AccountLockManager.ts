@@ -0,0 +1,69 @@
+import { BankError } from './errors.js';
+
+/**
+ * Serializuje operace nad jednotlivými účty.
+ * Každý účet má vlastní frontu čekajících operací, takže souběžné AD/AW/AR
+ * nad stejným účtem se provedou postupně a nepřepíšou si navzájem zůstatek.
+ * Pokud je účet obsazený déle než povolená doba čekání, operace skončí chybou ACCOUNT_BUSY.
+ */
+export class AccountLockManager {
+    private locks = new Map<string, Array<() => void>>();
+    private waitTimeout: number;
+
+    constructor(waitTimeoutMs: number = 2000) {
+        this.waitTimeout = waitTimeoutMs;
+    }
+
+    /**
+     * Provede funkci s výhradním přístupem k danému účtu.
+     */
+    public async runExclusive<T>(key: string, fn: () => Promise<T>, waitTimeoutMs: number = this.waitTimeout): Promise<T> {
+        await this.acquire(key, waitTimeoutMs);
+        try {
+            return await fn();
+        } finally {
+            this.release(key);
+        }
+    }
+
+    /**
+     * Vrací true, pokud nad účtem právě probíhá nějaká operace.
+     */
+    public isLocked(key: string): boolean {
+        return this.locks.has(key);
+    }
+
+    private acquire(key: string, waitTimeoutMs: number): Promise<void> {
+        const queue = this.locks.get(key);
+        if (!queue) {
+            // Účet je volný - frontu založíme a zámek rovnou držíme
+            this.locks.set(key, []);
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const grant = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+            const timer = setTimeout(() => {
+                const index = queue.indexOf(grant);
+                if (index !== -1) queue.splice(index, 1);
+                reject(new BankError('ACCOUNT_BUSY'));
+            }, waitTimeoutMs);
+            queue.push(grant);
+        });
+    }
+
+    private release(key: string) {
+        const queue = this.locks.get(key);
+        if (!queue) return;
+
+        const next = queue.shift();
+        if (next) {
+            next();
+        } else {
+            this.locks.delete(key);
+        }
+    }
+}
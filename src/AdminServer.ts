@@ -0,0 +1,197 @@
+import http from 'node:http';
+import { Logger } from 'winston';
+import { Metrics } from './Metrics.js';
+import { NetworkMonitor } from './NetworkMonitor.js';
+import { Account, AccountStore } from './storage/index.js';
+import { BackupMetadata, exportAccounts } from './Backup.js';
+
+/**
+ * Připojený klient TCP serveru, jak ho vidí /clients.
+ */
+export interface ClientInfo {
+    remote: string;
+    connectedAt: string;
+    lastActivityAt: string;
+    lastCommand: string | null;
+    commands: number;
+}
+
+export interface AdminServerDeps {
+    logger: Logger;
+    metrics: Metrics;
+    networkMonitor: NetworkMonitor;
+    store: AccountStore;
+    /** Aktuální seznam připojených klientů. */
+    clients: () => ClientInfo[];
+    /** Časový limit kontroly dostupnosti úložiště v /health. */
+    healthTimeoutMs?: number;
+    /** Účty k jednomu okamžiku (pod zámkem zálohy) pro /export; bez něj /export není. */
+    snapshot?: () => Promise<Account[]>;
+    /** Vytvoří zálohu a vrátí cestu k ní; bez něj /backup není. */
+    backup?: () => Promise<BackupMetadata & { file: string }>;
+    /** Nastaví úvěrový limit účtu (undefined = výchozí CREDIT_LIMIT); bez něj /credit-limit není. */
+    setCreditLimit?: (account: string, creditLimit: bigint | undefined) => Promise<CreditLimitResult>;
+}
+
+/** Odpověď /credit-limit: účet po změně, částky jako řetězce kvůli bigint. */
+export interface CreditLimitResult {
+    account: string;
+    balance: string;
+    /** Platný limit účtu (vlastní, nebo výchozí). */
+    creditLimit: string;
+    available: string;
+}
+
+/**
+ * Volitelný HTTP server pro správu a monitoring, běží vedle TCP serveru (ADMIN_PORT v konfiguraci):
+ * - GET /health - stav sítě a dostupnost úložiště účtů (200 nebo 503),
+ * - GET /metrics - metriky ve formátu Prometheus,
+ * - GET /clients - připojení klienti jako JSON,
+ * - GET /export?format=csv|json - účty pro tabulkový procesor,
+ * - POST /backup - záloha celé banky do BACKUP_DIR,
+ * - POST /credit-limit?account=<číslo>&limit=<částka>|default - úvěrový limit účtu.
+ * Adresy, které něco mění, přijímají jen POST.
+ */
+export class AdminServer {
+    private server: http.Server;
+
+    constructor(private deps: AdminServerDeps) {
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch(err => {
+                this.deps.logger.error(`Admin HTTP chyba: ${err.message}`);
+                if (!res.headersSent) res.writeHead(500);
+                res.end();
+            });
+        });
+    }
+
+    public start(port: number, host: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, host, () => {
+                this.server.off('error', reject);
+                this.deps.logger.info(`Admin HTTP server spuštěn na ${host}:${this.port()}`);
+                resolve();
+            });
+        });
+    }
+
+    /** Skutečný port (při ADMIN_PORT 0 ho přidělí systém). */
+    public port(): number {
+        const address = this.server.address();
+        return typeof address === 'object' && address ? address.port : 0;
+    }
+
+    public stop(): Promise<void> {
+        return new Promise(resolve => {
+            this.server.close(() => resolve());
+            this.server.closeAllConnections();
+        });
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+        const mutating = (pathname === '/backup' && this.deps.backup) || (pathname === '/credit-limit' && this.deps.setCreditLimit);
+        const allowed = mutating ? 'POST' : 'GET';
+        if (req.method !== allowed) {
+            res.writeHead(405, { Allow: allowed });
+            res.end();
+            return;
+        }
+
+        switch (pathname) {
+            case '/health': {
+                const network = this.deps.networkMonitor.isOnline();
+                const storage = await this.checkStorage();
+                const ok = network && storage;
+                this.sendJson(res, ok ? 200 : 503, { status: ok ? 'ok' : 'degraded', network, storage });
+                return;
+            }
+            case '/metrics': {
+                this.deps.metrics.setGauge('bank_network_online', 'Stav sítě podle NetworkMonitor (1 = připojeno).',
+                    this.deps.networkMonitor.isOnline() ? 1 : 0);
+                res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+                res.end(this.deps.metrics.render());
+                return;
+            }
+            case '/clients':
+                this.sendJson(res, 200, this.deps.clients());
+                return;
+            case '/export': {
+                if (!this.deps.snapshot) break;
+                const format = searchParams.get('format') ?? 'csv';
+                if (format !== 'csv' && format !== 'json') {
+                    this.sendJson(res, 400, { error: 'format musí být csv nebo json' });
+                    return;
+                }
+                const body = await this.whenAvailable(res, async () => exportAccounts(await this.deps.snapshot!(), format));
+                if (body === undefined) return;
+                res.writeHead(200, { 'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8' });
+                res.end(body);
+                return;
+            }
+            case '/backup': {
+                if (!this.deps.backup) break;
+                const result = await this.whenAvailable(res, this.deps.backup);
+                if (result !== undefined) this.sendJson(res, 200, result);
+                return;
+            }
+            case '/credit-limit': {
+                if (!this.deps.setCreditLimit) break;
+                const account = searchParams.get('account') ?? '';
+                const limit = searchParams.get('limit') ?? '';
+                if (!/^\d{5}$/.test(account) || !/^(\d{1,18}|default)$/.test(limit)) {
+                    this.sendJson(res, 400, { error: 'account musí být číslo účtu a limit nezáporné celé číslo nebo default' });
+                    return;
+                }
+                try {
+                    this.sendJson(res, 200, await this.deps.setCreditLimit(account, limit === 'default' ? undefined : BigInt(limit)));
+                } catch (err: any) {
+                    const missing = err.message === 'ACCOUNT_NOT_FOUND';
+                    this.sendJson(res, missing ? 404 : 503, { error: missing ? 'účet neexistuje' : err.message });
+                }
+                return;
+            }
+        }
+        this.sendJson(res, 404, { error: 'Nenalezeno' });
+    }
+
+    /**
+     * Snímek účtů se nemusí povést (rozpracované příkazy nedoběhly včas) - pak odpoví 503 a vrátí undefined.
+     */
+    private async whenAvailable<T>(res: http.ServerResponse, fn: () => Promise<T>): Promise<T | undefined> {
+        try {
+            return await fn();
+        } catch (err: any) {
+            this.deps.logger.warn(`Snímek účtů selhal: ${err.message}`);
+            this.sendJson(res, 503, { error: err.message });
+            return undefined;
+        }
+    }
+
+    /**
+     * Úložiště je dostupné, pokud se včas podaří vypsat účty.
+     */
+    private async checkStorage(): Promise<boolean> {
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            await Promise.race([
+                this.deps.store.list(),
+                new Promise((_, reject) => {
+                    timer = setTimeout(() => reject(new Error('TIMEOUT')), this.deps.healthTimeoutMs ?? 2000);
+                })
+            ]);
+            return true;
+        } catch (err: any) {
+            this.deps.logger.warn(`Kontrola úložiště selhala: ${err.message}`);
+            return false;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private sendJson(res: http.ServerResponse, status: number, body: unknown) {
+        res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+        res.end(JSON.stringify(body));
+    }
+}
@@ -0,0 +1,199 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { Logger } from 'winston';
+
+/**
+ * Jeden záznam auditního logu (jeden řádek JSON). Částky a zůstatky jsou řetězce, aby se vešly celé (bigint).
+ */
+export interface AuditEntry {
+    seq: number;
+    time: string;
+    /** Adresa klienta (ip:port). */
+    remote: string;
+    command: string;
+    account?: string;
+    /** Kód banky, které byl příkaz přeposlán; u místních účtů chybí. */
+    proxiedTo?: string;
+    amount?: string;
+    before?: string;
+    after?: string;
+    /** OK, nebo kód chyby (E202...). */
+    outcome: string;
+    /** Hash předchozího záznamu (u úplně prvního záznamu GENESIS). */
+    prev: string;
+    hash: string;
+}
+
+/** Údaje, které o sobě zapisuje příkaz; zbytek záznamu doplní AuditLog. */
+export type AuditFields = Omit<AuditEntry, 'seq' | 'time' | 'prev' | 'hash'>;
+
+export interface AuditVerification {
+    files: number;
+    entries: number;
+    /** Pořadové číslo prvního dochovaného záznamu - starší záznamy smazala retence. */
+    firstSeq: number | null;
+    lastHash: string | null;
+    /** Popis každé nalezené nesrovnalosti; prázdné pole = log je neporušený. */
+    problems: string[];
+}
+
+const GENESIS = '0'.repeat(64);
+const FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})\.log$/;
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+    return crypto.createHash('sha256').update(JSON.stringify(entry)).digest('hex');
+}
+
+async function listAuditFiles(dir: string): Promise<string[]> {
+    try {
+        return (await fs.readdir(dir)).filter(file => FILE_PATTERN.test(file)).sort();
+    } catch (err: any) {
+        if (err.code === 'ENOENT') return [];
+        throw err;
+    }
+}
+
+/**
+ * Auditní log pohybů peněz oddělený od aplikačního logu: denní soubory `audit-YYYY-MM-DD.log` v adresáři dir,
+ * do kterých se jen připisuje. Každý záznam nese hash předchozího, takže úprava nebo smazání záznamu
+ * přeruší řetězec a odhalí ho verifyAuditLog. Soubory starší než retentionDays dní se mažou (0 = nikdy).
+ */
+export class AuditLog {
+    private seq = 0;
+    private lastHash = GENESIS;
+    private currentDay: string | null = null;
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(private dir: string, private retentionDays: number, private logger?: Logger, private now: () => Date = () => new Date()) {}
+
+    /**
+     * Najde poslední záznam, na který se bude navazovat, a smaže soubory po retenci.
+     */
+    public async init(): Promise<void> {
+        await fs.mkdir(this.dir, { recursive: true });
+        const files = await listAuditFiles(this.dir);
+        for (const file of files.reverse()) {
+            if (await this.resume(file)) break;
+        }
+        await this.prune();
+    }
+
+    /**
+     * Naváže na poslední čitelný záznam v souboru. Useknutý konec po pádu uprostřed zápisu odřízne,
+     * aby se další záznam nepřilepil za poškozené bajty. Vrací false, když v souboru žádný záznam není.
+     */
+    private async resume(file: string): Promise<boolean> {
+        const filePath = path.join(this.dir, file);
+        const content = await fs.readFile(filePath, 'utf8');
+        const lines = content.split('\n');
+        let kept = 0;
+        for (let i = lines.length - 1; i >= 0 && kept === 0; i--) {
+            if (!lines[i]) continue;
+            try {
+                const last: AuditEntry = JSON.parse(lines[i]);
+                this.seq = last.seq;
+                this.lastHash = last.hash;
+                kept = i + 1;
+            } catch {
+                // Poškozený konec souboru, hledá se dál směrem k začátku
+            }
+        }
+
+        const valid = kept > 0 ? lines.slice(0, kept).join('\n') + '\n' : '';
+        if (valid !== content) {
+            this.logger?.warn(`Audit: poškozený konec souboru ${file} po pádu byl odříznut.`);
+            if (content.startsWith(valid)) await fs.truncate(filePath, Buffer.byteLength(valid));
+            else await fs.appendFile(filePath, '\n'); // poslední záznam je celý, chybí mu jen konec řádku
+        }
+        return kept > 0;
+    }
+
+    /**
+     * Připíše záznam. Zápisy jdou přísně za sebou, aby řetězec hashů odpovídal pořadí v souboru.
+     */
+    public append(fields: AuditFields): Promise<AuditEntry> {
+        const result = this.queue.then(async () => {
+            const time = this.now();
+            const day = time.toISOString().slice(0, 10);
+            if (day !== this.currentDay) {
+                this.currentDay = day;
+                await this.prune();
+            }
+
+            const unsigned = { seq: this.seq + 1, time: time.toISOString(), ...fields, prev: this.lastHash };
+            const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+
+            const handle = await fs.open(path.join(this.dir, `audit-${day}.log`), 'a');
+            try {
+                await handle.write(JSON.stringify(entry) + '\n');
+                await handle.sync();
+            } finally {
+                await handle.close();
+            }
+            this.seq = entry.seq;
+            this.lastHash = entry.hash;
+            return entry;
+        });
+        this.queue = result.then(() => {}, () => {});
+        return result;
+    }
+
+    /** Poslední zapsaný záznam, pro porovnání s kopií mimo server (zkrácení logu řetězec sám neodhalí). */
+    public head(): { seq: number; hash: string } {
+        return { seq: this.seq, hash: this.lastHash };
+    }
+
+    private async prune(): Promise<void> {
+        if (this.retentionDays <= 0) return;
+        const cutoff = new Date(this.now().getTime() - this.retentionDays * 86400000).toISOString().slice(0, 10);
+        for (const file of await listAuditFiles(this.dir)) {
+            if (file.match(FILE_PATTERN)![1] >= cutoff) break;
+            await fs.rm(path.join(this.dir, file), { force: true });
+            this.logger?.info(`Audit: smazán soubor ${file} (starší než ${this.retentionDays} dní).`);
+        }
+    }
+}
+
+/**
+ * Zkontroluje celý auditní log: neporušené záznamy, souvislou řadu seq a navazující hashe i přes hranice souborů.
+ * Nejstarší dochovaný záznam se bere jako začátek řetězce (dřívější mohla smazat retence).
+ */
+export async function verifyAuditLog(dir: string): Promise<AuditVerification> {
+    const files = await listAuditFiles(dir);
+    const result: AuditVerification = { files: files.length, entries: 0, firstSeq: null, lastHash: null, problems: [] };
+    let previous: AuditEntry | null = null;
+
+    for (const file of files) {
+        const lines = (await fs.readFile(path.join(dir, file), 'utf8')).split('\n');
+        for (let i = 0; i < lines.length; i++) {
+            if (!lines[i]) continue;
+            const where = `${file}:${i + 1}`;
+            let entry: AuditEntry;
+            try {
+                entry = JSON.parse(lines[i]);
+            } catch {
+                result.problems.push(`${where}: neplatný záznam`);
+                continue;
+            }
+            result.entries++;
+
+            const { hash, ...unsigned } = entry;
+            if (hashEntry(unsigned) !== hash) result.problems.push(`${where}: záznam ${entry.seq} byl změněn (nesedí hash)`);
+            if (previous) {
+                if (entry.seq !== previous.seq + 1) {
+                    result.problems.push(`${where}: chybí záznamy ${previous.seq + 1} až ${entry.seq - 1}`);
+                } else if (entry.prev !== previous.hash) {
+                    result.problems.push(`${where}: záznam ${entry.seq} nenavazuje na předchozí`);
+                }
+            } else {
+                result.firstSeq = entry.seq;
+                if (entry.seq === 1 && entry.prev !== GENESIS) result.problems.push(`${where}: první záznam nenavazuje na začátek logu`);
+            }
+            previous = entry;
+        }
+    }
+
+    result.lastHash = previous?.hash ?? null;
+    return result;
+}
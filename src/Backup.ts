@@ -0,0 +1,275 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import zlib from 'node:zlib';
+import { promisify } from 'node:util';
+import { writeFileAtomic } from './TransactionJournal.js';
+import { Account, AccountStore, HistoryEntry, JsonAccountStore, createAccountStore } from './storage/index.js';
+import { SnapshotLock } from './SnapshotLock.js';
+import { AppConfig } from './config.js';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const FORMAT = 'tcp-bank-backup';
+const FORMAT_VERSION = 1;
+
+export interface BackupMetadata {
+    createdAt: string;
+    storageType: string;
+    accounts: number;
+    /** Součet zůstatků (řetězec kvůli bigint). */
+    total: string;
+    /** Poslední záznam auditního logu v okamžiku zálohy - záloha tak navazuje na audit. */
+    audit?: { seq: number; hash: string };
+}
+
+/** Účet v záloze; zůstatek a úvěrový limit jako řetězce kvůli bigint. */
+export interface BackupAccount {
+    number: string;
+    owner: string;
+    balance: string;
+    pinHash?: string;
+    creditLimit?: string;
+    /** Historie účtu od nejstarší operace; u záloh bez historie chybí. */
+    history?: BackupHistoryEntry[];
+}
+
+/** Operace z historie účtu v záloze; částka a zůstatek jako řetězce kvůli bigint. */
+export interface BackupHistoryEntry {
+    time: string;
+    operation: string;
+    amount: string;
+    balance: string;
+}
+
+/** Účet i s historií (od nejstarší operace), jak ho zálohuje createBackupArchive. */
+export type AccountWithHistory = Account & { history?: HistoryEntry[] };
+
+/**
+ * Záloha banky v jednom souboru (JSON komprimovaný gzipem): verze formátu, metadata, účty
+ * a manifest se SHA-256 metadat a účtů, podle kterého obnova pozná poškozený nebo upravený soubor.
+ */
+export interface BackupArchive {
+    format: typeof FORMAT;
+    version: number;
+    metadata: BackupMetadata;
+    accounts: BackupAccount[];
+    manifest: { metadata: string; accounts: string };
+}
+
+function checksum(value: unknown): string {
+    return crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
+
+/**
+ * Načte všechny účty i s celou historií pro zálohu zastaveného serveru (za běhu viz captureAccounts).
+ */
+export async function readAccountsWithHistory(store: AccountStore): Promise<AccountWithHistory[]> {
+    return addHistory(store, await store.list());
+}
+
+/**
+ * Snímek účtů běžícího serveru: pod výhradním zámkem zálohy se zkopíruje jen stav účtů a to, co vrátí extra (např.
+ * hlava auditu), historie se dočtou až po uvolnění zámku. Operace provedené mezitím se z historie vynechají podle
+ * času - zámek se uvolní až v další milisekundě po snímku, takže nové operace mají čas vždy pozdější.
+ */
+export async function captureAccounts<T>(
+    store: AccountStore,
+    lock: SnapshotLock,
+    waitTimeoutMs: number,
+    extra: () => T
+): Promise<{ accounts: AccountWithHistory[]; extra: T }> {
+    const snapshot = await lock.runExclusive(async () => {
+        const state = { accounts: await store.list(), extra: extra(), capturedAt: Date.now() };
+        while (Date.now() <= state.capturedAt) await new Promise(resolve => setTimeout(resolve, 1));
+        return state;
+    }, waitTimeoutMs);
+    return { accounts: await addHistory(store, snapshot.accounts, new Date(snapshot.capturedAt).toISOString()), extra: snapshot.extra };
+}
+
+/** Doplní účtům historii od nejstarší operace; s until jen operace provedené nejpozději v tomto čase (ISO). */
+async function addHistory(store: AccountStore, accounts: AccountWithHistory[], until?: string): Promise<AccountWithHistory[]> {
+    for (const account of accounts) {
+        const history = (await store.history(account.number, 0, Number.MAX_SAFE_INTEGER)).reverse();
+        account.history = until === undefined ? history : history.filter(entry => entry.time <= until);
+    }
+    return accounts;
+}
+
+/**
+ * Sestaví zálohu ze snímku účtů (ten musí být pořízený najednou, viz SnapshotLock).
+ */
+export function createBackupArchive(
+    accounts: AccountWithHistory[],
+    info: { storageType: string; audit?: { seq: number; hash: string } },
+    now: Date = new Date()
+): BackupArchive {
+    const stored: BackupAccount[] = [...accounts]
+        .sort((a, b) => a.number.localeCompare(b.number))
+        .map(({ number, owner, balance, pinHash, creditLimit, history }) => ({
+            number,
+            owner,
+            balance: balance.toString(),
+            ...(pinHash ? { pinHash } : {}),
+            ...(creditLimit !== undefined ? { creditLimit: creditLimit.toString() } : {}),
+            ...(history ? { history: history.map(e => ({ ...e, amount: e.amount.toString(), balance: e.balance.toString() })) } : {})
+        }));
+    const metadata: BackupMetadata = {
+        createdAt: now.toISOString(),
+        storageType: info.storageType,
+        accounts: stored.length,
+        total: accounts.reduce((sum, account) => sum + account.balance, 0n).toString(),
+        ...(info.audit ? { audit: info.audit } : {})
+    };
+    return { format: FORMAT, version: FORMAT_VERSION, metadata, accounts: stored, manifest: { metadata: checksum(metadata), accounts: checksum(stored) } };
+}
+
+/**
+ * Zapíše zálohu do dir jako `backup-<čas>.json.gz` (atomicky, rozepsaná záloha nikdy nevypadá jako hotová).
+ */
+export async function writeBackup(dir: string, archive: BackupArchive): Promise<string> {
+    await fs.mkdir(dir, { recursive: true });
+    const file = path.join(dir, `backup-${archive.metadata.createdAt.replace(/[:.]/g, '-')}.json.gz`);
+    await writeFileAtomic(file, await gzip(JSON.stringify(archive)));
+    return file;
+}
+
+/** Načte zálohu ze souboru; obsah nekontroluje (verifyBackup). */
+export async function readBackup(file: string): Promise<BackupArchive> {
+    return JSON.parse((await gunzip(await fs.readFile(file))).toString('utf8'));
+}
+
+/**
+ * Zkontroluje zálohu: formát a verzi, kontrolní součty, počet účtů a součet zůstatků, čísla, zůstatky a historie účtů.
+ * Prázdné pole = záloha je v pořádku.
+ */
+export function verifyBackup(archive: BackupArchive): string[] {
+    if (archive?.format !== FORMAT) return ['soubor není záloha banky'];
+    if (archive.version !== FORMAT_VERSION) return [`nepodporovaná verze zálohy ${archive.version}`];
+
+    const problems: string[] = [];
+    const { metadata, accounts, manifest } = archive;
+    if (checksum(metadata) !== manifest?.metadata) problems.push('metadata neodpovídají kontrolnímu součtu');
+    if (checksum(accounts) !== manifest?.accounts) problems.push('účty neodpovídají kontrolnímu součtu');
+    if (!Array.isArray(accounts)) return [...problems, 'chybí seznam účtů'];
+
+    const numbers = new Set<string>();
+    let total = 0n;
+    for (const account of accounts) {
+        const creditLimit = account.creditLimit === undefined || /^\d+$/.test(account.creditLimit);
+        const history = account.history === undefined || (Array.isArray(account.history) && account.history.every(validHistoryEntry));
+        if (!/^\d{5}$/.test(account.number) || !account.owner || !/^-?\d+$/.test(account.balance) || !creditLimit || !history) {
+            problems.push(`neplatný účet ${JSON.stringify(account)}`);
+            continue;
+        }
+        if (numbers.has(account.number)) problems.push(`účet ${account.number} je v záloze dvakrát`);
+        numbers.add(account.number);
+        total += BigInt(account.balance);
+    }
+    if (metadata.accounts !== accounts.length) problems.push(`metadata uvádí ${metadata.accounts} účtů, záloha jich má ${accounts.length}`);
+    if (metadata.total !== total.toString()) problems.push(`součet zůstatků ${total} nesouhlasí s metadaty (${metadata.total})`);
+    return problems;
+}
+
+function validHistoryEntry(entry: BackupHistoryEntry): boolean {
+    return typeof entry?.time === 'string' && typeof entry.operation === 'string'
+        && /^-?\d+$/.test(entry.amount) && /^-?\d+$/.test(entry.balance);
+}
+
+/**
+ * Obnoví účty ze zálohy do úložiště i s jejich historií. Záloha se nejdřív ověří; do úložiště, které už účty má,
+ * se obnoví jen s force (stávající účty se pak smažou). Vrací počet obnovených účtů.
+ */
+export async function restoreBackup(store: AccountStore, archive: BackupArchive, force: boolean = false): Promise<number> {
+    const problems = verifyBackup(archive);
+    if (problems.length > 0) throw new Error(`Záloha je poškozená: ${problems.join('; ')}`);
+
+    const existing = await store.list();
+    if (existing.length > 0 && !force) {
+        throw new Error(`Banka už má ${existing.length} účtů; obnova by je přepsala (použijte --force).`);
+    }
+    for (const { number } of existing) await store.remove(number);
+    for (const { number, owner, balance, pinHash, creditLimit, history } of archive.accounts) {
+        await store.put(
+            { number, owner, balance: BigInt(balance), pinHash, creditLimit: creditLimit !== undefined ? BigInt(creditLimit) : undefined },
+            history?.map(e => ({ ...e, amount: BigInt(e.amount), balance: BigInt(e.balance) }))
+        );
+    }
+    return archive.accounts.length;
+}
+
+/**
+ * Obnova zálohy do úložiště podle konfigurace (jen při zastaveném serveru). Účty se nejdřív zapíšou vedle
+ * (`<ACCOUNTS_DIR>.restore`, u json `<STORAGE_FILE>.restore`) a teprve hotové se přesunou na místo původních, takže
+ * přerušená obnova nenechá banku napůl obnovenou. Adresář se vymění dvěma přejmenováními: původní účty jsou do konce
+ * výměny v `<ACCOUNTS_DIR>.old`. U json se vymění jen soubor účtů - nový deník historie už leží vedle pod vlastním
+ * názvem a starý se smaže až po výměně. Vrací počet obnovených účtů.
+ */
+export async function restoreBackupFiles(CONFIG: AppConfig, archive: BackupArchive, force: boolean = false): Promise<number> {
+    if (CONFIG.STORAGE_TYPE === 'memory') throw new Error('Úložiště memory nic neukládá, není kam obnovit.');
+    const problems = verifyBackup(archive);
+    if (problems.length > 0) throw new Error(`Záloha je poškozená: ${problems.join('; ')}`);
+
+    // Otevřením se zároveň dokončí žurnál, takže původní účty zůstanou v pořádku, i kdyby se obnova nepovedla
+    const current = createAccountStore(CONFIG);
+    await current.init();
+    const existing = (await current.list()).length;
+    await current.close();
+    if (existing > 0 && !force) {
+        throw new Error(`Banka už má ${existing} účtů; obnova by je přepsala (použijte --force).`);
+    }
+
+    const json = CONFIG.STORAGE_TYPE === 'json';
+    const target = json ? CONFIG.STORAGE_FILE : CONFIG.ACCOUNTS_DIR;
+    const staging = `${target}.restore`;
+    const journal = `${staging}.journal`;
+    await fs.rm(staging, { recursive: true, force: true });
+    // Deníky historie původních účtů (a nedokončených obnov), smažou se po výměně
+    const oldHistory = json ? await historyFilesOf(target) : [];
+    const store = json
+        ? new JsonAccountStore(staging, path.basename(target))
+        : createAccountStore({ ...CONFIG, ACCOUNTS_DIR: staging, JOURNAL_FILE: journal });
+    await store.init();
+    try {
+        await restoreBackup(store, archive);
+    } finally {
+        await store.close();
+        await fs.rm(journal, { force: true });
+    }
+
+    if (json) {
+        await fs.rename(staging, target);
+        for (const file of oldHistory) await fs.rm(file, { force: true });
+    } else {
+        const old = `${target}.old`;
+        await fs.rm(old, { recursive: true, force: true });
+        await fs.rename(target, old).catch(err => {
+            if (err.code !== 'ENOENT') throw err;
+        });
+        await fs.rename(staging, target);
+        await fs.rm(old, { recursive: true, force: true });
+    }
+    return archive.accounts.length;
+}
+
+/** Deníky historie úložiště json se souborem file (`<file>.<id>.history`). */
+async function historyFilesOf(file: string): Promise<string[]> {
+    const dir = path.dirname(file);
+    const prefix = `${path.basename(file)}.`;
+    const names = await fs.readdir(dir).catch(() => [] as string[]);
+    return names.filter(name => name.startsWith(prefix) && /^[0-9a-f]+\.history$/.test(name.slice(prefix.length))).map(name => path.join(dir, name));
+}
+
+export type ExportFormat = 'csv' | 'json';
+
+/**
+ * Export účtů pro tabulkový procesor: číslo, vlastník a zůstatek (bez hashe PINu).
+ */
+export function exportAccounts(accounts: Account[], format: ExportFormat): string {
+    const rows = [...accounts].sort((a, b) => a.number.localeCompare(b.number));
+    if (format === 'json') {
+        return JSON.stringify(rows.map(({ number, owner, balance }) => ({ number, owner, balance: balance.toString() })), null, 2) + '\n';
+    }
+    return ['number,owner,balance', ...rows.map(({ number, owner, balance }) => `${number},${owner},${balance}`)].join('\r\n') + '\r\n';
+}
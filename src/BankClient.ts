@@ -0,0 +1,120 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import { EventEmitter } from 'node:events';
+import { LineReader } from './LineReader.js';
+
+export interface BankClientOptions {
+    /** Připojit se přes TLS (na TLS_PORT banky). */
+    tls?: boolean;
+    /** CA pro ověření certifikátu banky; bez ní se certifikát neověřuje. */
+    ca?: Buffer;
+    /** Jak dlouho čekat na odpověď na jeden příkaz (ms). */
+    timeoutMs?: number;
+}
+
+interface Pending {
+    resolve: (line: string) => void;
+    reject: (err: Error) => void;
+}
+
+/**
+ * Klient pro jednu banku, který drží spojení otevřené mezi příkazy.
+ * Odpovědi se párují s příkazy v pořadí, v jakém byly odeslány (server na každý příkaz odpoví jedním řádkem).
+ * Řádky, na které žádný příkaz nečeká (např. odpojení pro neaktivitu), se vydají jako událost 'notice'.
+ * Když server spojení zavře ('close'), další příkaz se připojí znovu.
+ */
+export class BankClient extends EventEmitter {
+    private socket: net.Socket | null = null;
+    private connecting: Promise<net.Socket> | null = null;
+    private pending: Pending[] = [];
+
+    constructor(public readonly host: string, public readonly port: number, private options: BankClientOptions = {}) {
+        super();
+    }
+
+    public isConnected(): boolean {
+        return this.socket !== null;
+    }
+
+    /**
+     * Pošle jeden příkaz a vrátí řádek odpovědi. Pokud spojení není otevřené, nejdřív se připojí.
+     * Po vypršení času se spojení zavře: pozdě doručená odpověď by se jinak spárovala s dalším příkazem.
+     * Příkazy odeslané po něm skončí chybou, další příkaz se připojí znovu.
+     */
+    public async send(line: string): Promise<string> {
+        const socket = await this.connect();
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                const index = this.pending.indexOf(entry);
+                if (index !== -1) this.pending.splice(index, 1);
+                reject(new Error('TIMEOUT'));
+                this.drop(socket, new Error('Spojení zavřeno po vypršení času na odpověď'));
+                socket.destroy();
+            }, this.options.timeoutMs ?? 10000);
+            const entry: Pending = {
+                resolve: (text) => { clearTimeout(timer); resolve(text); },
+                reject: (err) => { clearTimeout(timer); reject(err); }
+            };
+            this.pending.push(entry);
+            socket.write(line + '\r\n');
+        });
+    }
+
+    public connect(): Promise<net.Socket> {
+        if (this.socket) return Promise.resolve(this.socket);
+        if (!this.connecting) {
+            this.connecting = this.open().finally(() => { this.connecting = null; });
+        }
+        return this.connecting;
+    }
+
+    public close(): void {
+        this.socket?.end();
+    }
+
+    private open(): Promise<net.Socket> {
+        return new Promise((resolve, reject) => {
+            const reader = new LineReader(Number.MAX_SAFE_INTEGER);
+            const onConnect = () => {
+                this.socket = socket;
+                resolve(socket);
+            };
+            const socket = this.options.tls
+                ? tls.connect({
+                    host: this.host,
+                    port: this.port,
+                    ca: this.options.ca,
+                    rejectUnauthorized: Boolean(this.options.ca),
+                    servername: net.isIP(this.host) ? undefined : this.host
+                }, onConnect)
+                : net.createConnection({ host: this.host, port: this.port }, onConnect);
+
+            socket.on('data', (data) => {
+                for (const { text } of reader.push(data)) this.receive(text.trim());
+            });
+            socket.on('error', (err) => {
+                if (this.socket !== socket) reject(err);
+            });
+            socket.on('close', () => {
+                if (this.socket !== socket) return;
+                const rest = reader.flush().trim();
+                if (rest) this.receive(rest);
+                this.drop(socket, new Error('Spojení ukončeno bez odpovědi'));
+                this.emit('close');
+            });
+        });
+    }
+
+    /** Zapomene spojení a příkazy, které na něm čekají na odpověď, ukončí chybou err. */
+    private drop(socket: net.Socket, err: Error): void {
+        if (this.socket !== socket) return;
+        this.socket = null;
+        for (const entry of this.pending.splice(0)) entry.reject(err);
+    }
+
+    private receive(line: string): void {
+        const entry = this.pending.shift();
+        if (entry) entry.resolve(line);
+        else this.emit('notice', line);
+    }
+}
@@ -0,0 +1,76 @@
+import { BankClient } from './BankClient.js';
+
+/**
+ * Jeden řádek skriptu: příkaz a volitelně regulární výraz, kterému musí odpovídat odpověď.
+ */
+export interface ScriptStep {
+    lineNumber: number;
+    command: string;
+    expect?: RegExp;
+}
+
+/**
+ * Načte skript pro neinteraktivní režim klienta. Formát řádku:
+ *
+ *     AC 1234 => ^AC (?<account>\d{5})/(?<bank>\S+)$
+ *     AD ${account}/${bank} 500 => ^AD$
+ *
+ * Prázdné řádky a řádky začínající `#` se přeskakují. Pojmenované skupiny z výrazu se uloží jako proměnné
+ * a v dalších příkazech se dosadí za `${jméno}`.
+ */
+export function parseScript(text: string): ScriptStep[] {
+    const steps: ScriptStep[] = [];
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.trim();
+        if (!line || line.startsWith('#')) return;
+
+        const separator = line.indexOf('=>');
+        const command = (separator === -1 ? line : line.slice(0, separator)).trim();
+        const pattern = separator === -1 ? '' : line.slice(separator + 2).trim();
+        try {
+            steps.push({ lineNumber: index + 1, command, expect: pattern ? new RegExp(pattern) : undefined });
+        } catch (err: any) {
+            throw new Error(`Řádek ${index + 1}: neplatný výraz ${pattern} (${err.message})`);
+        }
+    });
+    return steps;
+}
+
+export interface ScriptResult {
+    passed: number;
+    failed: number;
+}
+
+/**
+ * Provede kroky skriptu jeden po druhém a vypisuje příkazy, odpovědi a nesplněná očekávání.
+ * Pokračuje i po chybě, aby bylo vidět všechna selhání najednou.
+ */
+export async function runScript(client: BankClient, steps: ScriptStep[], print: (line: string) => void): Promise<ScriptResult> {
+    const variables = new Map<string, string>();
+    const result: ScriptResult = { passed: 0, failed: 0 };
+
+    for (const step of steps) {
+        const command = step.command.replace(/\$\{(\w+)\}/g, (match, name) => variables.get(name) ?? match);
+        print(`> ${command}`);
+
+        let response: string;
+        try {
+            response = await client.send(command);
+        } catch (err: any) {
+            response = `(${err.message})`;
+        }
+        print(`< ${response}`);
+
+        if (!step.expect) continue;
+        const match = step.expect.exec(response);
+        if (match) {
+            for (const [name, value] of Object.entries(match.groups ?? {})) variables.set(name, value);
+            result.passed++;
+        } else {
+            result.failed++;
+            print(`! řádek ${step.lineNumber}: odpověď neodpovídá ${step.expect}`);
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,67 @@
+import { StringDecoder } from 'node:string_decoder';
+
+/**
+ * Jeden řádek přečtený ze socketu. Řádek delší než povolené maximum se nevrací, jen se oznámí přes tooLong.
+ */
+export interface ReadLine {
+    text: string;
+    tooLong: boolean;
+}
+
+/**
+ * Skládá příchozí data z TCP do řádků zakončených \r\n nebo \n.
+ * Příkaz rozdělený do více paketů se poskládá, více příkazů v jednom paketu se rozdělí
+ * a vícebajtové UTF-8 znaky rozdělené mezi pakety se dekódují správně.
+ */
+export class LineReader {
+    private decoder = new StringDecoder('utf8');
+    private buffer = '';
+    private discarding = false;
+    private maxLineLength: number;
+
+    constructor(maxLineLength: number = 1024) {
+        this.maxLineLength = maxLineLength;
+    }
+
+    /**
+     * Přidá další kus dat a vrátí všechny řádky, které jsou už kompletní, v pořadí, v jakém přišly.
+     */
+    public push(chunk: Buffer | string): ReadLine[] {
+        this.buffer += typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+        const lines: ReadLine[] = [];
+
+        let newline: number;
+        while ((newline = this.buffer.indexOf('\n')) !== -1) {
+            const raw = this.buffer.slice(0, newline).replace(/\r$/, '');
+            this.buffer = this.buffer.slice(newline + 1);
+
+            if (this.discarding) {
+                // Konec příliš dlouhého řádku, který už byl nahlášen
+                this.discarding = false;
+            } else if (raw.length > this.maxLineLength) {
+                lines.push({ text: '', tooLong: true });
+            } else {
+                lines.push({ text: raw, tooLong: false });
+            }
+        }
+
+        // Neukončený řádek přerostl limit - nahlásíme ho hned a zbytek až do konce řádku zahodíme
+        if (this.buffer.length > this.maxLineLength) {
+            if (!this.discarding) lines.push({ text: '', tooLong: true });
+            this.discarding = true;
+            this.buffer = '';
+        }
+
+        return lines;
+    }
+
+    /**
+     * Vrátí a vyprázdní neukončený zbytek (např. když protistrana zavře spojení bez \n).
+     */
+    public flush(): string {
+        const rest = this.discarding ? '' : this.buffer + this.decoder.end();
+        this.buffer = '';
+        this.discarding = false;
+        return rest;
+    }
+}
@@ -0,0 +1,121 @@
+/** Výsledek zpracování jednoho příkazu. */
+export type CommandOutcome = 'ok' | 'error' | 'timeout';
+
+/** Horní meze intervalů histogramu doby zpracování příkazu (v sekundách). */
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Histogram {
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+/**
+ * Provozní metriky serveru v paměti, vypisované ve formátu Prometheus (text/plain; version=0.0.4).
+ * Neznámé příkazy a přeposlání bankám mimo známé banky se počítají pod jedním štítkem, aby klient nemohl vytvářet
+ * libovolné časové řady.
+ */
+export class Metrics {
+    private commands = new Map<string, number>();
+    private errors = new Map<string, number>();
+    private timeouts = new Map<string, number>();
+    private durations = new Map<string, Histogram>();
+    private proxyFailures = new Map<string, number>();
+    private gauges = new Map<string, { help: string; value: number }>();
+    private activeSockets = 0;
+    private knownCommands: Set<string>;
+
+    /** knownBanks vrací banky, které mají vlastní štítek u neúspěšných přeposlání (PEER_BANKS, lze měnit za běhu). */
+    constructor(knownCommands: Iterable<string> = [], private knownBanks: () => string[] = () => []) {
+        this.knownCommands = new Set(knownCommands);
+    }
+
+    public socketOpened() {
+        this.activeSockets++;
+    }
+
+    public socketClosed() {
+        this.activeSockets = Math.max(0, this.activeSockets - 1);
+    }
+
+    /**
+     * Zaznamená jeden zpracovaný příkaz s dobou zpracování v ms.
+     */
+    public recordCommand(command: string, durationMs: number, outcome: CommandOutcome) {
+        const label = this.knownCommands.has(command) ? command : 'unknown';
+        increment(this.commands, label);
+        if (outcome === 'error') increment(this.errors, label);
+        if (outcome === 'timeout') increment(this.timeouts, label);
+
+        let histogram = this.durations.get(label);
+        if (!histogram) {
+            histogram = { counts: new Array(DURATION_BUCKETS.length).fill(0), sum: 0, count: 0 };
+            this.durations.set(label, histogram);
+        }
+        const seconds = durationMs / 1000;
+        DURATION_BUCKETS.forEach((bound, i) => {
+            if (seconds <= bound) histogram!.counts[i]++;
+        });
+        histogram.sum += seconds;
+        histogram.count++;
+    }
+
+    /**
+     * Zaznamená neúspěšné přeposlání příkazu jiné bance. Cílovou banku určuje klient (číslo účtu), proto mají vlastní
+     * štítek jen známé banky a ostatní jsou `other`.
+     */
+    public recordProxyFailure(target: string) {
+        increment(this.proxyFailures, this.knownBanks().includes(target) ? target : 'other');
+    }
+
+    /**
+     * Nastaví hodnotu měřidla, které se spočítá jinde (např. stav sítě).
+     */
+    public setGauge(name: string, help: string, value: number) {
+        this.gauges.set(name, { help, value });
+    }
+
+    public render(): string {
+        const lines: string[] = [];
+
+        lines.push('# HELP bank_commands_total Počet zpracovaných příkazů.', '# TYPE bank_commands_total counter');
+        for (const [command, value] of this.commands) lines.push(`bank_commands_total{command="${escape(command)}"} ${value}`);
+
+        lines.push('# HELP bank_command_errors_total Počet příkazů ukončených chybou.', '# TYPE bank_command_errors_total counter');
+        for (const [command, value] of this.errors) lines.push(`bank_command_errors_total{command="${escape(command)}"} ${value}`);
+
+        lines.push('# HELP bank_command_timeouts_total Počet příkazů, které nestihly RESPONSE_TIMEOUT.', '# TYPE bank_command_timeouts_total counter');
+        for (const [command, value] of this.timeouts) lines.push(`bank_command_timeouts_total{command="${escape(command)}"} ${value}`);
+
+        lines.push('# HELP bank_command_duration_seconds Doba zpracování příkazu.', '# TYPE bank_command_duration_seconds histogram');
+        for (const [command, histogram] of this.durations) {
+            const label = `command="${escape(command)}"`;
+            DURATION_BUCKETS.forEach((bound, i) => {
+                lines.push(`bank_command_duration_seconds_bucket{${label},le="${bound}"} ${histogram.counts[i]}`);
+            });
+            lines.push(`bank_command_duration_seconds_bucket{${label},le="+Inf"} ${histogram.count}`);
+            lines.push(`bank_command_duration_seconds_sum{${label}} ${histogram.sum}`);
+            lines.push(`bank_command_duration_seconds_count{${label}} ${histogram.count}`);
+        }
+
+        lines.push('# HELP bank_proxy_failures_total Neúspěšná přeposlání příkazu jiné bance.', '# TYPE bank_proxy_failures_total counter');
+        for (const [target, value] of this.proxyFailures) lines.push(`bank_proxy_failures_total{target="${escape(target)}"} ${value}`);
+
+        lines.push('# HELP bank_active_sockets Počet připojených klientů.', '# TYPE bank_active_sockets gauge');
+        lines.push(`bank_active_sockets ${this.activeSockets}`);
+
+        for (const [name, gauge] of this.gauges) {
+            lines.push(`# HELP ${name} ${gauge.help}`, `# TYPE ${name} gauge`, `${name} ${gauge.value}`);
+        }
+
+        return lines.join('\n') + '\n';
+    }
+}
+
+function increment(map: Map<string, number>, key: string) {
+    map.set(key, (map.get(key) ?? 0) + 1);
+}
+
+function escape(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -1,59 +1,86 @@
-
 import { Logger } from 'winston';
-import {execSync} from "node:child_process";
+import { NetworkProbe, InterfacesProbe } from './NetworkProbes.js';
 
 /**
  * Třída pro monitorování síťového připojení.
- * Pokud není detekováno žádné aktivní síťové rozhraní kromě localhost,
- * vyvolá varování do logu a blokuje příkazy v main..
+ * Stav zjišťují sondy (NetworkProbe) asynchronně na časovači; pokud kterákoli sonda selže,
+ * vyvolá varování do logu a main blokuje příkazy. Příkazy čtou jen uložený stav přes isOnline().
  */
 export class NetworkMonitor {
     private logger: Logger;
     private checkInterval: number;
+    private probes: NetworkProbe[];
     private timer: NodeJS.Timeout | null = null;
     private isConnected: boolean = true;
+    private running: Promise<boolean> | null = null;
 
-    constructor(logger: Logger, checkIntervalMs: number = 30000) {
+    constructor(logger: Logger, checkIntervalMs: number = 30000, probes: NetworkProbe[] = [new InterfacesProbe()]) {
         this.logger = logger;
         this.checkInterval = checkIntervalMs;
+        this.probes = probes;
     }
 
     /**
-     * Zkontroluje síťová rozhraní.
-     * Pokud nenajde žádné aktivní rozhraní kromě localhost, vyvolá varování.
+     * Poslední zjištěný stav sítě. Nic nespouští, takže neblokuje zpracování příkazů.
      */
-    public checkConnection(): boolean {
-        try {
-
-            const stdout = execSync('route print -4 0.0.0.0').toString();
+    public isOnline(): boolean {
+        return this.isConnected;
+    }
 
-            const found = stdout.includes('0.0.0.0');
+    /**
+     * Spustí všechny sondy a uloží výsledek. Připojeno je jen tehdy, když uspějí všechny.
+     * Souběžná volání sdílí jednu běžící kontrolu.
+     */
+    public checkConnection(): Promise<boolean> {
+        if (!this.running) {
+            this.running = this.runProbes().finally(() => {
+                this.running = null;
+            });
+        }
+        return this.running;
+    }
 
-            if (!found && this.isConnected) {
-                this.logger.error("SÍŤOVÁ CHYBA: Výchozí brána nebyla nalezena! Kabel je pravděpodobně odpojen.");
-                this.isConnected = false;
-            } else if (found && !this.isConnected) {
-                this.logger.info("SÍŤ OBNOVENA: Výchozí brána je opět dostupná.");
-                this.isConnected = true;
+    private async runProbes(): Promise<boolean> {
+        let failed: string | null = null;
+        for (const probe of this.probes) {
+            try {
+                if (!await probe.check()) failed = `${probe.name}: není spojení`;
+            } catch (error: any) {
+                failed = `${probe.name}: ${error.message}`;
             }
+            if (failed) break;
+        }
 
-            return found;
-        } catch (error) {
-            if (this.isConnected) {
-                this.logger.error("SÍŤOVÁ CHYBA: Nelze zjistit stav směrovací tabulky.");
-                this.isConnected = false;
-            }
-            return false;
+        const found = failed === null;
+        if (!found && this.isConnected) {
+            this.logger.error(`SÍŤOVÁ CHYBA: Kabel je pravděpodobně odpojen (${failed}).`);
+        } else if (found && !this.isConnected) {
+            this.logger.info("SÍŤ OBNOVENA: Připojení je opět dostupné.");
         }
+        this.isConnected = found;
+        return found;
     }
 
     /**
-     * Spustí automatickou periodickou kontrolu.
+     * Spustí automatickou periodickou kontrolu. Vrácený promise skončí po první kontrole.
      */
-    public startMonitoring() {
-        this.checkConnection(); // První kontrola hned při startu
+    public startMonitoring(): Promise<boolean> {
         this.timer = setInterval(() => this.checkConnection(), this.checkInterval);
-        this.logger.info(`Sledování sítě spuštěno (interval ${this.checkInterval / 1000}s).`);
+        this.logger.info(`Sledování sítě spuštěno (interval ${this.checkInterval / 1000}s, sondy: ${this.probes.map(p => p.name).join(', ')}).`);
+        return this.checkConnection(); // První kontrola hned při startu
+    }
+
+    /**
+     * Změní interval periodické kontroly; běžící sledování se přenastaví hned.
+     */
+    public setCheckInterval(ms: number) {
+        if (ms === this.checkInterval) return;
+        this.checkInterval = ms;
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = setInterval(() => this.checkConnection(), this.checkInterval);
+            this.logger.info(`Interval kontroly sítě změněn na ${ms / 1000}s.`);
+        }
     }
 
     /**
@@ -66,4 +93,4 @@ export class NetworkMonitor {
             this.timer = null;
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,111 @@
+import os from 'node:os';
+import net from 'node:net';
+import fs from 'node:fs/promises';
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { AppConfig } from './config.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * Jedna strategie zjištění, jestli je server připojený k síti.
+ */
+export interface NetworkProbe {
+    readonly name: string;
+    check(): Promise<boolean>;
+}
+
+/**
+ * Připojeno, pokud existuje aspoň jedno aktivní síťové rozhraní kromě localhostu.
+ */
+export class InterfacesProbe implements NetworkProbe {
+    readonly name = 'interfaces';
+
+    constructor(private getInterfaces: () => NodeJS.Dict<os.NetworkInterfaceInfo[]> = os.networkInterfaces) {}
+
+    async check(): Promise<boolean> {
+        return Object.values(this.getInterfaces()).some(list => (list ?? []).some(i => !i.internal));
+    }
+}
+
+/**
+ * Linux: připojeno, pokud je v /proc/net/route aktivní výchozí trasa (cíl i maska 0.0.0.0, příznak UP).
+ */
+export class ProcRouteProbe implements NetworkProbe {
+    readonly name = 'proc-route';
+
+    constructor(private routeFile: string = '/proc/net/route') {}
+
+    async check(): Promise<boolean> {
+        const content = await fs.readFile(this.routeFile, 'utf8');
+        // Hlavička: Iface Destination Gateway Flags RefCnt Use Metric Mask ...
+        return content.split('\n').slice(1).some(line => {
+            const cols = line.trim().split(/\s+/);
+            if (cols.length < 8) return false;
+            const [, destination, , flags, , , , mask] = cols;
+            const RTF_UP = 0x1;
+            return destination === '00000000' && mask === '00000000' && (parseInt(flags, 16) & RTF_UP) !== 0;
+        });
+    }
+}
+
+/**
+ * Windows: výchozí brána ve výpisu `route print -4 0.0.0.0` (původní kontrola, teď asynchronně).
+ */
+export class WindowsRouteProbe implements NetworkProbe {
+    readonly name = 'windows-route';
+
+    async check(): Promise<boolean> {
+        const { stdout } = await execAsync('route print -4 0.0.0.0');
+        return stdout.includes('0.0.0.0');
+    }
+}
+
+/**
+ * Připojeno, pokud se podaří navázat TCP spojení na zadaný host a port.
+ */
+export class TcpProbe implements NetworkProbe {
+    readonly name = 'tcp';
+
+    constructor(private host: string, private port: number, private timeoutMs: number = 2000) {}
+
+    check(): Promise<boolean> {
+        return new Promise(resolve => {
+            const socket = net.createConnection({ host: this.host, port: this.port });
+            const done = (result: boolean) => {
+                socket.destroy();
+                resolve(result);
+            };
+            socket.setTimeout(this.timeoutMs, () => done(false));
+            socket.once('connect', () => done(true));
+            socket.once('error', () => done(false));
+        });
+    }
+}
+
+/**
+ * Sestaví sondy podle NETWORK_PROBES v konfiguraci.
+ * Bez nastavení se použije kontrola výchozí trasy podle platformy a případně TCP sonda na NETWORK_PROBE_HOST.
+ */
+export function createProbes(CONFIG: Partial<AppConfig>): NetworkProbe[] {
+    const names: string[] = CONFIG.NETWORK_PROBES ?? [
+        process.platform === 'win32' ? 'windows-route' : process.platform === 'linux' ? 'proc-route' : 'interfaces',
+        ...(CONFIG.NETWORK_PROBE_HOST ? ['tcp'] : [])
+    ];
+
+    return names.map(name => {
+        switch (name) {
+            case 'interfaces':
+                return new InterfacesProbe();
+            case 'proc-route':
+                return new ProcRouteProbe();
+            case 'windows-route':
+                return new WindowsRouteProbe();
+            case 'tcp':
+                if (!CONFIG.NETWORK_PROBE_HOST) throw new Error('Sonda tcp vyžaduje NETWORK_PROBE_HOST');
+                return new TcpProbe(CONFIG.NETWORK_PROBE_HOST, CONFIG.NETWORK_PROBE_PORT || 53, CONFIG.NETWORK_PROBE_TIMEOUT || 2000);
+            default:
+                throw new Error(`Neznámá síťová sonda: ${name}`);
+        }
+    });
+}
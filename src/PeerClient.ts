@@ -0,0 +1,72 @@
+import tls from 'node:tls';
+import { Logger } from 'winston';
+import { proxyCommand, proxyEvents } from './commands/helpers.js';
+import { BankError, parseErrorReply } from './errors.js';
+
+export interface PeerClientOptions {
+    /** Nešifrovaný port bank v síti (PORT). */
+    port: number;
+    /** TLS port bank v síti (TLS_PORT); bez něj se komunikuje jen nešifrovaně. */
+    tlsPort?: number;
+    /** Parametry TLS spojení: vlastní certifikát a klíč (mutual TLS) a CA pro ověření protistrany. */
+    tls?: tls.ConnectionOptions;
+    /** Přejít u banky bez TLS na nešifrované spojení (jinak je taková banka nedostupná). */
+    fallback?: boolean;
+    /** Jak dlouho si pamatovat, že banka TLS nepodporuje, než se to zkusí znovu. */
+    fallbackTtlMs?: number;
+}
+
+/**
+ * Chyby, které znamenají, že na TLS portu protistrany TLS neběží (nic nenaslouchá nebo mluví nešifrovaně).
+ * Chyby ověření certifikátu sem nepatří - u nich by přechod na nešifrované spojení obešel ověření.
+ */
+const NO_TLS_ERRORS = new Set(['ECONNREFUSED', 'ECONNRESET', 'EPROTO', 'ERR_SSL_WRONG_VERSION_NUMBER']);
+
+/**
+ * Odesílání příkazů jiným bankám (AD/AW/AB/AP přes proxy, kroky převodů AT).
+ * Je-li nastavený TLS port, zkouší se nejdřív TLS; banku, která TLS nepodporuje, si pamatuje a mluví s ní nešifrovaně.
+ */
+export class PeerClient {
+    private plaintextUntil = new Map<string, number>();
+
+    constructor(private options: PeerClientOptions, private logger?: Logger) {}
+
+    /**
+     * Přepošle příkaz klienta bance, která vede účet, a vrátí její odpověď.
+     * Chybová odpověď se vyhodí jako BankError se stejným kódem, aby ji server klientovi přeložil do jeho jazyka;
+     * nedostupná banka skončí chybou PEER_ERROR.
+     */
+    public async forward(bank: string, commandLine: string, timeoutMs: number): Promise<string> {
+        let response: string;
+        try {
+            response = await this.send(bank, commandLine, timeoutMs);
+        } catch (err: any) {
+            this.logger?.error(`Proxy error (${bank}): ${err.message}`);
+            throw new BankError('PEER_ERROR', { reason: err.message });
+        }
+        const error = parseErrorReply(response);
+        if (error) throw error;
+        return response;
+    }
+
+    public async send(bank: string, commandLine: string, timeoutMs: number): Promise<string> {
+        const { port, tlsPort } = this.options;
+        if (tlsPort === undefined || (this.plaintextUntil.get(bank) ?? 0) > Date.now()) {
+            return proxyCommand(bank, port, commandLine, timeoutMs);
+        }
+
+        try {
+            // Selhání se hlásí až tady, aby se nepovedený pokus o TLS před přechodem nepočítal jako výpadek banky
+            return await proxyCommand(bank, tlsPort, commandLine, timeoutMs, { tls: this.options.tls ?? {}, reportFailures: false });
+        } catch (err: any) {
+            if (this.options.fallback === false || !NO_TLS_ERRORS.has(err.code)) {
+                proxyEvents.emit('failure', bank, err);
+                throw err;
+            }
+
+            this.logger?.warn(`Banka ${bank} nepodporuje TLS (${err.code}), komunikuji nešifrovaně.`);
+            this.plaintextUntil.set(bank, Date.now() + (this.options.fallbackTtlMs ?? 300000));
+            return proxyCommand(bank, port, commandLine, timeoutMs);
+        }
+    }
+}
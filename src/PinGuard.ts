@@ -0,0 +1,78 @@
+import crypto from 'node:crypto';
+import { promisify } from 'node:util';
+import { Account } from './storage/index.js';
+import { BankError } from './errors.js';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+/**
+ * PIN je 4 až 8 číslic.
+ */
+export function isValidPin(pin: string | undefined): pin is string {
+    return /^\d{4,8}$/.test(pin ?? '');
+}
+
+/**
+ * Náhodný šestimístný PIN pro účet založený bez PINu.
+ */
+export function generatePin(): string {
+    return crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+}
+
+/**
+ * Solený hash PINu ve tvaru `scrypt$<sůl>$<hash>` (hex). PIN se nikde neukládá v čitelné podobě.
+ */
+export async function hashPin(pin: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(pin, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export async function verifyPin(pin: string, stored: string): Promise<boolean> {
+    const [algorithm, saltHex, hashHex] = stored.split('$');
+    if (algorithm !== 'scrypt' || !saltHex || !hashHex) return false;
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scrypt(pin, Buffer.from(saltHex, 'hex'), expected.length);
+    return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Ověřování PINu u AW, AR, AP a výběrové části převodu AT.
+ * Po maxAttempts špatných pokusech za sebou se účet na lockoutMs zablokuje (i pro správný PIN).
+ * Počty pokusů se drží v paměti, restart serveru je vynuluje.
+ */
+export class PinGuard {
+    private failures = new Map<string, { count: number; lockedUntil: number }>();
+
+    constructor(private maxAttempts: number = 3, private lockoutMs: number = 300000) {}
+
+    /**
+     * Ověří PIN k účtu. Vrací 'pin', pokud účet má PIN a souhlasí, nebo 'legacy' u staršího účtu bez PINu
+     * (pokud to required dovolí) - o dalším ověření pak rozhoduje volající.
+     * Jinak vyhodí ACCOUNT_LOCKED, INVALID_PIN nebo PIN_NOT_SET.
+     */
+    public async authorize(account: Account, pin: string | undefined, required: boolean): Promise<'pin' | 'legacy'> {
+        if (!account.pinHash) {
+            if (required) throw new BankError('PIN_NOT_SET');
+            return 'legacy';
+        }
+
+        const state = this.failures.get(account.number);
+        if (state && state.lockedUntil > Date.now()) throw new BankError('ACCOUNT_LOCKED');
+
+        if (!isValidPin(pin) || !await verifyPin(pin, account.pinHash)) {
+            const count = (state && state.lockedUntil === 0 ? state.count : 0) + 1;
+            if (count >= this.maxAttempts) {
+                this.failures.set(account.number, { count: 0, lockedUntil: Date.now() + this.lockoutMs });
+                throw new BankError('ACCOUNT_LOCKED');
+            }
+            this.failures.set(account.number, { count, lockedUntil: 0 });
+            throw new BankError('INVALID_PIN');
+        }
+
+        this.failures.delete(account.number);
+        return 'pin';
+    }
+}
@@ -0,0 +1,113 @@
+import { BankError } from './errors.js';
+
+/**
+ * Token bucket: kapacita `capacity` tokenů, doplňuje se rovnoměrně `perMinute` tokenů za minutu.
+ * Každý příkaz spotřebuje jeden token; prázdný kbelík znamená překročení limitu.
+ */
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+
+    constructor(private perMinute: number, private capacity: number = perMinute, private now: () => number = Date.now) {
+        this.tokens = capacity;
+        this.updatedAt = now();
+    }
+
+    public take(): boolean {
+        this.refill();
+        if (this.tokens < 1) return false;
+        this.tokens--;
+        return true;
+    }
+
+    /** Plný kbelík se nijak neliší od nového, takže ho lze zahodit. */
+    public isFull(): boolean {
+        this.refill();
+        return this.tokens >= this.capacity;
+    }
+
+    private refill(): void {
+        const now = this.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.perMinute / 60000);
+        this.updatedAt = now;
+    }
+}
+
+export interface RateLimits {
+    /** Nejvýše souběžných spojení z jedné IP adresy (0 = bez omezení). */
+    maxConnectionsPerIp: number;
+    /** Příkazů za minutu na jedno spojení (0 = bez omezení). */
+    perConnection: number;
+    /** Příkazů za minutu ze všech spojení jedné IP adresy (0 = bez omezení). */
+    perIp: number;
+    /** Příkazů AC za minutu z jedné IP adresy (0 = bez omezení). */
+    accountCreation: number;
+}
+
+/**
+ * Ochrana před zahlcením serveru jedním klientem: počet spojení a rychlost příkazů podle IP adresy.
+ * Stav je jen v paměti; kbelíky IP adres bez spojení se po naplnění zahazují.
+ */
+export class RateLimiter {
+    private connections = new Map<string, number>();
+    private ipBuckets = new Map<string, TokenBucket>();
+    private accountBuckets = new Map<string, TokenBucket>();
+
+    constructor(private limits: RateLimits, private now: () => number = Date.now) {}
+
+    /**
+     * Zaregistruje nové spojení z IP adresy. Vrací false (a spojení nezapočítá), pokud je překročen limit spojení.
+     */
+    public connectionOpened(ip: string): boolean {
+        const count = this.connections.get(ip) ?? 0;
+        if (this.limits.maxConnectionsPerIp > 0 && count >= this.limits.maxConnectionsPerIp) return false;
+        this.connections.set(ip, count + 1);
+        return true;
+    }
+
+    public connectionClosed(ip: string): void {
+        const count = (this.connections.get(ip) ?? 1) - 1;
+        if (count > 0) {
+            this.connections.set(ip, count);
+            return;
+        }
+        this.connections.delete(ip);
+        this.prune();
+    }
+
+    /**
+     * Kbelík pro jedno spojení; volající si ho drží po celou dobu spojení. Bez limitu vrací null.
+     */
+    public connectionBucket(): TokenBucket | null {
+        return this.limits.perConnection > 0 ? new TokenBucket(this.limits.perConnection, undefined, this.now) : null;
+    }
+
+    /**
+     * Započítá příkaz. Při překročení limitu vyhodí RATE_LIMITED, u AC navíc AC_RATE_LIMITED.
+     */
+    public checkCommand(ip: string, command: string, connectionBucket: TokenBucket | null): void {
+        if (connectionBucket && !connectionBucket.take()) throw new BankError('RATE_LIMITED');
+        if (!this.take(this.ipBuckets, ip, this.limits.perIp)) throw new BankError('RATE_LIMITED');
+        if (command === 'AC' && !this.take(this.accountBuckets, ip, this.limits.accountCreation)) {
+            throw new BankError('AC_RATE_LIMITED');
+        }
+    }
+
+    private take(buckets: Map<string, TokenBucket>, ip: string, perMinute: number): boolean {
+        if (perMinute <= 0) return true;
+        let bucket = buckets.get(ip);
+        if (!bucket) {
+            bucket = new TokenBucket(perMinute, undefined, this.now);
+            buckets.set(ip, bucket);
+        }
+        return bucket.take();
+    }
+
+    private prune(): void {
+        for (const buckets of [this.ipBuckets, this.accountBuckets]) {
+            for (const [ip, bucket] of buckets) {
+                if (!this.connections.has(ip) && bucket.isFull()) buckets.delete(ip);
+            }
+        }
+    }
+}
@@ -0,0 +1,243 @@
+import net from 'node:net';
+import { proxyCommand } from './commands/helpers.js';
+
+/**
+ * Banka nalezená při skenování sítě.
+ */
+export interface BankInfo {
+    code: string;
+    host: string;
+    port: number;
+    amount: bigint;
+    clients: number;
+}
+
+export interface ScanOptions {
+    /** Rozsah IP adres: `10.0.0.1-10.0.0.254` nebo `10.0.0.0/24`. */
+    ipRange: string;
+    /** Rozsah portů: `65525-65535` nebo jeden port. */
+    portRange: string;
+    /** Maximální počet současně skenovaných adres. */
+    concurrency: number;
+    /** Časový limit jednoho dotazu na jednu adresu. */
+    hostTimeoutMs: number;
+    /** Okamžik (Date.now()), do kdy musí sken skončit. */
+    deadline: number;
+    /** Odeslání dotazu bance (v běžném provozu proxyCommand). */
+    query?: (host: string, port: number, commandLine: string, timeoutMs: number) => Promise<string>;
+}
+
+export interface ScanResult {
+    banks: BankInfo[];
+    /** Počet adres, na které se kvůli časovému limitu nedostalo. */
+    skipped: number;
+}
+
+/** Banka nemůže mít víc klientů než čísel účtů (10000-99999); větší odpověď BN je nesmysl nebo útok na paměť. */
+export const MAX_BANK_CLIENTS = 90000;
+
+/** Nejvíc dvojic adresa-port v jednom skenu (např. /16 s jedním portem); větší sken nemá šanci doběhnout. */
+export const MAX_SCAN_TARGETS = 65536;
+
+/** Rozsah IPv4 adres: počet adres a jejich postupné procházení, bez rozepsání do pole. */
+export interface IpRange extends Iterable<string> {
+    size: number;
+}
+
+export interface RobberyPlan {
+    banks: BankInfo[];
+    amount: bigint;
+    clients: number;
+}
+
+/**
+ * Přečte rozsah IPv4 adres (`od-do` nebo CIDR); adresy se vytvářejí až při procházení.
+ */
+export function parseIpRange(range: string): IpRange {
+    let from: number;
+    let to: number;
+
+    if (range.includes('/')) {
+        const [base, bitsStr] = range.split('/');
+        const bits = Number(bitsStr);
+        if (!Number.isInteger(bits) || bits < 0 || bits > 32) throw new Error(`Neplatný rozsah IP adres: ${range}`);
+        const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+        from = (ipToNumber(base) & mask) >>> 0;
+        to = (from | (~mask >>> 0)) >>> 0;
+        // U sítě větší než /31 vynecháme adresu sítě a broadcast
+        if (bits < 31) {
+            from++;
+            to--;
+        }
+    } else {
+        const [start, end] = range.split('-').map(s => s.trim());
+        from = ipToNumber(start);
+        to = ipToNumber(end ?? start);
+    }
+
+    if (to < from) throw new Error(`Neplatný rozsah IP adres: ${range}`);
+    return {
+        size: to - from + 1,
+        *[Symbol.iterator]() {
+            for (let n = from; n <= to; n++) yield numberToIp(n);
+        }
+    };
+}
+
+/**
+ * Rozloží rozsah portů (`od-do` nebo jeden port).
+ */
+export function parsePortRange(range: string): number[] {
+    const [start, end] = String(range).split('-').map(s => Number(s.trim()));
+    const last = end ?? start;
+    if (!Number.isInteger(start) || !Number.isInteger(last) || start < 1 || last > 65535 || last < start) {
+        throw new Error(`Neplatný rozsah portů: ${range}`);
+    }
+    return Array.from({ length: last - start + 1 }, (_, i) => start + i);
+}
+
+/**
+ * Kontrola rozsahů skenu pro konfiguraci (SCAN_IP_RANGE, SCAN_PORT_RANGE; chybějící rozsah = jedna adresa nebo port).
+ * Vrací seznam problémů, prázdný = v pořádku.
+ */
+export function checkScanRanges(ipRange?: string, portRange?: string): string[] {
+    const problems: string[] = [];
+    let addresses = 1;
+    let ports = 1;
+    try {
+        if (ipRange !== undefined) addresses = parseIpRange(ipRange).size;
+    } catch (err: any) {
+        problems.push(`SCAN_IP_RANGE: ${err.message}`);
+    }
+    try {
+        if (portRange !== undefined) ports = parsePortRange(portRange).length;
+    } catch (err: any) {
+        problems.push(`SCAN_PORT_RANGE: ${err.message}`);
+    }
+    if (addresses * ports > MAX_SCAN_TARGETS) {
+        problems.push(`SCAN_IP_RANGE: ${addresses} adres × ${ports} portů je víc než ${MAX_SCAN_TARGETS} cílů skenu`);
+    }
+    return problems;
+}
+
+/**
+ * Projde zadaný rozsah adres a portů a u každé banky, která odpoví na BC, zjistí BA a BN.
+ * Adresy se skenují paralelně s omezeným počtem současných spojení; dvojice adresa-port se vytvářejí postupně, jak
+ * je spojení berou. Po uplynutí deadline se další adresy nezkouší.
+ */
+export async function scanBanks(options: ScanOptions): Promise<ScanResult> {
+    const query = options.query
+        ?? ((host: string, port: number, line: string, timeoutMs: number) => proxyCommand(host, port, line, timeoutMs, { reportFailures: false }));
+    const ips = parseIpRange(options.ipRange);
+    const ports = parsePortRange(options.portRange);
+    const total = ips.size * ports.length;
+    if (total > MAX_SCAN_TARGETS) throw new Error(`Sken ${total} cílů je větší než ${MAX_SCAN_TARGETS}`);
+    const targets = scanTargets(ips, ports);
+
+    const found = new Map<string, BankInfo>();
+    let probed = 0;
+
+    // Každý dotaz dostane jen čas, který do deadline zbývá, aby sken neskončil pozdě
+    const timeLeft = () => Math.min(options.hostTimeoutMs, options.deadline - Date.now());
+
+    const probe = async (host: string, port: number) => {
+        try {
+            const bc = await query(host, port, 'BC', timeLeft());
+            const [bcCode, code] = bc.split(/\s+/);
+            if (bcCode !== 'BC' || !code || found.has(code)) return;
+
+            const timeout = timeLeft();
+            if (timeout <= 0) return;
+            const [ba, bn] = await Promise.all([
+                query(host, port, 'BA', timeout),
+                query(host, port, 'BN', timeout)
+            ]);
+            const [baCode, amount] = ba.split(/\s+/);
+            const [bnCode, clients] = bn.split(/\s+/);
+            if (baCode !== 'BA' || bnCode !== 'BN' || !/^-?\d+$/.test(amount) || !/^\d+$/.test(clients)) return;
+            if (Number(clients) > MAX_BANK_CLIENTS) return;
+
+            found.set(code, { code, host, port, amount: BigInt(amount), clients: Number(clients) });
+        } catch {
+            // Na adrese neběží banka nebo neodpověděla včas
+        }
+    };
+
+    // Generátor sdílí všechna spojení; for...of by ho po skončení jednoho z nich uzavřel i ostatním
+    const worker = async () => {
+        while (timeLeft() > 0) {
+            const { value, done } = targets.next();
+            if (done) return;
+            probed++;
+            await probe(value.host, value.port);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, total)) }, worker));
+    return { banks: [...found.values()], skipped: total - probed };
+}
+
+/** Dvojice adresa-port ke skenu, postupně podle adres. */
+function* scanTargets(ips: IpRange, ports: number[]): Generator<{ host: string; port: number }, undefined> {
+    for (const host of ips) {
+        for (const port of ports) yield { host, port };
+    }
+}
+
+/** Stav výpočtu plánu: vybrané banky jako řetěz odkazů na předchozí stav, aby se výběr nekopíroval. */
+interface PlanState {
+    clients: number;
+    amount: bigint;
+    bank: BankInfo | null;
+    prev: PlanState | null;
+}
+
+/**
+ * Vybere banky, které dohromady drží alespoň amount a mají co nejméně klientů.
+ * Jde o knapsack přes počet klientů: udržuje se jen seznam nepřekonaných stavů (s víc klienty vždy víc peněz),
+ * takže paměť neroste s počtem klientů, který banky nahlásí, ale jen s počtem skutečně dosažitelných součtů.
+ * Vrací null, pokud ani všechny banky dohromady částku nedrží.
+ */
+export function planRobbery(banks: BankInfo[], amount: bigint): RobberyPlan | null {
+    let frontier: PlanState[] = [{ clients: 0, amount: 0n, bank: null, prev: null }];
+
+    for (const bank of banks) {
+        if (bank.amount <= 0n) continue;
+        const extended = frontier.map(state => ({ clients: state.clients + bank.clients, amount: state.amount + bank.amount, bank, prev: state }));
+        frontier = mergeStates(frontier, extended, amount);
+    }
+
+    const best = frontier[frontier.length - 1];
+    if (best.amount < amount) return null;
+    const selected: BankInfo[] = [];
+    for (let state: PlanState | null = best; state?.bank; state = state.prev) selected.unshift(state.bank);
+    return { banks: selected, amount: best.amount, clients: best.clients };
+}
+
+/**
+ * Spojí dva seznamy stavů seřazené podle klientů a ponechá jen ty, které mají víc peněz než všechny stavy s méně
+ * klienty. Stavy za prvním, který dosáhne cíle, se zahodí - mají víc klientů a lepší plán z nich nevznikne.
+ */
+function mergeStates(a: PlanState[], b: PlanState[], target: bigint): PlanState[] {
+    const merged: PlanState[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        const takeA = j >= b.length || (i < a.length && (a[i].clients < b[j].clients || (a[i].clients === b[j].clients && a[i].amount >= b[j].amount)));
+        const state = takeA ? a[i++] : b[j++];
+        const last = merged[merged.length - 1];
+        if (last && state.amount <= last.amount) continue;
+        merged.push(state);
+        if (state.amount >= target) break;
+    }
+    return merged;
+}
+
+function ipToNumber(ip: string): number {
+    if (!net.isIPv4(ip)) throw new Error(`Neplatná IPv4 adresa: ${ip}`);
+    return ip.split('.').reduce((n, part) => n * 256 + Number(part), 0);
+}
+
+function numberToIp(n: number): string {
+    return [n >>> 24, (n >>> 16) & 255, (n >>> 8) & 255, n & 255].join('.');
+}
@@ -0,0 +1,440 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Logger } from 'winston';
+import { AccountStore } from './storage/index.js';
+import { AccountLockManager } from './AccountLockManager.js';
+import { AuditLog } from './AuditLog.js';
+import { SnapshotLock } from './SnapshotLock.js';
+import { writeFileAtomic } from './TransactionJournal.js';
+
+/**
+ * Zaokrouhlení úroku na celé jednotky: down = k nule (zbytek zůstane bance), half-up = polovina od nuly,
+ * half-even = polovina k sudé (bankéřské zaokrouhlení).
+ */
+export type Rounding = 'down' | 'half-up' | 'half-even';
+
+/**
+ * Pravidlo plánovače v SCHEDULE (app_config.json).
+ * schedule je cron ve tvaru `minuta hodina den měsíc den-v-týdnu` (UTC, např. `0 0 1 * *` = prvního v měsíci o půlnoci),
+ * nebo interval `<počet>s|m|h|d` (např. `1d`), počítaný od 1. 1. 1970 UTC.
+ */
+export interface ScheduleRule {
+    /** Jméno pravidla; podle něj plánovač pozná, která období už provedl. */
+    name: string;
+    /** interest = úrok ze zůstatku, fee = pevný poplatek za vedení účtu. */
+    type: 'interest' | 'fee';
+    schedule: string;
+    /** Úrok za jedno období v procentech (desetinné číslo, např. "0.25"). */
+    rate?: string | number;
+    /** Pravidlo zaokrouhlení úroku, výchozí down. */
+    rounding?: Rounding;
+    /** Poplatek za jedno období (celé číslo). */
+    amount?: string | number;
+}
+
+/** Kódy operací v historii účtu a v auditu. */
+const OPERATIONS = { interest: 'IN', fee: 'FE' } as const;
+const ROUNDINGS: Rounding[] = ['down', 'half-up', 'half-even'];
+const RULE_NAME = /^[\w-]+$/;
+const RATE = /^\d+(\.\d+)?$/;
+const INTERVAL = /^(\d+)(s|m|h|d)$/;
+const UNITS: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+/** Jak daleko do minulosti se hledá poslední spuštění cronu (pokryje i 29. února). */
+const CRON_LOOKBACK_DAYS = 366 * 8;
+
+/**
+ * Celočíselné dělení se zadaným zaokrouhlením, přesně v bigint i pro záporné hodnoty.
+ */
+export function divide(numerator: bigint, denominator: bigint, rounding: Rounding): bigint {
+    const negative = (numerator < 0n) !== (denominator < 0n);
+    const n = numerator < 0n ? -numerator : numerator;
+    const d = denominator < 0n ? -denominator : denominator;
+    let quotient = n / d;
+    const twice = (n % d) * 2n;
+    if (rounding === 'half-up' && twice >= d) quotient++;
+    if (rounding === 'half-even' && (twice > d || (twice === d && quotient % 2n === 1n))) quotient++;
+    return negative ? -quotient : quotient;
+}
+
+/**
+ * Úrok ze zůstatku: balance * rate / 100, rate je procento jako desetinné číslo v textu (bez převodu na float).
+ */
+export function interest(balance: bigint, rate: string, rounding: Rounding): bigint {
+    const [whole, fraction = ''] = rate.split('.');
+    const scale = 10n ** BigInt(fraction.length);
+    return divide(balance * BigInt(whole + fraction), 100n * scale, rounding);
+}
+
+/** Kdy se pravidlo naposledy mělo spustit (nejpozději v čase now), nebo null. */
+type Timing = (now: Date) => Date | null;
+
+function parseCronField(text: string, min: number, max: number): Set<number> | null {
+    const values = new Set<number>();
+    for (const part of text.split(',')) {
+        const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+        if (!match) return null;
+        const from = match[1] === '*' ? min : Number(match[2]);
+        const to = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? max : from;
+        const step = match[4] !== undefined ? Number(match[4]) : 1;
+        if (from < min || to > max || from > to || step < 1) return null;
+        for (let value = from; value <= to; value += step) values.add(value);
+    }
+    return values;
+}
+
+function parseCron(expression: string): Timing | null {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) return null;
+    const minutes = parseCronField(fields[0], 0, 59);
+    const hours = parseCronField(fields[1], 0, 23);
+    const days = parseCronField(fields[2], 1, 31);
+    const months = parseCronField(fields[3], 1, 12);
+    const weekdays = parseCronField(fields[4], 0, 7);
+    if (!minutes || !hours || !days || !months || !weekdays) return null;
+    if (weekdays.has(7)) weekdays.add(0);
+
+    // Jako v cronu: když jsou omezené den v měsíci i den v týdnu, stačí shoda jednoho z nich
+    const anyDay = fields[2] === '*';
+    const anyWeekday = fields[4] === '*';
+    const dayMatches = (date: Date) => {
+        if (!months.has(date.getUTCMonth() + 1)) return false;
+        const day = days.has(date.getUTCDate());
+        const weekday = weekdays.has(date.getUTCDay());
+        if (anyDay || anyWeekday) return day && weekday;
+        return day || weekday;
+    };
+
+    return (now: Date) => {
+        for (let back = 0; back <= CRON_LOOKBACK_DAYS; back++) {
+            const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - back));
+            if (!dayMatches(date)) continue;
+            for (let hour = back === 0 ? now.getUTCHours() : 23; hour >= 0; hour--) {
+                if (!hours.has(hour)) continue;
+                const lastMinute = back === 0 && hour === now.getUTCHours() ? now.getUTCMinutes() : 59;
+                for (let minute = lastMinute; minute >= 0; minute--) {
+                    if (minutes.has(minute)) return new Date(date.getTime() + hour * 3600000 + minute * 60000);
+                }
+            }
+        }
+        return null;
+    };
+}
+
+function parseTiming(schedule: string): Timing | null {
+    const interval = schedule.match(INTERVAL);
+    if (interval) {
+        const ms = Number(interval[1]) * UNITS[interval[2]];
+        return ms > 0 ? (now: Date) => new Date(Math.floor(now.getTime() / ms) * ms) : null;
+    }
+    return parseCron(schedule);
+}
+
+/**
+ * Chyby pravidel plánovače pro kontrolu konfigurace; prázdné pole = pravidla jsou v pořádku.
+ */
+export function checkScheduleRules(rules: ScheduleRule[]): string[] {
+    const problems: string[] = [];
+    const names = new Set<string>();
+    rules.forEach((rule, i) => {
+        const where = `pravidlo ${typeof rule.name === 'string' ? rule.name : i + 1}`;
+        if (typeof rule.name !== 'string' || !RULE_NAME.test(rule.name)) problems.push(`${where}: name musí být neprázdný text z písmen, číslic, _ a -`);
+        else if (names.has(rule.name)) problems.push(`${where}: jméno je použité víckrát`);
+        names.add(rule.name);
+        const timing = typeof rule.schedule === 'string' ? parseTiming(rule.schedule) : null;
+        if (!timing) {
+            problems.push(`${where}: schedule musí být cron (minuta hodina den měsíc den-v-týdnu) nebo interval jako 1d`);
+        } else if (!timing(new Date())) {
+            // Do CRON_LOOKBACK_DAYS se vejde každé datum, které v kalendáři existuje, i 29. února
+            problems.push(`${where}: schedule za ${CRON_LOOKBACK_DAYS} dní ani jednou nenastane (neexistující datum jako 31. února)`);
+        }
+        if (rule.type === 'interest') {
+            if (!RATE.test(String(rule.rate ?? '')) || !/[1-9]/.test(String(rule.rate))) problems.push(`${where}: rate musí být kladné desetinné číslo (procenta)`);
+            if (rule.rounding !== undefined && !ROUNDINGS.includes(rule.rounding)) problems.push(`${where}: rounding musí být jedna z hodnot ${ROUNDINGS.join(', ')}`);
+        } else if (rule.type === 'fee') {
+            if (!/^\d+$/.test(String(rule.amount ?? '')) || BigInt(rule.amount) === 0n) problems.push(`${where}: amount musí být kladné celé číslo`);
+        } else {
+            problems.push(`${where}: type musí být interest nebo fee`);
+        }
+    });
+    return problems;
+}
+
+/** Pravidlo připravené k použití: kdy běží a o kolik změní zůstatek účtu. */
+interface Job {
+    name: string;
+    operation: string;
+    timing: Timing;
+    change: (balance: bigint) => bigint;
+}
+
+function toJob(rule: ScheduleRule): Job {
+    const change = rule.type === 'interest'
+        // Úročí se jen kladný zůstatek, čerpaný úvěr ne
+        ? (balance: bigint) => balance > 0n ? interest(balance, String(rule.rate), rule.rounding ?? 'down') : 0n
+        // Poplatek účet nepřečerpá, strhne se nejvýše zůstatek
+        : (balance: bigint) => balance <= 0n ? 0n : -(balance < BigInt(rule.amount) ? balance : BigInt(rule.amount));
+    return { name: rule.name, operation: OPERATIONS[rule.type], timing: parseTiming(rule.schedule)!, change };
+}
+
+/**
+ * Řádek logu plánovače: začátek běhu pravidla za období, záměr změnit zůstatek účtu (před změnou),
+ * potvrzení změny a konec běhu. skip označuje vyřízené období bez údajů o běhu (nové pravidlo, přepsaný log).
+ */
+type LogLine =
+    | { type: 'run'; rule: string; period: string; total?: string }
+    | { type: 'apply'; rule: string; period: string; account: string; before: string; after: string }
+    | { type: 'account'; rule: string; period: string; account: string; amount: string }
+    | { type: 'done'; rule: string; period: string; accounts: number; total: string }
+    | { type: 'skip'; rule: string; period: string };
+
+/** Rozpracovaný běh pravidla: účty, které už jsou hotové, a součet změn. */
+interface Run {
+    period: string;
+    done: Set<string>;
+    total: bigint;
+}
+
+export interface SchedulerOptions {
+    logFile: string;
+    rules: ScheduleRule[];
+    lockTimeoutMs: number;
+    /** Jak často se kontroluje, jestli některé pravidlo nemá spustit nové období. */
+    checkIntervalMs?: number;
+    /** Hodiny plánovače (testy je nahrazují). */
+    now?: () => Date;
+    /** Změny drží sdílený zámek zálohy jako příkazy měnící účty. */
+    snapshotLock?: SnapshotLock;
+    audit?: AuditLog;
+}
+
+/**
+ * Plánovač úroků a poplatků za vedení účtu pro všechny účty této banky.
+ * Každé pravidlo se za jedno období (poslední spuštění podle schedule) provede nejvýše jednou: běh, změna každého účtu
+ * (záměr před zápisem zůstatku a potvrzení po něm) i konec běhu se trvale zapisují do logu plánovače. Po restartu se
+ * nedokončené změny dokončí, rozpracovaný běh pokračuje jen u zbývajících účtů a provedené období se neopakuje.
+ * Zmeškaná období (server byl vypnutý) se nedohánějí, provede se jen poslední z nich.
+ * Nové pravidlo začíná platit až od dalšího období. Zůstatky se mění stejně jako u AD/AW: pod zámkem účtu
+ * přes store.setBalance (kód IN nebo FE v historii účtu) se záznamem v auditu.
+ */
+export class Scheduler {
+    private jobs: Job[];
+    /** Poslední provedené (nebo přeskočené) období každého pravidla. */
+    private applied = new Map<string, string>();
+    private runs = new Map<string, Run>();
+    private queue: Promise<void> = Promise.resolve();
+    private timer: NodeJS.Timeout | null = null;
+    private running: Promise<void> | null = null;
+    private stopped = false;
+
+    constructor(
+        private store: AccountStore,
+        private locks: AccountLockManager,
+        private logger: Logger,
+        private options: SchedulerOptions
+    ) {
+        this.jobs = options.rules.map(toJob);
+    }
+
+    private now(): Date {
+        return this.options.now ? this.options.now() : new Date();
+    }
+
+    /**
+     * Načte log plánovače a dokončí změny zůstatků, které před pádem nestihly potvrzení.
+     */
+    public async init(): Promise<void> {
+        await fs.mkdir(path.dirname(this.options.logFile), { recursive: true });
+
+        let content = '';
+        try {
+            content = await fs.readFile(this.options.logFile, 'utf8');
+        } catch (err: any) {
+            if (err.code !== 'ENOENT') throw err;
+        }
+
+        const pendingApply = new Map<string, Extract<LogLine, { type: 'apply' }>>();
+        for (const raw of content.split('\n')) {
+            if (!raw.trim()) continue;
+            let line: LogLine;
+            try {
+                line = JSON.parse(raw);
+            } catch {
+                continue; // Useknutý poslední řádek po pádu
+            }
+            const run = this.runs.get(line.rule);
+            if (line.type === 'run') {
+                this.runs.set(line.rule, { period: line.period, done: new Set(), total: BigInt(line.total ?? 0) });
+            } else if (line.type === 'apply') {
+                pendingApply.set(`${line.rule}:${line.account}`, line);
+            } else if (line.type === 'account') {
+                pendingApply.delete(`${line.rule}:${line.account}`);
+                run?.done.add(line.account);
+                if (run) run.total += BigInt(line.amount);
+            } else {
+                this.runs.delete(line.rule);
+                this.applied.set(line.rule, line.period);
+            }
+        }
+
+        for (const line of pendingApply.values()) {
+            const run = this.runs.get(line.rule);
+            run?.done.add(line.account);
+            if (!await this.store.find(line.account)) {
+                // Účet byl mezitím zrušen - změna se zahodí, aby nezablokovala start serveru
+                this.logger.warn(`Plánovač: ${line.rule} za ${line.period} - účet ${line.account} už neexistuje, nepotvrzená změna se vynechá.`);
+                continue;
+            }
+            const job = this.jobs.find(job => job.name === line.rule);
+            await this.store.setBalance(line.account, BigInt(line.after), job?.operation ?? 'IN');
+            if (run) run.total += BigInt(line.after) - BigInt(line.before);
+            this.logger.warn(`Plánovač: ${line.rule} za ${line.period} - dokončena nepotvrzená změna účtu ${line.account}.`);
+        }
+
+        // Pravidla, která už v konfiguraci nejsou, se zapomenou; nová začnou až dalším obdobím
+        for (const name of [...this.applied.keys(), ...this.runs.keys()]) {
+            if (this.jobs.some(job => job.name === name)) continue;
+            this.applied.delete(name);
+            if (this.runs.delete(name)) this.logger.warn(`Plánovač: pravidlo ${name} už není v SCHEDULE, jeho rozpracovaný běh se nedokončí.`);
+        }
+        for (const job of this.jobs) {
+            if (this.applied.has(job.name) || this.runs.has(job.name)) continue;
+            const latest = job.timing(this.now());
+            if (latest) this.applied.set(job.name, latest.toISOString());
+            this.logger.info(`Plánovač: nové pravidlo ${job.name} platí od dalšího období.`);
+        }
+
+        await this.compact();
+    }
+
+    /**
+     * Spustí pravidelnou kontrolu pravidel (a hned první, která dokončí běhy přerušené restartem).
+     */
+    public start() {
+        this.stopped = false;
+        this.timer = setInterval(() => this.tick(), this.options.checkIntervalMs ?? 60000);
+        this.tick();
+    }
+
+    /**
+     * Zastaví plánovač; rozpracovaný běh skončí po aktuálním účtu a dokončí se po dalším startu.
+     */
+    public async stop(): Promise<void> {
+        this.stopped = true;
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        await this.running;
+    }
+
+    /**
+     * Provede všechna pravidla, kterým podle hodin plánovače začalo nové období. Souběžná volání počkají na jeden běh.
+     */
+    public tick(): Promise<void> {
+        if (!this.running) {
+            this.running = this.runDue().finally(() => {
+                this.running = null;
+            });
+        }
+        return this.running;
+    }
+
+    private async runDue(): Promise<void> {
+        for (const job of this.jobs) {
+            try {
+                // Nejdřív se dokončí běh přerušený pádem nebo chybou, teprve potom případné novější období
+                const interrupted = this.runs.get(job.name);
+                if (interrupted) await this.runJob(job, interrupted.period);
+
+                const latest = job.timing(this.now());
+                const period = latest?.toISOString();
+                const last = this.applied.get(job.name);
+                if (this.stopped || !period || period === last || this.runs.has(job.name)) continue;
+
+                const previous = job.timing(new Date(latest!.getTime() - 1));
+                if (last && previous && previous.toISOString() > last) {
+                    this.logger.warn(`Plánovač: ${job.name} - zmeškaná období po ${last} se přeskočí, provede se jen ${period}.`);
+                }
+                await this.runJob(job, period);
+            } catch (err: any) {
+                this.logger.error(`Plánovač: ${job.name} se nepodařilo dokončit, zkusí se znovu: ${err.message}`);
+            }
+        }
+    }
+
+    private async runJob(job: Job, period: string): Promise<void> {
+        let run = this.runs.get(job.name);
+        if (!run) {
+            run = { period, done: new Set(), total: 0n };
+            await this.append({ type: 'run', rule: job.name, period });
+            this.runs.set(job.name, run);
+        }
+
+        const accounts = (await this.store.list()).map(account => account.number).sort();
+        for (const number of accounts) {
+            if (this.stopped) return;
+            if (run.done.has(number)) continue;
+            await this.applyJob(job, run, number);
+        }
+
+        await this.append({ type: 'done', rule: job.name, period, accounts: run.done.size, total: run.total.toString() });
+        this.runs.delete(job.name);
+        this.applied.set(job.name, period);
+        this.logger.info(`Plánovač: ${job.name} za ${period} - ${run.done.size} účtů, změna celkem ${run.total}.`);
+        await this.compact();
+    }
+
+    private async applyJob(job: Job, run: Run, number: string): Promise<void> {
+        const apply = () => this.locks.runExclusive(number, async () => {
+            const account = await this.store.find(number);
+            if (!account) return; // Účet mezitím zrušen
+
+            const before = account.balance;
+            const amount = job.change(before);
+            if (amount !== 0n) {
+                const after = before + amount;
+                await this.append({ type: 'apply', rule: job.name, period: run.period, account: number, before: before.toString(), after: after.toString() });
+                await this.store.setBalance(number, after, job.operation);
+                await this.append({ type: 'account', rule: job.name, period: run.period, account: number, amount: amount.toString() });
+                run.total += amount;
+                await this.options.audit?.append({
+                    remote: `scheduler:${job.name}`,
+                    command: job.operation,
+                    account: number,
+                    amount: (amount < 0n ? -amount : amount).toString(),
+                    before: before.toString(),
+                    after: after.toString(),
+                    outcome: 'OK'
+                }).catch(err => this.logger.error(`Audit: záznam o ${job.operation} účtu ${number} se nepodařilo zapsat: ${err.message}`));
+            }
+            run.done.add(number);
+        }, this.options.lockTimeoutMs);
+
+        await (this.options.snapshotLock ? this.options.snapshotLock.runShared(apply) : apply());
+    }
+
+    /** Log se přepíše jen posledním obdobím každého pravidla a rozpracovanými běhy, aby nerostl donekonečna. */
+    private async compact(): Promise<void> {
+        const lines: LogLine[] = [...this.applied].map(([rule, period]) => ({ type: 'skip', rule, period }));
+        for (const [rule, run] of this.runs) {
+            lines.push({ type: 'run', rule, period: run.period, total: run.total.toString() });
+            for (const account of run.done) lines.push({ type: 'account', rule, period: run.period, account, amount: '0' });
+        }
+        await this.queue;
+        await writeFileAtomic(this.options.logFile, lines.map(line => JSON.stringify(line) + '\n').join(''));
+    }
+
+    private append(line: LogLine): Promise<void> {
+        const result = this.queue.then(async () => {
+            const handle = await fs.open(this.options.logFile, 'a');
+            try {
+                await handle.write(JSON.stringify(line) + '\n');
+                await handle.sync();
+            } finally {
+                await handle.close();
+            }
+        });
+        this.queue = result.catch(() => {});
+        return result;
+    }
+}
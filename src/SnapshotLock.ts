@@ -0,0 +1,45 @@
+/**
+ * Zámek pro zálohu celé banky. Příkazy měnící účty běží souběžně (runShared), záloha (runExclusive) počká,
+ * až rozpracované doběhnou, a po dobu kopie stavu nepustí nové - klienti tak čekají jen na samotnou kopii.
+ */
+export class SnapshotLock {
+    private active = 0;
+    private exclusive: Promise<void> | null = null;
+    private drained: (() => void) | null = null;
+
+    public async runShared<T>(fn: () => Promise<T>): Promise<T> {
+        while (this.exclusive) await this.exclusive;
+        this.active++;
+        try {
+            return await fn();
+        } finally {
+            this.active--;
+            if (this.active === 0) this.drained?.();
+        }
+    }
+
+    /**
+     * Provede fn, když neběží žádná sdílená operace. Pokud rozpracované operace nedoběhnou do waitTimeoutMs,
+     * zámek se uvolní a vyhodí chybu - záloha se nepovede, ale klienti nečekají.
+     */
+    public async runExclusive<T>(fn: () => Promise<T>, waitTimeoutMs: number): Promise<T> {
+        while (this.exclusive) await this.exclusive;
+        let release!: () => void;
+        this.exclusive = new Promise(resolve => release = resolve);
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            if (this.active > 0) {
+                await new Promise<void>((resolve, reject) => {
+                    this.drained = resolve;
+                    timer = setTimeout(() => reject(new Error(`rozpracované operace nedoběhly do ${waitTimeoutMs} ms`)), waitTimeoutMs);
+                });
+            }
+            return await fn();
+        } finally {
+            clearTimeout(timer);
+            this.drained = null;
+            this.exclusive = null;
+            release();
+        }
+    }
+}
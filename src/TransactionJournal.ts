@@ -0,0 +1,150 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Logger } from 'winston';
+
+interface JournalEntry {
+    id: number;
+    state: 'BEGIN' | 'COMMIT';
+    op?: string;
+    file?: string;
+    before?: string | null;
+    after?: string | null;
+}
+
+/**
+ * Write-ahead žurnál změn účtů.
+ * Každá změna (AC/AD/AW/AR) se nejdřív zapíše do žurnálu jako BEGIN i s původním a novým obsahem souboru,
+ * potom se atomicky (dočasný soubor + rename) aplikuje a nakonec se potvrdí záznamem COMMIT.
+ * Klient dostane odpověď až po COMMIT, takže nedokončené operace se při startu vrací do původního stavu.
+ */
+export class TransactionJournal {
+    private journalFile: string;
+    private logger?: Logger;
+    private nextId = 1;
+    private pending = 0;
+    private appended = 0;
+    private queue: Promise<void> = Promise.resolve();
+    private checkpointEvery: number;
+
+    constructor(journalFile: string, logger?: Logger, checkpointEvery: number = 1000) {
+        this.journalFile = journalFile;
+        this.logger = logger;
+        this.checkpointEvery = checkpointEvery;
+    }
+
+    /**
+     * Aplikuje změnu jednoho souboru účtu. after === null znamená smazání souboru.
+     */
+    public async apply(op: string, file: string, before: string | null, after: string | null): Promise<void> {
+        const id = this.nextId++;
+        this.pending++;
+        try {
+            await this.append({ id, state: 'BEGIN', op, file, before, after });
+            await writeFileAtomic(file, after);
+            await this.append({ id, state: 'COMMIT' });
+        } finally {
+            this.pending--;
+        }
+        if (this.appended >= this.checkpointEvery) {
+            await this.checkpoint();
+        }
+    }
+
+    /**
+     * Obnova po pádu: vrátí všechny nepotvrzené změny do původního stavu,
+     * uklidí rozepsané dočasné soubory a vyprázdní žurnál.
+     * Vrací počet vrácených operací.
+     */
+    public async recover(accountsDir?: string): Promise<number> {
+        await fs.mkdir(path.dirname(this.journalFile), { recursive: true });
+
+        let content = '';
+        try {
+            content = await fs.readFile(this.journalFile, 'utf8');
+        } catch (err: any) {
+            if (err.code !== 'ENOENT') throw err;
+        }
+
+        const begun = new Map<number, JournalEntry>();
+        for (const line of content.split('\n')) {
+            if (!line.trim()) continue;
+            let entry: JournalEntry;
+            try {
+                entry = JSON.parse(line);
+            } catch {
+                // Useknutý poslední řádek po pádu - operace nebyla potvrzena
+                continue;
+            }
+            if (entry.state === 'BEGIN') begun.set(entry.id, entry);
+            else begun.delete(entry.id);
+        }
+
+        // Vracíme od nejnovější operace, aby u stejného souboru zůstal nejstarší původní stav
+        const unfinished = [...begun.values()].sort((a, b) => b.id - a.id);
+        for (const entry of unfinished) {
+            await writeFileAtomic(entry.file!, entry.before ?? null);
+            this.logger?.warn(`Žurnál: vrácena nedokončená operace ${entry.op} (${path.basename(entry.file!)}).`);
+        }
+
+        if (accountsDir) {
+            for (const file of await fs.readdir(accountsDir)) {
+                if (file.endsWith('.tmp')) await fs.rm(path.join(accountsDir, file), { force: true });
+            }
+        }
+
+        await fs.writeFile(this.journalFile, '');
+        this.appended = 0;
+        return unfinished.length;
+    }
+
+    /**
+     * Zkrátí žurnál, pokud právě neprobíhá žádná operace.
+     */
+    private checkpoint(): Promise<void> {
+        return this.enqueue(async () => {
+            if (this.pending > 0 || this.appended < this.checkpointEvery) return;
+            await fs.writeFile(this.journalFile, '');
+            this.appended = 0;
+        });
+    }
+
+    private append(entry: JournalEntry): Promise<void> {
+        return this.enqueue(async () => {
+            const handle = await fs.open(this.journalFile, 'a');
+            try {
+                await handle.write(JSON.stringify(entry) + '\n');
+                await handle.sync();
+            } finally {
+                await handle.close();
+            }
+            this.appended++;
+        });
+    }
+
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => {});
+        return result;
+    }
+}
+
+/**
+ * Atomický zápis souboru přes dočasný soubor a rename.
+ * content === null soubor smaže.
+ */
+export async function writeFileAtomic(file: string, content: string | Buffer | null): Promise<void> {
+    if (content === null) {
+        await fs.rm(file, { force: true });
+        return;
+    }
+
+    const tmp = `${file}.tmp`;
+    const handle = await fs.open(tmp, 'w');
+    try {
+        await handle.writeFile(content);
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+    await fs.rename(tmp, file);
+}
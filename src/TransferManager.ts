@@ -0,0 +1,515 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { Logger } from 'winston';
+import { Account, AccountStore, availableBalance } from './storage/index.js';
+import { AccountLockManager } from './AccountLockManager.js';
+import { AuditLog } from './AuditLog.js';
+import { SnapshotLock } from './SnapshotLock.js';
+import { writeFileAtomic } from './TransactionJournal.js';
+import { BankError, ErrorKey, ErrorParams, parseErrorReply } from './errors.js';
+
+/**
+ * Odeslání jednoho řádku protokolu jiné bance, vrací řádek odpovědi (v běžném provozu proxyCommand).
+ */
+export type TransferSender = (bankCode: string, commandLine: string, timeoutMs: number) => Promise<string>;
+
+export type LegKind = 'W' | 'D';
+
+export interface AccountRef {
+    account: string;
+    bank: string;
+}
+
+interface ParticipantRecord {
+    role: 'participant';
+    id: string;
+    coordinator: string;
+    kind: LegKind;
+    account: string;
+    amount: string;
+    state: 'PREPARED' | 'COMMITTED' | 'ABORTED';
+    updatedAt: number;
+}
+
+interface CoordinatorRecord {
+    role: 'coordinator';
+    id: string;
+    coordinator: string;
+    from: AccountRef;
+    to: AccountRef;
+    amount: string;
+    state: 'STARTED' | 'COMMITTING' | 'COMMITTED' | 'ABORTING' | 'ABORTED';
+    updatedAt: number;
+}
+
+type TransferRecord = ParticipantRecord | CoordinatorRecord;
+
+/**
+ * Jak dlouho se pamatují dokončené převody: opakované TC/TA nebo TQ, jehož odpověď se ztratila, tak ještě dostane
+ * stejnou odpověď. Potom se převod zapomene a z logu zmizí při příštím startu.
+ */
+const FINISHED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Řádek logu převodů: buď aktuální stav převodu, nebo záměr změnit zůstatek.
+ * Záměr se zapíše před změnou zůstatku a po ní následuje nový stav, takže při obnově je vždy jasné,
+ * jestli se má změna dokončit (redo), nebo vrátit (undo).
+ */
+type LogLine =
+    | { type: 'tx'; record: TransferRecord }
+    | { type: 'apply'; record: ParticipantRecord; before: string; after: string; recover: 'redo' | 'undo' };
+
+export interface TransferOptions {
+    logFile: string;
+    /** Časový limit jednoho kroku (TP/TC/TA) vůči cizí bance. */
+    stepTimeoutMs: number;
+    /** Po jaké době se připravený účastník sám zeptá koordinátora na výsledek. */
+    prepareTimeoutMs: number;
+    /** Interval, ve kterém se opakují nedokončené commity a aborty. */
+    retryIntervalMs: number;
+    /** Ověření PINu před stržením peněz z účtu této banky; vyhodí chybu, pokud výběr není povolen. */
+    authorizeWithdrawal?: (account: Account, pin: string | undefined) => Promise<void>;
+    /** Úvěrový limit účtů bez vlastního limitu (CREDIT_LIMIT), jinak 0. */
+    defaultCreditLimit?: () => bigint;
+    /** Auditní log; každá změna zůstatku (TP, TC, TA i obnova po pádu) se do něj zapíše. */
+    audit?: AuditLog;
+    /** Dokončování převodů na pozadí drží sdílený zámek zálohy jako příkazy měnící účty. */
+    snapshotLock?: SnapshotLock;
+}
+
+/**
+ * Převod odmítnutý dřív, než se cokoli změnilo (špatné účty, odmítnutí nebo nedostupnost druhé banky).
+ */
+export class TransferRejectedError extends BankError {
+    constructor(key: ErrorKey, params: ErrorParams = {}) {
+        super(key, params);
+    }
+}
+
+/**
+ * Převody mezi účty (AT) pomocí dvoufázového commitu.
+ * Banka, která AT přijala, je koordinátor: nejdřív si od obou stran vyžádá přípravu (TP - u výběru se peníze rovnou
+ * zablokují stržením), potom zapíše rozhodnutí a pošle commit (TC) nebo abort (TA).
+ * Každý krok se trvale zapisuje do logu převodů, takže po restartu se nedokončené převody dokončí nebo vrátí.
+ */
+export class TransferManager {
+    private records = new Map<string, TransferRecord>();
+    private queue: Promise<void> = Promise.resolve();
+    private timer: NodeJS.Timeout | null = null;
+    private resuming = false;
+
+    constructor(
+        private store: AccountStore,
+        private locks: AccountLockManager,
+        private logger: Logger,
+        private send: TransferSender,
+        private options: TransferOptions
+    ) {}
+
+    /**
+     * Načte log převodů a dokončí rozpracované změny zůstatků.
+     * Převody, u kterých koordinátor před pádem nestihl rozhodnout, se označí k vrácení.
+     */
+    public async init(): Promise<void> {
+        await fs.mkdir(path.dirname(this.options.logFile), { recursive: true });
+
+        let content = '';
+        try {
+            content = await fs.readFile(this.options.logFile, 'utf8');
+        } catch (err: any) {
+            if (err.code !== 'ENOENT') throw err;
+        }
+
+        const pendingApply = new Map<string, Extract<LogLine, { type: 'apply' }>>();
+        for (const raw of content.split('\n')) {
+            if (!raw.trim()) continue;
+            let line: LogLine;
+            try {
+                line = JSON.parse(raw);
+            } catch {
+                continue; // Useknutý poslední řádek po pádu
+            }
+            const key = recordKey(line.record);
+            if (line.type === 'apply') {
+                pendingApply.set(key, line);
+            } else {
+                pendingApply.delete(key);
+                this.records.set(key, line.record);
+            }
+        }
+
+        for (const [key, line] of pendingApply) {
+            const record = { ...line.record, updatedAt: Date.now() };
+            if (!await this.store.find(record.account)) {
+                // Účet byl mezitím zrušen - změna se zahodí a převod se uzavře, aby nezablokoval start serveru
+                if (line.recover === 'undo') record.state = 'ABORTED';
+                this.records.set(key, record);
+                this.logger.error(`Převod ${record.id}: účet ${record.account} už neexistuje, nedokončená změna (${line.recover}) se vynechá.`);
+                continue;
+            }
+            if (line.recover === 'redo') {
+                await this.store.setBalance(record.account, BigInt(line.after), 'AT');
+                // Audit se zapisuje až po dokončení změny, takže dokončená změna v něm ještě není
+                await this.auditChange(record, BigInt(line.before), BigInt(line.after));
+            } else {
+                await this.store.setBalance(record.account, BigInt(line.before), 'AT');
+                record.state = 'ABORTED';
+            }
+            this.records.set(key, record);
+            this.logger.warn(`Převod ${record.id}: obnovena nedokončená změna účtu ${record.account} (${line.recover}).`);
+        }
+
+        for (const record of this.records.values()) {
+            if (record.role === 'coordinator' && record.state === 'STARTED') {
+                record.state = 'ABORTING';
+                this.logger.warn(`Převod ${record.id}: nerozhodnut před restartem, bude vrácen.`);
+            }
+        }
+
+        // Log se přepíše jen posledními stavy nedokončených a nedávno dokončených převodů, aby nerostl donekonečna
+        this.forgetFinished();
+        const compacted = [...this.records.values()].map(record => JSON.stringify({ type: 'tx', record }) + '\n');
+        await writeFileAtomic(this.options.logFile, compacted.join(''));
+    }
+
+    /**
+     * Spustí periodické dokončování rozpracovaných převodů.
+     */
+    public start() {
+        this.timer = setInterval(() => this.resumePending(), this.options.retryIntervalMs);
+        this.resumePending();
+    }
+
+    public stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Koordinátor: převede amount z účtu from na účet to.
+     * Alespoň jeden z účtů musí být veden touto bankou (bankCode).
+     * pin patří účtu from; bance, která ho vede, se předá v TP a do logu převodů se neukládá.
+     */
+    public async transfer(from: AccountRef, to: AccountRef, amount: bigint, bankCode: string, pin?: string): Promise<void> {
+        if (from.bank !== bankCode && to.bank !== bankCode) {
+            throw new TransferRejectedError('TRANSFER_FOREIGN_ACCOUNTS');
+        }
+        if (from.account === to.account && from.bank === to.bank) {
+            throw new TransferRejectedError('TRANSFER_SAME_ACCOUNT');
+        }
+
+        const record: CoordinatorRecord = {
+            role: 'coordinator',
+            id: crypto.randomUUID(),
+            coordinator: bankCode,
+            from,
+            to,
+            amount: amount.toString(),
+            state: 'STARTED',
+            updatedAt: Date.now()
+        };
+        await this.save(record);
+
+        try {
+            await this.prepareLeg(record, 'W', from, pin);
+            await this.prepareLeg(record, 'D', to);
+        } catch (err) {
+            await this.setState(record, 'ABORTING');
+            await this.finish(record);
+            throw err;
+        }
+
+        // Od tohoto zápisu je převod rozhodnutý a po případném pádu se už jen dokončí
+        await this.setState(record, 'COMMITTING');
+        if (!await this.finish(record)) {
+            this.logger.warn(`Převod ${record.id}: commit u cizí banky se nepodařil, bude opakován.`);
+        }
+        this.logger.info(`Převod ${record.id}: ${amount} z ${from.account}/${from.bank} na ${to.account}/${to.bank}.`);
+    }
+
+    /**
+     * Účastník (TP): připraví svou část převodu. U výběru ověří PIN a peníze rovnou strhne, u vkladu jen ověří účet.
+     */
+    public async prepare(id: string, coordinator: string, kind: LegKind, account: string, amount: bigint, pin?: string): Promise<void> {
+        await this.locks.runExclusive(account, async () => {
+            // Stav se kontroluje až pod zámkem, aby opakovaná příprava nestrhla peníze dvakrát
+            const existing = this.participant(id, kind);
+            if (existing) {
+                if (existing.state === 'ABORTED') throw new BankError('TRANSFER_ABORTED');
+                return;
+            }
+
+            const acc = await this.store.find(account);
+            if (!acc) throw new BankError('ACCOUNT_NOT_FOUND');
+
+            const record: ParticipantRecord = {
+                role: 'participant',
+                id,
+                coordinator,
+                kind,
+                account,
+                amount: amount.toString(),
+                state: 'PREPARED',
+                updatedAt: Date.now()
+            };
+
+            if (kind === 'W') {
+                await this.options.authorizeWithdrawal?.(acc, pin);
+                if (amount > availableBalance(acc, this.options.defaultCreditLimit?.() ?? 0n)) throw new BankError('LOW_FUNDS');
+                await this.applyChange(record, acc.balance, acc.balance - amount, 'undo');
+            } else {
+                await this.save(record);
+            }
+        });
+    }
+
+    /**
+     * Účastník (TC): dokončí připravenou část převodu. U vkladu teprve teď připíše peníze, a to až když commit
+     * potvrdí koordinátor (TQ) - samotné TC by jinak stačilo k připsání peněz, které nikdo nestrhl.
+     * Opakované volání nic nezmění.
+     */
+    public async commit(id: string, kind: LegKind): Promise<void> {
+        const known = this.participant(id, kind);
+        if (!known) throw new BankError('UNKNOWN_TRANSFER');
+        if (kind === 'D' && known.state === 'PREPARED') {
+            const state = await this.askCoordinator(known);
+            if (state === 'ABORTED') throw new BankError('TRANSFER_ABORTED');
+            if (state !== 'COMMITTED') throw new BankError('TRANSFER_NOT_CONFIRMED', { reason: state });
+        }
+        await this.commitConfirmed(id, kind);
+    }
+
+    private async commitConfirmed(id: string, kind: LegKind): Promise<void> {
+        const known = this.participant(id, kind)!;
+        await this.locks.runExclusive(known.account, async () => {
+            const record = this.participant(id, kind)!;
+            if (record.state === 'COMMITTED') return;
+            if (record.state === 'ABORTED') throw new BankError('TRANSFER_ABORTED');
+
+            if (kind === 'W') {
+                await this.save({ ...record, state: 'COMMITTED', updatedAt: Date.now() });
+                return;
+            }
+
+            const acc = await this.store.find(record.account);
+            if (!acc) throw new BankError('ACCOUNT_NOT_FOUND');
+            await this.applyChange({ ...record, state: 'COMMITTED' }, acc.balance, acc.balance + BigInt(record.amount), 'redo');
+        });
+    }
+
+    /**
+     * Účastník (TA): zruší připravenou část převodu a u výběru vrátí stržené peníze.
+     * Abort neznámého převodu se zapamatuje, aby ho pozdě doručená příprava už nezaložila.
+     */
+    public async abort(id: string, kind: LegKind): Promise<void> {
+        const known = this.participant(id, kind);
+        if (!known) {
+            await this.save({
+                role: 'participant', id, coordinator: '', kind, account: '', amount: '0', state: 'ABORTED', updatedAt: Date.now()
+            });
+            return;
+        }
+
+        await this.locks.runExclusive(known.account, async () => {
+            const record = this.participant(id, kind)!;
+            if (record.state === 'ABORTED') return;
+            if (record.state === 'COMMITTED') throw new BankError('TRANSFER_COMMITTED');
+
+            if (kind === 'D') {
+                await this.save({ ...record, state: 'ABORTED', updatedAt: Date.now() });
+                return;
+            }
+
+            const acc = await this.store.find(record.account);
+            if (!acc) throw new BankError('ACCOUNT_NOT_FOUND');
+            await this.applyChange({ ...record, state: 'ABORTED' }, acc.balance, acc.balance + BigInt(record.amount), 'redo');
+        });
+    }
+
+    /**
+     * Koordinátor (TQ): výsledek převodu pro účastníka, který se nedočkal rozhodnutí.
+     * Převod, který koordinátor nezná, se považuje za zrušený.
+     */
+    public status(id: string): 'COMMITTED' | 'ABORTED' | 'PENDING' {
+        const record = this.records.get(`coordinator:${id}`) as CoordinatorRecord | undefined;
+        if (!record) return 'ABORTED';
+        if (record.state === 'COMMITTING' || record.state === 'COMMITTED') return 'COMMITTED';
+        if (record.state === 'STARTED') return 'PENDING';
+        return 'ABORTED';
+    }
+
+    /**
+     * Zopakuje nedokončené commity/aborty a u dlouho připravených účastníků se zeptá koordinátora.
+     */
+    public async resumePending(): Promise<void> {
+        if (this.resuming) return;
+        this.resuming = true;
+        try {
+            this.forgetFinished();
+            for (const record of [...this.records.values()]) {
+                const resume = async () => {
+                    if (record.role === 'coordinator' && (record.state === 'COMMITTING' || record.state === 'ABORTING')) {
+                        await this.finish(record);
+                    } else if (record.role === 'participant' && record.state === 'PREPARED') {
+                        await this.resolveParticipant(record);
+                    }
+                };
+                try {
+                    await (this.options.snapshotLock ? this.options.snapshotLock.runShared(resume) : resume());
+                } catch (err: any) {
+                    this.logger.error(`Převod ${record.id}: dokončení se nezdařilo: ${err.message}`);
+                }
+            }
+        } finally {
+            this.resuming = false;
+        }
+    }
+
+    private async resolveParticipant(record: ParticipantRecord) {
+        // Části převodu, které koordinuje tato banka, dokončuje sám koordinátor
+        if (this.records.has(`coordinator:${record.id}`)) return;
+        if (Date.now() - record.updatedAt < this.options.prepareTimeoutMs) return;
+
+        const state = await this.askCoordinator(record);
+        if (state === 'COMMITTED') await this.commitConfirmed(record.id, record.kind);
+        else if (state === 'ABORTED') await this.abort(record.id, record.kind);
+    }
+
+    /**
+     * Výsledek převodu podle koordinátora (TQ). Převod koordinovaný touto bankou se nikam neposílá.
+     */
+    private async askCoordinator(record: ParticipantRecord): Promise<string> {
+        if (this.records.has(`coordinator:${record.id}`)) return this.status(record.id);
+        let response: string;
+        try {
+            response = await this.send(record.coordinator, `TQ ${record.id}`, this.options.stepTimeoutMs);
+        } catch (err: any) {
+            throw new BankError('TRANSFER_PEER_UNAVAILABLE', { bank: record.coordinator, reason: err.message });
+        }
+        const [code, id, state] = response.split(/\s+/);
+        return code === 'TQ' && id === record.id && state ? state : response;
+    }
+
+    private async prepareLeg(record: CoordinatorRecord, kind: LegKind, ref: AccountRef, pin?: string) {
+        if (ref.bank === record.coordinator) {
+            await this.prepare(record.id, record.coordinator, kind, ref.account, BigInt(record.amount), pin);
+            return;
+        }
+
+        const line = `TP ${record.id} ${record.coordinator} ${kind} ${ref.account}/${ref.bank} ${record.amount}${pin ? ` ${pin}` : ''}`;
+        let response: string;
+        try {
+            response = await this.send(ref.bank, line, this.options.stepTimeoutMs);
+        } catch (err: any) {
+            throw new TransferRejectedError('TRANSFER_PEER_UNAVAILABLE', { bank: ref.bank, reason: err.message });
+        }
+        if (response !== `TP ${record.id}`) {
+            // Důvod odmítnutí se klientovi přeloží do jeho jazyka, pokud ho druhá banka poslala s kódem
+            const reason = parseErrorReply(response) ?? new BankError('PEER_REPLY', { reason: response });
+            throw new TransferRejectedError('TRANSFER_PEER_REJECTED', { bank: ref.bank, reason });
+        }
+    }
+
+    /**
+     * Rozešle rozhodnutí koordinátora oběma stranám. Vrací true, pokud obě potvrdily.
+     */
+    private async finish(record: CoordinatorRecord): Promise<boolean> {
+        const commit = record.state === 'COMMITTING';
+        let done = true;
+
+        for (const [kind, ref] of [['W', record.from], ['D', record.to]] as [LegKind, AccountRef][]) {
+            try {
+                await this.finishLeg(record, kind, ref, commit);
+            } catch (err: any) {
+                done = false;
+                this.logger.error(`Převod ${record.id}: ${commit ? 'commit' : 'abort'} u ${ref.bank} selhal: ${err.message}`);
+            }
+        }
+
+        if (done) await this.setState(record, commit ? 'COMMITTED' : 'ABORTED');
+        return done;
+    }
+
+    private async finishLeg(record: CoordinatorRecord, kind: LegKind, ref: AccountRef, commit: boolean) {
+        if (ref.bank === record.coordinator) {
+            if (commit) await this.commit(record.id, kind);
+            else await this.abort(record.id, kind);
+            return;
+        }
+
+        const code = commit ? 'TC' : 'TA';
+        const response = await this.send(ref.bank, `${code} ${record.id} ${kind}`, this.options.stepTimeoutMs);
+        if (response !== `${code} ${record.id}`) throw new Error(response);
+    }
+
+    /** Zapomene převody dokončené před víc než FINISHED_RETENTION_MS; log zůstává, pročistí se při startu. */
+    private forgetFinished() {
+        const cutoff = Date.now() - FINISHED_RETENTION_MS;
+        for (const [key, record] of this.records) {
+            const finished = record.state === 'COMMITTED' || record.state === 'ABORTED';
+            if (finished && record.updatedAt < cutoff) this.records.delete(key);
+        }
+    }
+
+    private participant(id: string, kind: LegKind): ParticipantRecord | undefined {
+        return this.records.get(`participant:${id}:${kind}`) as ParticipantRecord | undefined;
+    }
+
+    private async setState(record: CoordinatorRecord, state: CoordinatorRecord['state']) {
+        record.state = state;
+        record.updatedAt = Date.now();
+        await this.save(record);
+    }
+
+    private async applyChange(record: ParticipantRecord, before: bigint, after: bigint, recover: 'redo' | 'undo') {
+        await this.append({ type: 'apply', record, before: before.toString(), after: after.toString(), recover });
+        await this.store.setBalance(record.account, after, 'AT');
+        await this.save({ ...record, updatedAt: Date.now() });
+        await this.auditChange(record, before, after);
+    }
+
+    /**
+     * Zápis změny zůstatku do auditu. Příkaz podle stavu části převodu: TP stržení při přípravě, TC připsání vkladu,
+     * TA vrácení stržených peněz.
+     */
+    private async auditChange(record: ParticipantRecord, before: bigint, after: bigint) {
+        if (!this.options.audit) return;
+        const command = { PREPARED: 'TP', COMMITTED: 'TC', ABORTED: 'TA' }[record.state];
+        const amount = after - before;
+        await this.options.audit.append({
+            remote: `transfer:${record.id}`,
+            command,
+            account: record.account,
+            amount: (amount < 0n ? -amount : amount).toString(),
+            before: before.toString(),
+            after: after.toString(),
+            outcome: 'OK'
+        }).catch(err => this.logger.error(`Audit: záznam o ${command} účtu ${record.account} se nepodařilo zapsat: ${err.message}`));
+    }
+
+    private async save(record: TransferRecord) {
+        await this.append({ type: 'tx', record });
+        this.records.set(recordKey(record), record);
+    }
+
+    private append(line: LogLine): Promise<void> {
+        const result = this.queue.then(async () => {
+            const handle = await fs.open(this.options.logFile, 'a');
+            try {
+                await handle.write(JSON.stringify(line) + '\n');
+                await handle.sync();
+            } finally {
+                await handle.close();
+            }
+        });
+        this.queue = result.catch(() => {});
+        return result;
+    }
+}
+
+function recordKey(record: TransferRecord): string {
+    return record.role === 'coordinator' ? `coordinator:${record.id}` : `participant:${record.id}:${record.kind}`;
+}
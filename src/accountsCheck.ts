@@ -0,0 +1,35 @@
+import { checkAccountFiles, formatIntegrityReport, writeIntegrityReport } from './storage/index.js';
+import { AppConfig, ConfigError, loadConfig } from './config.js';
+
+/**
+ * Kontrola souborů účtů mimo server: `npm run accounts:check -- [--quarantine] [adresář]`
+ * (bez adresáře ACCOUNTS_DIR z konfigurace). S `--quarantine` přesune vadné soubory do QUARANTINE_DIR a zapíše tam zprávu.
+ * Kód ukončení 0 = bez problémů, 1 = nalezeny problémy, 2 = adresář nelze zkontrolovat.
+ */
+async function main(): Promise<number> {
+    const args = process.argv.slice(2);
+    const quarantine = args.includes('--quarantine');
+    let CONFIG: AppConfig;
+    try {
+        CONFIG = loadConfig({ argv: [] });
+    } catch (err: any) {
+        if (!(err instanceof ConfigError)) throw err;
+        console.error(err.message);
+        return 2;
+    }
+    const dir = args.find(arg => !arg.startsWith('--')) ?? CONFIG.ACCOUNTS_DIR;
+
+    try {
+        const report = await checkAccountFiles(dir, quarantine ? CONFIG.QUARANTINE_DIR : undefined);
+        process.stdout.write(formatIntegrityReport(report));
+        if (quarantine && report.problems.length > 0) {
+            console.log(`Zpráva: ${await writeIntegrityReport(report, CONFIG.QUARANTINE_DIR)}`);
+        }
+        return report.problems.length === 0 ? 0 : 1;
+    } catch (err: any) {
+        console.error(`Chyba: ${err.message}`);
+        return 2;
+    }
+}
+
+process.exitCode = await main();
@@ -0,0 +1,34 @@
+import { verifyAuditLog } from './AuditLog.js';
+import { ConfigError, loadConfig } from './config.js';
+
+/**
+ * Kontrola auditního logu: `npm run audit:verify -- [adresář]` (bez adresáře AUDIT_DIR z konfigurace).
+ * Kód ukončení 0 = log je neporušený, 1 = nalezeny nesrovnalosti, 2 = log nelze přečíst.
+ */
+async function main(): Promise<number> {
+    let dir = process.argv[2];
+    try {
+        dir ??= loadConfig({ argv: [] }).AUDIT_DIR;
+    } catch (err: any) {
+        if (!(err instanceof ConfigError)) throw err;
+        console.error(err.message);
+        return 2;
+    }
+
+    try {
+        const result = await verifyAuditLog(dir);
+        for (const problem of result.problems) console.log(problem);
+        console.log(`Zkontrolováno ${result.entries} záznamů v ${result.files} souborech (${dir}).`);
+        if (result.firstSeq !== null && result.firstSeq > 1) {
+            console.log(`Záznamy před č. ${result.firstSeq} už smazala retence.`);
+        }
+        if (result.lastHash) console.log(`Poslední hash: ${result.lastHash}`);
+        console.log(result.problems.length === 0 ? 'Log je neporušený.' : `Nalezeno ${result.problems.length} nesrovnalostí.`);
+        return result.problems.length === 0 ? 0 : 1;
+    } catch (err: any) {
+        console.error(`Chyba: ${err.message}`);
+        return 2;
+    }
+}
+
+process.exitCode = await main();
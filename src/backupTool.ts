@@ -0,0 +1,146 @@
+import fs from 'node:fs/promises';
+import net from 'node:net';
+import { AccountWithHistory, createBackupArchive, exportAccounts, readAccountsWithHistory, readBackup, restoreBackupFiles, verifyBackup, writeBackup } from './Backup.js';
+import { AppConfig, ConfigError, loadConfig } from './config.js';
+import { createAccountStore } from './storage/index.js';
+
+/**
+ * Záloha, obnova a export účtů z příkazové řádky:
+ *  - `npm run backup -- [--offline]` - záloha do BACKUP_DIR,
+ *  - `npm run export -- csv|json [--out soubor] [--offline]` - export účtů (bez --out na standardní výstup),
+ *  - `npm run restore -- <soubor> [--force]` - ověření zálohy a obnova účtů (jen při zastaveném serveru).
+ * Záloha a export běžícího serveru jdou přes jeho HTTP správu (ADMIN_PORT), aby byly k jednomu okamžiku;
+ * --offline čte úložiště přímo a je jen pro zastavený server.
+ * Kód ukončení 0 = hotovo, 1 = záloha je poškozená nebo obnova odmítnuta, 2 = chyba (konfigurace, soubor, spojení).
+ */
+async function main(): Promise<number> {
+    const [mode, ...args] = process.argv.slice(2);
+    const positional = args.filter((arg, i) => !arg.startsWith('--') && args[i - 1] !== '--out');
+    const option = (name: string) => args.includes(name);
+
+    let CONFIG: AppConfig;
+    try {
+        CONFIG = loadConfig({ argv: [] });
+    } catch (err: any) {
+        if (!(err instanceof ConfigError)) throw err;
+        console.error(err.message);
+        return 2;
+    }
+
+    try {
+        switch (mode) {
+            case 'backup': {
+                if (option('--offline')) {
+                    const accounts = await readAccountsOffline(CONFIG, true);
+                    const archive = createBackupArchive(accounts, { storageType: CONFIG.STORAGE_TYPE });
+                    console.log(`Záloha ${await writeBackup(CONFIG.BACKUP_DIR, archive)}: ${archive.metadata.accounts} účtů, celkem ${archive.metadata.total}.`);
+                } else {
+                    const result = JSON.parse(await callAdmin(CONFIG, '/backup', 'POST'));
+                    console.log(`Záloha ${result.file}: ${result.accounts} účtů, celkem ${result.total}.`);
+                }
+                return 0;
+            }
+            case 'export': {
+                const [format] = positional;
+                if (format !== 'csv' && format !== 'json') {
+                    console.error('Použití: npm run export -- csv|json [--out soubor] [--offline]');
+                    return 2;
+                }
+                const content = option('--offline')
+                    ? exportAccounts(await readAccountsOffline(CONFIG), format)
+                    : await callAdmin(CONFIG, `/export?format=${format}`, 'GET');
+                const out = args[args.indexOf('--out') + 1];
+                if (option('--out') && out) {
+                    await fs.writeFile(out, content);
+                    console.log(`Export uložen do ${out}.`);
+                } else {
+                    process.stdout.write(content);
+                }
+                return 0;
+            }
+            case 'restore': {
+                const [file] = positional;
+                if (!file) {
+                    console.error('Použití: npm run restore -- <soubor zálohy> [--force]');
+                    return 2;
+                }
+                const archive = await readBackup(file);
+                const problems = verifyBackup(archive);
+                if (problems.length > 0) {
+                    for (const problem of problems) console.log(problem);
+                    console.log('Záloha je poškozená, nic se neobnovilo.');
+                    return 1;
+                }
+                const running = await runningServerPort(CONFIG);
+                if (running !== null) {
+                    console.log(`Server běží (port ${running}), obnova je možná jen při zastaveném serveru.`);
+                    return 1;
+                }
+                try {
+                    const count = await restoreBackupFiles(CONFIG, archive, option('--force'));
+                    console.log(`Obnoveno ${count} účtů ze zálohy z ${archive.metadata.createdAt} (celkem ${archive.metadata.total}).`);
+                    return 0;
+                } catch (err: any) {
+                    console.log(err.message);
+                    return 1;
+                }
+            }
+            default:
+                console.error('Použití: backupTool.ts backup|export|restore ...');
+                return 2;
+        }
+    } catch (err: any) {
+        console.error(`Chyba: ${err.message}`);
+        return 2;
+    }
+}
+
+async function readAccountsOffline(CONFIG: AppConfig, withHistory = false): Promise<AccountWithHistory[]> {
+    const store = createAccountStore(CONFIG);
+    await store.init();
+    try {
+        return withHistory ? await readAccountsWithHistory(store) : await store.list();
+    } finally {
+        await store.close();
+    }
+}
+
+/**
+ * Port, na kterém podle konfigurace přijímá spojení běžící server (PORT, TLS_PORT nebo ADMIN_PORT), jinak null.
+ */
+async function runningServerPort(CONFIG: AppConfig): Promise<number | null> {
+    const local = (host: string) => host === '0.0.0.0' ? '127.0.0.1' : host;
+    const endpoints: [string, number | undefined][] = [
+        [local(CONFIG.HOST), CONFIG.TLS_ONLY ? undefined : CONFIG.PORT],
+        [local(CONFIG.HOST), CONFIG.TLS_PORT],
+        [local(CONFIG.ADMIN_HOST), CONFIG.ADMIN_PORT]
+    ];
+    for (const [host, port] of endpoints) {
+        if (!port) continue;
+        const open = await new Promise<boolean>(resolve => {
+            const socket = net.createConnection({ host, port, timeout: 1000 }, () => {
+                socket.destroy();
+                resolve(true);
+            });
+            socket.on('error', () => resolve(false));
+            socket.on('timeout', () => {
+                socket.destroy();
+                resolve(false);
+            });
+        });
+        if (open) return port;
+    }
+    return null;
+}
+
+/** Požadavek na HTTP správu běžícího serveru; vrací tělo odpovědi. */
+async function callAdmin(CONFIG: AppConfig, pathname: string, method: string): Promise<string> {
+    if (CONFIG.ADMIN_PORT === undefined) throw new Error('ADMIN_PORT není nastavený; u zastaveného serveru použijte --offline.');
+    const host = CONFIG.ADMIN_HOST === '0.0.0.0' ? '127.0.0.1' : CONFIG.ADMIN_HOST;
+    const res = await fetch(`http://${host}:${CONFIG.ADMIN_PORT}${pathname}`, { method });
+    const body = await res.text();
+    if (!res.ok) throw new Error(`server odpověděl ${res.status}: ${body}`);
+    return body;
+}
+
+process.exitCode = await main();
@@ -0,0 +1,71 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { TransactionJournal } from './TransactionJournal.js';
+import { FileAccountStore, parseAccountFileName } from './storage/index.js';
+
+/**
+ * Latence vyhledání účtu, BA a BN nad ACCOUNTS_DIR s mnoha účty: `npm run bench -- [počet účtů]` (výchozí i nejvyšší
+ * 90 000 - víc platných čísel účtů 10000-99999 není).
+ * "Před" je původní postup bez indexu (readdir a průchod názvy při každém příkazu, BA/BN čtou všechny soubory),
+ * "po" je FileAccountStore s indexem účtů. Účty se vytvoří v dočasném adresáři, který se na konci smaže.
+ */
+const MAX_ACCOUNTS = 90_000;
+const count = Math.min(Number(process.argv[2] ?? MAX_ACCOUNTS), MAX_ACCOUNTS);
+const LOOKUPS = 20;
+
+async function measure(runs: number, action: () => Promise<unknown>): Promise<number> {
+    const startedAt = performance.now();
+    for (let i = 0; i < runs; i++) await action();
+    return (performance.now() - startedAt) / runs;
+}
+
+/** Původní findAccountFile: celý adresář a hledání podle začátku názvu. */
+async function legacyFind(dir: string, number: string): Promise<string | null> {
+    const file = (await fs.readdir(dir)).find(name => name.startsWith(`${number}_`) && parseAccountFileName(name));
+    return file ? fs.readFile(path.join(dir, file), 'utf8') : null;
+}
+
+/** Původní BA a BN: přečte a rozloží všechny soubory účtů. */
+async function legacyTotals(dir: string): Promise<{ total: bigint; clients: number }> {
+    let total = 0n;
+    const owners = new Set<string>();
+    for (const file of await fs.readdir(dir)) {
+        const name = parseAccountFileName(file);
+        if (!name) continue;
+        owners.add(name.owner);
+        total += BigInt((await fs.readFile(path.join(dir, file), 'utf8')).split('\n')[0]);
+    }
+    return { total, clients: owners.size };
+}
+
+const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tcp-bank-bench-'));
+const accountsDir = path.join(dir, 'accounts');
+await fs.mkdir(accountsDir);
+try {
+    console.log(`Zakládám ${count} účtů v ${accountsDir}...`);
+    const numbers: string[] = [];
+    for (let i = 0; i < count; i += 500) {
+        const batch = Array.from({ length: Math.min(500, count - i) }, (_, j) => String(10000 + i + j));
+        await Promise.all(batch.map(n => fs.writeFile(path.join(accountsDir, `${n}_10.0.${Number(n) % 250}.1.txt`), String(Number(n) % 1000))));
+        numbers.push(...batch);
+    }
+    const sample = () => numbers[Math.floor(Math.random() * numbers.length)];
+
+    const legacyLookup = await measure(LOOKUPS, () => legacyFind(accountsDir, sample()));
+    const legacySummary = await measure(1, () => legacyTotals(accountsDir));
+
+    const store = new FileAccountStore(accountsDir, new TransactionJournal(path.join(dir, 'journal.log')));
+    const initTime = await measure(1, () => store.init());
+    const lookup = await measure(LOOKUPS * 100, () => store.find(sample()));
+    const summary = await measure(LOOKUPS * 100, () => store.summary());
+    await store.close();
+
+    const ms = (value: number) => `${value.toFixed(4)} ms`;
+    console.log(`\nÚčtů: ${count}`);
+    console.log(`Vyhledání účtu (AB/AD/AW/AR)  před: ${ms(legacyLookup)}  po: ${ms(lookup)}`);
+    console.log(`BA a BN                       před: ${ms(legacySummary)}  po: ${ms(summary)}`);
+    console.log(`Sestavení indexu při startu: ${ms(initTime)}`);
+} finally {
+    await fs.rm(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,150 @@
+import os from 'node:os';
+import path from 'node:path';
+import readline from 'node:readline';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { BankClient } from './BankClient.js';
+import { parseScript, runScript } from './ClientScript.js';
+import { commandRegistry } from './commands/index.js';
+
+const USAGE = `Použití: npm run client -- <host>:<port> [--script <soubor>] [--tls] [--ca <soubor>] [--timeout <ms>]
+
+Bez --script se spustí interaktivní režim (historie šipkami, doplňování příkazů tabulátorem).
+Se --script se provedou příkazy ze souboru; při neshodě odpovědi skončí s kódem 1, při chybě spojení s kódem 2.`;
+
+const HISTORY_FILE = path.join(os.homedir(), '.tcp_bank_history');
+
+interface ClientArgs {
+    host: string;
+    port: number;
+    script?: string;
+    tls: boolean;
+    ca?: string;
+    timeoutMs: number;
+}
+
+function parseArgs(argv: string[]): ClientArgs | null {
+    const args: Partial<ClientArgs> = { tls: false, timeoutMs: 10000 };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--script') args.script = argv[++i];
+        else if (arg === '--ca') args.ca = argv[++i];
+        else if (arg === '--timeout') args.timeoutMs = Number(argv[++i]);
+        else if (arg === '--tls') args.tls = true;
+        else if (!arg.startsWith('--') && args.host === undefined) {
+            const match = /^(.+):(\d+)$/.exec(arg);
+            if (!match) return null;
+            args.host = match[1].replace(/^\[(.*)\]$/, '$1');
+            args.port = Number(match[2]);
+        } else {
+            return null;
+        }
+    }
+    if (args.host === undefined || !(args.timeoutMs > 0)) return null;
+    return args as ClientArgs;
+}
+
+function loadHistory(): string[] {
+    try {
+        return readFileSync(HISTORY_FILE, 'utf8').split('\n').filter(Boolean).reverse();
+    } catch {
+        return [];
+    }
+}
+
+async function runInteractive(client: BankClient): Promise<void> {
+    await client.connect();
+    console.log(`Připojeno k ${client.host}:${client.port}. Ukončení: exit nebo Ctrl+D.`);
+
+    const codes = [...commandRegistry.keys()];
+    let history = loadHistory();
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+        prompt: `${client.host}:${client.port}> `,
+        history,
+        historySize: 500,
+        removeHistoryDuplicates: true,
+        // Doplňuje se jen kód příkazu na začátku řádku
+        completer: (line: string) => {
+            if (/\s/.test(line)) return [[], line];
+            const hits = codes.filter(code => code.toUpperCase().startsWith(line.toUpperCase()));
+            return [hits, line];
+        }
+    });
+    rl.on('history', (lines) => { history = lines; });
+    const closed = new Promise<void>(resolve => rl.on('close', () => resolve()));
+
+    // Výpis nad řádkem s rozepsaným příkazem, aby se nepřepsal
+    const print = (text: string) => {
+        readline.cursorTo(process.stdout, 0);
+        readline.clearLine(process.stdout, 0);
+        console.log(text);
+        rl.prompt(true);
+    };
+    client.on('notice', (line) => print(line));
+    client.on('close', () => print('Server ukončil spojení, další příkaz se připojí znovu.'));
+
+    rl.prompt();
+
+    // Odpovědi chodí v pořadí příkazů, stačí počkat na poslední odeslaný
+    let lastSent: Promise<void> = Promise.resolve();
+    rl.on('line', (input) => {
+        const line = input.trim();
+        if (!line) {
+            rl.prompt();
+            return;
+        }
+        const wasConnected = client.isConnected();
+        lastSent = client.send(line).then(
+            (response) => {
+                if (!wasConnected) print(`(znovu připojeno k ${client.host}:${client.port})`);
+                print(response);
+                if (line === 'exit') rl.close();
+            },
+            (err) => print(`Chyba: ${err.message}`)
+        );
+    });
+
+    await closed;
+    await lastSent;
+    try {
+        writeFileSync(HISTORY_FILE, [...history].reverse().join('\n') + '\n');
+    } catch {
+        // Bez uložené historie se klient obejde
+    }
+    client.removeAllListeners('close');
+    client.close();
+}
+
+async function main(): Promise<number> {
+    const args = parseArgs(process.argv.slice(2));
+    if (!args) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    const client = new BankClient(args.host, args.port, {
+        tls: args.tls,
+        ca: args.ca ? readFileSync(args.ca) : undefined,
+        timeoutMs: args.timeoutMs
+    });
+
+    try {
+        if (!args.script) {
+            await runInteractive(client);
+            return 0;
+        }
+
+        const steps = parseScript(readFileSync(args.script, 'utf8'));
+        await client.connect();
+        const result = await runScript(client, steps, (line) => console.log(line));
+        client.close();
+        console.log(`Hotovo: ${result.passed} v pořádku, ${result.failed} neodpovídá.`);
+        return result.failed > 0 ? 1 : 0;
+    } catch (err: any) {
+        console.error(`Chyba: ${err.message}`);
+        return 2;
+    }
+}
+
+process.exitCode = await main();
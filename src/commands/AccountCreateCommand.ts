@@ -1,30 +1,30 @@
-import fs from 'node:fs/promises';
-import { existsSync } from 'node:fs';
-import path from 'node:path';
-import { Command, CommandContext } from './types.js';
+import { Command, CommandContext, CommandSpec } from './types.js';
+import { generatePin, hashPin } from '../PinGuard.js';
 
 /**
- * AC: Vytvoří účet ve formátu <číslo>_<IP>.txt
+ * AC: Vytvoří nový účet s náhodným číslem pro IP adresu klienta.
+ * `AC <PIN>` nastaví zvolený PIN, samotné `AC` PIN vygeneruje a vrátí ho v odpovědi (`AC <číslo>/<kód> <PIN>`).
  */
 export class AccountCreateCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'AC',
+        description: 'Vytvoří nový účet s náhodným číslem (a PINem).',
+        args: [{ name: 'PIN', type: 'pin', optional: true }],
+        example: 'AC 1234',
+        tags: ['mutating', 'creates-account', 'audited']
+    };
+
     async execute(ctx: CommandContext): Promise<void> {
-        const { socket, bankCode, remoteInfo, logger, CONFIG } = ctx;
+        const { socket, args, bankCode, remoteInfo, logger, store } = ctx;
+        const [pin] = args;
 
         // Získání čisté IP adresy klienta
         const clientIp = socket.remoteAddress?.replace('::ffff:', '') || '127.0.0.1';
 
-        let accNum: number;
-        let fPath: string;
-        let fileName: string;
-
-        do {
-            accNum = Math.floor(Math.random() * 90000) + 10000;
-            fileName = `${accNum}_${clientIp}.txt`;
-            fPath = path.join(CONFIG.ACCOUNTS_DIR, fileName);
-        } while (existsSync(fPath));
-
-        await fs.writeFile(fPath, "0");
-        socket.write(`AC ${accNum}/${bankCode}\r\n`);
-        logger.info(`Vytvořen účet ${accNum} pro IP ${clientIp} (${remoteInfo})`);
+        const chosenPin = pin ?? generatePin();
+        const account = await store.create(clientIp, await hashPin(chosenPin));
+        if (ctx.audit) Object.assign(ctx.audit, { account: account.number, after: account.balance });
+        socket.write(pin ? `AC ${account.number}/${bankCode}\r\n` : `AC ${account.number}/${bankCode} ${chosenPin}\r\n`);
+        logger.info(`Vytvořen účet ${account.number} pro IP ${clientIp} (${remoteInfo})`);
     }
 }
@@ -0,0 +1,44 @@
+import { Command, CommandContext, CommandSpec } from './types.js';
+import { HistoryEntry } from '../storage/index.js';
+import { BankError } from '../errors.js';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+function formatEntry({ time, operation, amount, balance }: HistoryEntry): string {
+    return `${time} ${operation} ${amount > 0n ? '+' : ''}${amount} ${balance}`;
+}
+
+/**
+ * AH: Historie operací účtu od nejnovější, po stránkách (offset, limit - nejvýše 100 operací).
+ * Odpověď je jeden řádek: `AH <čas> <operace> <změna> <zůstatek> | ...`, prázdná stránka je jen `AH`.
+ */
+export class AccountHistoryCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'AH',
+        description: 'Historie operací účtu od nejnovější s časem, změnou a zůstatkem po operaci.',
+        args: [
+            { name: 'účet', type: 'account' },
+            { name: 'offset', type: 'count', optional: true },
+            { name: 'limit', type: 'count', optional: true }
+        ],
+        example: 'AH 10001/127.0.0.1 0 5',
+        tags: ['proxyable']
+    };
+
+    async execute(ctx: CommandContext): Promise<void> {
+        const { socket, args, bankCode, CONFIG, store } = ctx;
+        const [target, offset = '0', limit = String(DEFAULT_LIMIT)] = args;
+        const [acc, ip] = (target || "").split('/');
+
+        if (ip && ip !== bankCode) {
+            const response = await ctx.peers.forward(ip, ['AH', ...args].join(' '), CONFIG.RESPONSE_TIMEOUT);
+            socket.write(`${response}\r\n`);
+            return;
+        }
+
+        if (!(await store.find(acc))) throw new BankError('ACCOUNT_NOT_FOUND');
+        const entries = await store.history(acc, Number(offset), Math.min(Number(limit), MAX_LIMIT));
+        socket.write(entries.length > 0 ? `AH ${entries.map(formatEntry).join(' | ')}\r\n` : 'AH\r\n');
+    }
+}
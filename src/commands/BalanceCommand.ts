@@ -1,33 +1,32 @@
-import fs from 'node:fs/promises';
-import { Command, CommandContext } from './types.js';
-import { findAccountFile, proxyCommand } from './helpers.js';
+import { Command, CommandContext, CommandSpec } from './types.js';
+import { BankError } from '../errors.js';
+import { availableBalance } from '../storage/index.js';
 
 /**
- * AB: Získání zůstatku s vyhledáváním podle prefixu.
+ * AB: Získání zůstatku účtu a disponibilní částky (zůstatek plus úvěrový limit), `AB <zůstatek> <disponibilní>`.
  */
 export class BalanceCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'AB',
+        description: 'Zjištění zůstatku a disponibilní částky účtu (včetně úvěrového limitu).',
+        args: [{ name: 'účet', type: 'account' }],
+        example: 'AB 10001/127.0.0.1',
+        tags: ['proxyable']
+    };
+
     async execute(ctx: CommandContext): Promise<void> {
-        const { socket, args, bankCode, CONFIG, logger } = ctx;
+        const { socket, args, bankCode, CONFIG, store } = ctx;
         const [target] = args;
         const [acc, ip] = (target || "").split('/');
 
         if (ip && ip !== bankCode) {
-            try {
-                const response = await proxyCommand(ip, CONFIG.PORT, `AB ${target}`, CONFIG.RESPONSE_TIMEOUT);
-                socket.write(`${response}\r\n`);
-            } catch (err: any) {
-                socket.write(`ER Chyba při komunikaci s cizí bankou: ${err.message}\r\n`);
-                logger.error(`Proxy error (${ip}): ${err.message}`);
-            }
+            const response = await ctx.peers.forward(ip, `AB ${target}`, CONFIG.RESPONSE_TIMEOUT);
+            socket.write(`${response}\r\n`);
             return;
         }
 
-        const f = await findAccountFile(CONFIG.ACCOUNTS_DIR, acc);
-        if (!f) {
-            socket.write(`ER Účet neexistuje.\r\n`);
-        } else {
-            const balance = await fs.readFile(f, 'utf8');
-            socket.write(`AB ${balance}\r\n`);
-        }
+        const account = await store.find(acc);
+        if (!account) throw new BankError('ACCOUNT_NOT_FOUND');
+        socket.write(`AB ${account.balance} ${availableBalance(account, BigInt(CONFIG.CREDIT_LIMIT))}\r\n`);
     }
 }
@@ -1,18 +1,19 @@
-import fs from 'node:fs/promises';
-import path from 'node:path';
-import { Command, CommandContext } from './types.js';
+import { Command, CommandContext, CommandSpec } from './types.js';
 
 /**
  * BA: Celková suma všech financí v bance.
  */
 export class BankAmountCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'BA',
+        description: 'Celková částka spravovaná bankou (součet všech účtů).',
+        args: [],
+        example: 'BA'
+    };
+
     async execute(ctx: CommandContext): Promise<void> {
-        const { socket, CONFIG } = ctx;
-        const files = await fs.readdir(CONFIG.ACCOUNTS_DIR);
-        let total = 0n;
-        for (const file of files) {
-            total += BigInt(await fs.readFile(path.join(CONFIG.ACCOUNTS_DIR, file), 'utf8'));
-        }
+        const { socket, store } = ctx;
+        const { total } = await store.summary();
         socket.write(`BA ${total.toString()}\r\n`);
     }
 }
@@ -1,6 +1,13 @@
-import { Command, CommandContext } from './types.js';
+import { Command, CommandContext, CommandSpec } from './types.js';
 
 export class BankCodeCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'BC',
+        description: 'Vrátí kód banky (IP adresu serveru).',
+        args: [],
+        example: 'BC'
+    };
+
     async execute(ctx: CommandContext): Promise<void> {
         ctx.socket.write(`BC ${ctx.bankCode}\r\n`);
     }
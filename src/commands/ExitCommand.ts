@@ -1,6 +1,13 @@
-import { Command, CommandContext } from './types.js';
+import { Command, CommandContext, CommandSpec } from './types.js';
 
 export class ExitCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'exit',
+        description: 'Ukončí aktuální spojení se serverem.',
+        args: [],
+        example: 'exit'
+    };
+
     async execute(ctx: CommandContext): Promise<void> {
         const { socket, logger, remoteInfo } = ctx;
         socket.write(`OK Goodbye\r\n`);
@@ -0,0 +1,34 @@
+import { Command, CommandContext, CommandSpec } from './types.js';
+import { formatUsage } from './spec.js';
+import { BankError } from '../errors.js';
+
+/**
+ * HELP: Nápověda sestavená z popisů příkazů. `HELP` vrátí seznam příkazů pro klienty,
+ * `HELP <příkaz>` jeho použití a popis (`HELP AB <účet> - Zjištění aktuálního zůstatku na účtu.`).
+ */
+export class HelpCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'HELP',
+        description: 'Seznam příkazů, s názvem příkazu jeho použití a popis.',
+        args: [{ name: 'příkaz', type: 'word', optional: true }],
+        example: 'HELP AW'
+    };
+
+    // Registr se předává funkcí, protože HELP je sám jeho součástí
+    constructor(private commands: () => Map<string, Command>) {}
+
+    async execute(ctx: CommandContext): Promise<void> {
+        const { socket, args } = ctx;
+        const [name] = args;
+
+        if (name === undefined) {
+            const names = [...this.commands().values()].filter(c => !c.spec.internal).map(c => c.spec.name);
+            socket.write(`HELP ${names.join(' ')}\r\n`);
+            return;
+        }
+
+        const command = this.commands().get(name);
+        if (!command) throw new BankError('UNKNOWN_COMMAND');
+        socket.write(`HELP ${formatUsage(command.spec)} - ${command.spec.description}\r\n`);
+    }
+}
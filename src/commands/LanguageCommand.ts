@@ -0,0 +1,25 @@
+import { Command, CommandContext, CommandSpec } from './types.js';
+import { BankError, LANGUAGES, isLanguage } from '../errors.js';
+
+/**
+ * LG: Jazyk chybových odpovědí pro toto spojení (`LG cs` nebo `LG en`). Bez argumentu vrátí aktuální jazyk.
+ */
+export class LanguageCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'LG',
+        description: 'Jazyk chybových hlášek spojení (cs nebo en), bez argumentu vrátí aktuální.',
+        args: [{ name: 'jazyk', type: 'word', optional: true }],
+        example: 'LG en'
+    };
+
+    async execute(ctx: CommandContext): Promise<void> {
+        const { socket, args, session } = ctx;
+        const [language] = args;
+
+        if (language !== undefined) {
+            if (!isLanguage(language)) throw new BankError('UNKNOWN_LANGUAGE', { languages: LANGUAGES.join(', ') });
+            session.language = language;
+        }
+        socket.write(`LG ${session.language}\r\n`);
+    }
+}
@@ -1,39 +1,47 @@
-import fs from 'node:fs/promises';
-import path from 'node:path';
-import { Command, CommandContext } from './types.js';
-import { findAccountFile } from './helpers.js';
+import { Command, CommandContext, CommandSpec } from './types.js';
+import { BankError } from '../errors.js';
 
 /**
- * AR: Odstranění účtu (pouze pokud je zůstatek 0 a IP se shoduje).
+ * AR: Odstranění účtu (pouze pokud je zůstatek 0).
+ * Účet s PINem vyžaduje PIN (`AR <číslo>/<kód> <PIN>`), starší účet bez PINu jen shodu IP adresy zakladatele.
  */
 export class RemoveCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'AR',
+        description: 'Zrušení účtu (pouze pokud je zůstatek 0, s PINem).',
+        args: [{ name: 'účet', type: 'account' }, { name: 'PIN', type: 'pin', optional: true }],
+        example: 'AR 10001/127.0.0.1 1234',
+        tags: ['mutating', 'audited']
+    };
+
     async execute(ctx: CommandContext): Promise<void> {
-        const { socket, args, CONFIG, logger } = ctx;
-        const [target] = args;
+        const { socket, args, CONFIG, logger, store } = ctx;
+        const [target, pin] = args;
         const acc = (target || "").split('/')[0];
         const clientIp = socket.remoteAddress?.replace('::ffff:', '') || '127.0.0.1';
 
-        const f = await findAccountFile(CONFIG.ACCOUNTS_DIR, acc);
-
-        if (f) {
-            // Kontrola, zda účet patří této IP adrese (soubor obsahuje IP v názvu)
-            const ownerIp = path.basename(f).replace('.txt', '').split('_')[1];
+        await ctx.accountLocks.runExclusive(acc, async () => {
+            const account = await store.find(acc);
 
-            if (ownerIp !== clientIp) {
-                socket.write(`ER Účet může smazat pouze jeho zakladatel z původní IP adresy.\r\n`);
-                return;
-            }
+            if (account) {
+                if (ctx.audit) ctx.audit.before = account.balance;
+                // U účtu bez PINu zůstává původní kontrola, zda účet patří této IP adrese
+                const auth = await ctx.pins.authorize(account, pin, CONFIG.PIN_REQUIRED);
+                if (auth === 'legacy' && account.owner !== clientIp) {
+                    throw new BankError('REMOVE_NOT_OWNER');
+                }
 
-            const balance = await fs.readFile(f, 'utf8');
-            if (balance === "0") {
-                await fs.unlink(f);
-                socket.write(`AR\r\n`);
-                logger.info(`Účet ${acc} smazán.`);
+                if (account.balance < 0n) throw new BankError('ACCOUNT_OVERDRAWN');
+                if (account.balance === 0n) {
+                    await store.remove(acc);
+                    socket.write(`AR\r\n`);
+                    logger.info(`Účet ${acc} smazán.`);
+                } else {
+                    throw new BankError('ACCOUNT_NOT_EMPTY');
+                }
             } else {
-                socket.write(`ER Nelze smazat bankovní účet na kterém jsou finance.\r\n`);
+                throw new BankError('ACCOUNT_NOT_FOUND');
             }
-        } else {
-            socket.write(`ER Účet neexistuje.\r\n`);
-        }
+        }, CONFIG.LOCK_TIMEOUT);
     }
 }
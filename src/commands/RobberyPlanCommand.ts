@@ -0,0 +1,44 @@
+import { Command, CommandContext, CommandSpec } from './types.js';
+import { planRobbery, scanBanks } from '../RobberyPlanner.js';
+
+/**
+ * RP: Naplánuje loupež - najde v síti banky, které dohromady drží alespoň zadanou částku
+ * a přitom mají co nejméně klientů. Sken musí skončit v rámci RESPONSE_TIMEOUT.
+ */
+export class RobberyPlanCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'RP',
+        description: 'Plán loupeže: které banky v síti stačí vyloupit.',
+        args: [{ name: 'částka', type: 'amount' }],
+        example: 'RP 1000000',
+        error: 'INVALID_AMOUNT'
+    };
+
+    async execute(ctx: CommandContext): Promise<void> {
+        const { socket, args, bankCode, logger, CONFIG } = ctx;
+        const amount = BigInt(args[0]);
+
+        // Rezerva, aby odpověď stihla odejít dřív, než vyprší RESPONSE_TIMEOUT celého příkazu
+        const budget = Math.floor(CONFIG.RESPONSE_TIMEOUT * 0.8);
+        const { banks, skipped } = await scanBanks({
+            ipRange: CONFIG.SCAN_IP_RANGE || `${bankCode}-${bankCode}`,
+            portRange: CONFIG.SCAN_PORT_RANGE || `${CONFIG.PORT}`,
+            concurrency: CONFIG.SCAN_CONCURRENCY || 32,
+            hostTimeoutMs: CONFIG.SCAN_HOST_TIMEOUT || 1000,
+            deadline: Date.now() + budget
+        });
+        const others = banks.filter(b => b.code !== bankCode);
+        logger.info(`RP: nalezeno ${others.length} bank, nepřeskenováno ${skipped} adres.`);
+
+        const note = skipped > 0 ? ` (sken nestihl ${skipped} adres)` : '';
+        const plan = planRobbery(others, amount);
+        if (!plan) {
+            const total = others.reduce((sum, b) => sum + b.amount, 0n);
+            socket.write(`RP Částku ${amount} nelze získat, ${others.length} nalezených bank drží celkem ${total}${note}.\r\n`);
+            return;
+        }
+
+        const list = plan.banks.map(b => `${b.code} (${b.amount}, klientů: ${b.clients})`).join(', ');
+        socket.write(`RP Pro ${amount} stačí vyloupit ${plan.banks.length} bank: ${list} - celkem ${plan.amount}, zasaženo ${plan.clients} klientů${note}.\r\n`);
+    }
+}
@@ -0,0 +1,45 @@
+import { Command, CommandContext, CommandSpec } from './types.js';
+import { hashPin } from '../PinGuard.js';
+import { BankError } from '../errors.js';
+
+/**
+ * AP: Nastavení nebo změna PINu (`AP <číslo>/<kód> <nový PIN> [starý PIN]`).
+ * Změna vyžaduje starý PIN. Starší účet bez PINu si PIN nastaví jen ze stejné IP adresy, ze které byl založen.
+ */
+export class SetPinCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'AP',
+        description: 'Nastavení nebo změna PINu (změna vyžaduje starý PIN).',
+        args: [{ name: 'účet', type: 'account' }, { name: 'nový PIN', type: 'pin' }, { name: 'starý PIN', type: 'pin', optional: true }],
+        example: 'AP 10001/127.0.0.1 5678 1234',
+        tags: ['mutating', 'proxyable']
+    };
+
+    async execute(ctx: CommandContext): Promise<void> {
+        const { socket, args, bankCode, logger, store, CONFIG } = ctx;
+        const [target, newPin, oldPin] = args;
+        const [acc, ip] = (target || "").split('/');
+        const clientIp = socket.remoteAddress?.replace('::ffff:', '') || '127.0.0.1';
+
+        if (ip && ip !== bankCode) {
+            const response = await ctx.peers.forward(ip, ['AP', ...args].join(' '), CONFIG.RESPONSE_TIMEOUT);
+            socket.write(`${response}\r\n`);
+            return;
+        }
+
+        await ctx.accountLocks.runExclusive(acc, async () => {
+            const account = await store.find(acc);
+            if (!account) throw new BankError('ACCOUNT_NOT_FOUND');
+
+            if (account.pinHash) {
+                await ctx.pins.authorize(account, oldPin, true);
+            } else if (account.owner !== clientIp) {
+                throw new BankError('PIN_NOT_OWNER');
+            }
+
+            await store.setPin(acc, await hashPin(newPin));
+            socket.write(`AP\r\n`);
+            logger.info(`Nastaven PIN účtu ${acc}.`);
+        }, CONFIG.LOCK_TIMEOUT);
+    }
+}
@@ -1,50 +1,72 @@
-import fs from 'node:fs/promises';
-import { Command, CommandContext } from './types.js';
-import { findAccountFile, proxyCommand } from './helpers.js';
+import { Command, CommandContext, CommandSpec } from './types.js';
+import { BankError } from '../errors.js';
+import { availableBalance } from '../storage/index.js';
 
 /**
- * AD/AW: Transakce s podporou proxy a vyhledáváním souborů.
+ * AD/AW: Transakce s podporou proxy na cizí banky.
+ * Výběr z účtu s PINem vyžaduje PIN jako poslední argument (`AW <číslo>/<kód> <částka> <PIN>`).
  */
 export class TransactionCommand implements Command {
-    constructor(private type: 'AD' | 'AW') {}
+    readonly spec: CommandSpec;
+
+    constructor(private type: 'AD' | 'AW') {
+        this.spec = type === 'AD'
+            ? {
+                name: 'AD',
+                description: 'Vklad peněz na účet.',
+                args: [{ name: 'účet', type: 'account' }, { name: 'částka', type: 'amount' }],
+                example: 'AD 10001/127.0.0.1 500',
+                error: 'INVALID_TRANSACTION',
+                tags: ['mutating', 'proxyable', 'audited']
+            }
+            : {
+                name: 'AW',
+                description: 'Výběr peněz z účtu (s PINem účtu).',
+                args: [{ name: 'účet', type: 'account' }, { name: 'částka', type: 'amount' }, { name: 'PIN', type: 'pin', optional: true }],
+                example: 'AW 10001/127.0.0.1 200 1234',
+                error: 'INVALID_TRANSACTION',
+                tags: ['mutating', 'proxyable', 'audited']
+            };
+    }
 
     async execute(ctx: CommandContext): Promise<void> {
-        const { socket, args, bankCode, logger, CONFIG } = ctx;
-        const [target, amountStr] = args;
+        const { socket, args, bankCode, logger, store, CONFIG } = ctx;
+        const [target, amountStr, pin] = args;
         const [acc, ip] = (target || "").split('/');
 
         // Proxy logika pro cizí banky
         if (ip && ip !== bankCode) {
-            try {
-                const response = await proxyCommand(ip, CONFIG.PORT, `${this.type} ${target} ${amountStr}`, CONFIG.RESPONSE_TIMEOUT);
-                socket.write(`${response}\r\n`);
-            } catch (err: any) {
-                socket.write(`ER Chyba při komunikaci s cizí bankou: ${err.message}\r\n`);
-                logger.error(`Proxy error (${ip}): ${err.message}`);
-            }
+            const response = await ctx.peers.forward(ip, [this.type, ...args].join(' '), CONFIG.RESPONSE_TIMEOUT);
+            socket.write(`${response}\r\n`);
             return;
         }
 
-        // Lokální zpracování - vyhledání souboru s IP v názvu
-        const f = await findAccountFile(CONFIG.ACCOUNTS_DIR, acc);
+        // Lokální zpracování - čtení i zápis zůstatku probíhá pod zámkem účtu
+        await ctx.accountLocks.runExclusive(acc, async () => {
+            const account = await store.find(acc);
 
-        if (!f || !/^\d+$/.test(amountStr)) {
-            socket.write(`ER Špatný formát nebo účet neexistuje.\r\n`);
-        } else {
-            const balance = BigInt(await fs.readFile(f, 'utf8'));
+            if (!account) {
+                throw new BankError('INVALID_TRANSACTION');
+            }
+
+            const balance = account.balance;
             const amount = BigInt(amountStr);
             let newBalance: bigint;
+            if (ctx.audit) ctx.audit.before = balance;
 
             if (this.type === 'AD') {
                 newBalance = balance + amount;
             } else {
-                if (balance < amount) throw new Error("LOW_FUNDS");
+                await ctx.pins.authorize(account, pin, CONFIG.PIN_REQUIRED);
+                // Výběr smí čerpat úvěrový limit účtu, zůstatek pak klesne pod nulu
+                if (amount > availableBalance(account, BigInt(CONFIG.CREDIT_LIMIT))) throw new BankError('LOW_FUNDS');
                 newBalance = balance - amount;
             }
 
-            await fs.writeFile(f, newBalance.toString());
+            await store.setBalance(acc, newBalance, this.type);
+            if (ctx.audit) ctx.audit.after = newBalance;
             socket.write(`${this.type}\r\n`);
             logger.info(`${this.type === 'AD' ? 'Vklad' : 'Výběr'} na účtu ${acc}: ${amount}`);
-        }
+        }, CONFIG.LOCK_TIMEOUT);
     }
 }
@@ -0,0 +1,44 @@
+import { Command, CommandContext, CommandSpec } from './types.js';
+import { TransferRejectedError } from '../TransferManager.js';
+import { BankError } from '../errors.js';
+
+/**
+ * AT: Převod mezi dvěma účty, z nichž alespoň jeden vede tato banka (formát `AT odkud/kód kam/kód částka [PIN]`).
+ * PIN patří účtu, ze kterého se peníze berou.
+ */
+export class TransferCommand implements Command {
+    readonly spec: CommandSpec = {
+        name: 'AT',
+        description: 'Převod mezi účty (i mezi bankami), PIN patří účtu, ze kterého se peníze berou.',
+        args: [
+            { name: 'odkud', type: 'account' },
+            { name: 'kam', type: 'account' },
+            { name: 'částka', type: 'positiveAmount' },
+            { name: 'PIN', type: 'pin', optional: true }
+        ],
+        example: 'AT 10001/10.0.0.1 20002/10.0.0.2 300 1234',
+        error: 'INVALID_TRANSFER',
+        tags: ['mutating', 'audited']
+    };
+
+    async execute(ctx: CommandContext): Promise<void> {
+        const { socket, args, bankCode, transfers } = ctx;
+        const [fromStr, toStr, amountStr, pin] = args;
+        const [fromAcc, fromBank] = (fromStr || "").split('/');
+        const [toAcc, toBank] = (toStr || "").split('/');
+
+        try {
+            await transfers.transfer(
+                { account: fromAcc, bank: fromBank },
+                { account: toAcc, bank: toBank },
+                BigInt(amountStr),
+                bankCode,
+                pin
+            );
+            socket.write(`AT\r\n`);
+        } catch (err: any) {
+            if (!(err instanceof TransferRejectedError)) throw err;
+            throw new BankError('TRANSFER_FAILED', { reason: err });
+        }
+    }
+}
@@ -0,0 +1,57 @@
+import { Command, CommandContext, CommandSpec, ArgumentSpec } from './types.js';
+import { BankError } from '../errors.js';
+
+/**
+ * TP/TC/TA/TQ: Kroky dvoufázového commitu převodu AT, které si posílají banky mezi sebou.
+ *  - `TP <id> <koordinátor> <W|D> <číslo>/<kód> <částka> [PIN]` připraví část převodu (PIN jen u výběru),
+ *  - `TC <id> <W|D>` ji potvrdí, `TA <id> <W|D>` zruší,
+ *  - `TQ <id>` se zeptá koordinátora na výsledek převodu.
+ * Přijímají se jen od ověřených bank (middleware peersOnly).
+ */
+export class TransferPhaseCommand implements Command {
+    readonly spec: CommandSpec;
+
+    constructor(private type: 'TP' | 'TC' | 'TA' | 'TQ') {
+        const id: ArgumentSpec = { name: 'id', type: 'word' };
+        const kind: ArgumentSpec = { name: 'strana', type: 'word', values: ['W', 'D'] };
+        const specs: Record<typeof type, CommandSpec> = {
+            TP: {
+                name: 'TP',
+                description: 'Připraví část převodu AT (zablokuje částku nebo ověří cílový účet).',
+                args: [id, { name: 'koordinátor', type: 'bank' }, kind, { name: 'účet', type: 'account' }, { name: 'částka', type: 'amount' }, { name: 'PIN', type: 'pin', optional: true }],
+                example: 'TP 1a2b 10.0.0.1 D 20002/10.0.0.2 300',
+                internal: true,
+                tags: ['mutating', 'inter-bank']
+            },
+            TC: { name: 'TC', description: 'Potvrdí připravenou část převodu AT.', args: [id, kind], example: 'TC 1a2b D', internal: true, tags: ['mutating', 'inter-bank'] },
+            TA: { name: 'TA', description: 'Zruší připravenou část převodu AT.', args: [id, kind], example: 'TA 1a2b D', internal: true, tags: ['mutating', 'inter-bank'] },
+            TQ: { name: 'TQ', description: 'Zeptá se koordinátora na výsledek převodu AT.', args: [id], example: 'TQ 1a2b', internal: true, tags: ['inter-bank'] },
+        };
+        this.spec = specs[type];
+    }
+
+    async execute(ctx: CommandContext): Promise<void> {
+        const { socket, args, bankCode, transfers } = ctx;
+        const [id] = args;
+
+        if (this.type === 'TQ') {
+            socket.write(`TQ ${id} ${transfers.status(id)}\r\n`);
+            return;
+        }
+
+        if (this.type === 'TP') {
+            const [, coordinator, kind, target, amountStr, pin] = args;
+            const [acc, ip] = target.split('/');
+            if (ip !== bankCode) {
+                throw new BankError('FOREIGN_ACCOUNT');
+            }
+            await transfers.prepare(id, coordinator, kind as 'W' | 'D', acc, BigInt(amountStr), pin);
+        } else {
+            const kind = args[1] as 'W' | 'D';
+            if (this.type === 'TC') await transfers.commit(id, kind);
+            else await transfers.abort(id, kind);
+        }
+
+        socket.write(`${this.type} ${id}\r\n`);
+    }
+}
@@ -1,35 +1,57 @@
 import net from 'node:net';
-import fs from 'node:fs/promises';
-import path from 'node:path';
+import tls from 'node:tls';
+import { EventEmitter } from 'node:events';
+import { LineReader } from '../LineReader.js';
 
 /**
- * Pomocná funkce pro vyhledání souboru účtu podle čísla (prefixu).
- * Vrací celou cestu k souboru nebo null.
+ * Události přeposílání: 'failure' (targetIp, error) při každém neúspěšném přeposlání, např. pro metriky.
  */
-export async function findAccountFile(accountsDir: string, accNum: string): Promise<string | null> {
-    try {
-        const files = await fs.readdir(accountsDir);
-        const found = files.find(f => f.startsWith(`${accNum}_`));
-        return found ? path.join(accountsDir, found) : null;
-    } catch {
-        return null;
-    }
+export const proxyEvents = new EventEmitter();
+
+export interface ProxyOptions {
+    /** false = selhání se nehlásí do proxyEvents (sken sítě, kde je nedostupná adresa běžná). */
+    reportFailures?: boolean;
+    /** Spojení přes TLS s těmito parametry (certifikát pro mutual TLS, CA pro ověření protistrany). */
+    tls?: tls.ConnectionOptions;
 }
 
 /**
  * Pomocná funkce pro přeposlání příkazu jiné bance (proxy).
  */
-export async function proxyCommand(targetIp: string, targetPort: number, commandLine: string, timeoutMs: number): Promise<string> {
+export async function proxyCommand(targetIp: string, targetPort: number, commandLine: string, timeoutMs: number, options: ProxyOptions = {}): Promise<string> {
+    try {
+        return await sendLine(targetIp, targetPort, commandLine, timeoutMs, options.tls);
+    } catch (err) {
+        if (options.reportFailures !== false) proxyEvents.emit('failure', targetIp, err);
+        throw err;
+    }
+}
+
+function sendLine(targetIp: string, targetPort: number, commandLine: string, timeoutMs: number, tlsOptions?: tls.ConnectionOptions): Promise<string> {
     return new Promise((resolve, reject) => {
-        const socket = net.createConnection({ host: targetIp, port: targetPort }, () => {
-            socket.write(commandLine + "\r\n");
-        });
+        const reader = new LineReader();
+        const send = () => socket.write(commandLine + "\r\n");
+        // Jméno serveru (SNI) se u IP adresy neposílá, certifikát se ověřuje proti IP v subjectAltName
+        const socket = tlsOptions
+            ? tls.connect({ ...tlsOptions, host: targetIp, port: targetPort, servername: net.isIP(targetIp) ? undefined : targetIp }, send)
+            : net.createConnection({ host: targetIp, port: targetPort }, send);
 
+        // Odpověď je první celý řádek, i když dorazí ve více paketech
         socket.on('data', (data) => {
-            resolve(data.toString().trim());
+            const [line] = reader.push(data);
+            if (!line) return;
+            if (line.tooLong) reject(new Error('Odpověď je příliš dlouhá'));
+            else resolve(line.text.trim());
             socket.end();
         });
 
+        // Banka, která odpoví bez konce řádku a spojení zavře
+        socket.on('end', () => {
+            const rest = reader.flush().trim();
+            if (rest) resolve(rest);
+            else reject(new Error('Spojení ukončeno bez odpovědi'));
+        });
+
         socket.on('error', (err) => {
             reject(err);
         });
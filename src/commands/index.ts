@@ -3,22 +3,44 @@ import { BankCodeCommand } from './BankCodeCommand.js';
 import { AccountCreateCommand } from './AccountCreateCommand.js';
 import { TransactionCommand } from './TransactionCommand.js';
 import { BalanceCommand } from './BalanceCommand.js';
+import { AccountHistoryCommand } from './AccountHistoryCommand.js';
 import { RemoveCommand } from './RemoveCommand.js';
 import { BankAmountCommand } from './BankAmountCommand.js';
 import { BankClientsCommand } from './BankClientsCommand.js';
 import { ExitCommand } from './ExitCommand.js';
+import { TransferCommand } from './TransferCommand.js';
+import { TransferPhaseCommand } from './TransferPhaseCommand.js';
+import { RobberyPlanCommand } from './RobberyPlanCommand.js';
+import { SetPinCommand } from './SetPinCommand.js';
+import { LanguageCommand } from './LanguageCommand.js';
+import { HelpCommand } from './HelpCommand.js';
 
 export * from './types.js';
 export * from './helpers.js';
+export * from './spec.js';
+export * from './pipeline.js';
 
+/**
+ * Všechny příkazy serveru podle jména (spec.name), v pořadí, v jakém je vypisuje HELP a readme.
+ */
 export const commandRegistry: Map<string, Command> = new Map([
-    ['BC', new BankCodeCommand()],
-    ['AC', new AccountCreateCommand()],
-    ['AD', new TransactionCommand('AD')],
-    ['AW', new TransactionCommand('AW')],
-    ['AB', new BalanceCommand()],
-    ['AR', new RemoveCommand()],
-    ['BA', new BankAmountCommand()],
-    ['BN', new BankClientsCommand()],
-    ['exit', new ExitCommand()],
-]);
+    new BankCodeCommand(),
+    new AccountCreateCommand(),
+    new TransactionCommand('AD'),
+    new TransactionCommand('AW'),
+    new BalanceCommand(),
+    new AccountHistoryCommand(),
+    new RemoveCommand(),
+    new SetPinCommand(),
+    new BankAmountCommand(),
+    new BankClientsCommand(),
+    new TransferCommand(),
+    new TransferPhaseCommand('TP'),
+    new TransferPhaseCommand('TC'),
+    new TransferPhaseCommand('TA'),
+    new TransferPhaseCommand('TQ'),
+    new RobberyPlanCommand(),
+    new LanguageCommand(),
+    new HelpCommand(() => commandRegistry),
+    new ExitCommand(),
+].map((command): [string, Command] => [command.spec.name, command]));
@@ -0,0 +1,38 @@
+import { Command, CommandContext, CommandTag, Middleware } from './types.js';
+import { BankError } from '../errors.js';
+
+interface Registration {
+    middleware: Middleware;
+    /** Bez štítků platí pro všechny příkazy, jinak jen pro příkazy s některým z nich. */
+    tags?: CommandTag[];
+}
+
+/**
+ * Řetězec middlewarů kolem příkazů z registru. Middlewary se volají v pořadí registrace, poslední krok
+ * provede samotný příkaz; neznámý příkaz vyhodí UNKNOWN_COMMAND (projde jen middlewary bez štítků).
+ */
+export class CommandPipeline {
+    private registrations: Registration[] = [];
+
+    constructor(private commands: Map<string, Command>) {}
+
+    public use(middleware: Middleware, tags?: CommandTag[]): this {
+        this.registrations.push({ middleware, tags });
+        return this;
+    }
+
+    public run(ctx: CommandContext): Promise<void> {
+        const command = this.commands.get(ctx.command);
+        const commandTags = command?.spec.tags ?? [];
+        const chain = this.registrations
+            .filter(r => !r.tags || r.tags.some(tag => commandTags.includes(tag)))
+            .map(r => r.middleware);
+
+        const step = async (i: number, current: CommandContext): Promise<void> => {
+            if (i < chain.length) return chain[i](current, (next = current) => step(i + 1, next));
+            if (!command) throw new BankError('UNKNOWN_COMMAND');
+            return command.execute(current);
+        };
+        return step(0, ctx);
+    }
+}
@@ -0,0 +1,64 @@
+import { ArgumentSpec, ArgumentType, CommandSpec } from './types.js';
+import { isValidPin } from '../PinGuard.js';
+import { BankError } from '../errors.js';
+
+const ARGUMENT_CHECKS: Record<ArgumentType, (value: string) => boolean> = {
+    account: (value) => /^\d+\/[^\s/]+$/.test(value),
+    bank: (value) => /^[^\s/]+$/.test(value),
+    amount: (value) => /^\d+$/.test(value),
+    positiveAmount: (value) => /^\d+$/.test(value) && BigInt(value) > 0n,
+    count: (value) => /^\d{1,9}$/.test(value),
+    pin: (value) => isValidPin(value),
+    word: (value) => value.length > 0,
+};
+
+function isValidArgument(spec: ArgumentSpec, value: string): boolean {
+    if (!ARGUMENT_CHECKS[spec.type](value)) return false;
+    return !spec.values || spec.values.includes(value);
+}
+
+/**
+ * Zkontroluje argumenty příkazu podle jeho popisu dřív, než se příkaz provede.
+ * Chybějící povinný, přebývající nebo špatný argument vyhodí chybu příkazu (spec.error), špatný PIN INVALID_PIN_FORMAT.
+ */
+export function validateArgs(spec: CommandSpec, args: string[]): void {
+    const formatError = new BankError(spec.error ?? 'INVALID_FORMAT');
+    if (args.length > spec.args.length) throw formatError;
+
+    spec.args.forEach((arg, i) => {
+        const value = args[i];
+        if (value === undefined) {
+            if (!arg.optional) throw formatError;
+            return;
+        }
+        if (!isValidArgument(arg, value)) {
+            throw arg.type === 'pin' ? new BankError('INVALID_PIN_FORMAT') : formatError;
+        }
+    });
+}
+
+/** Použití příkazu, např. `AW <účet> <částka> [PIN]`. */
+export function formatUsage(spec: CommandSpec): string {
+    const args = spec.args.map(arg => {
+        const name = arg.values ? arg.values.join('|') : arg.name;
+        return arg.optional ? `[${name}]` : `<${name}>`;
+    });
+    return [spec.name, ...args].join(' ');
+}
+
+/**
+ * Tabulka příkazů pro readme (markdown). Příkazy mezi bankami (internal) se vynechávají, ty popisuje readme zvlášť.
+ */
+export function renderCommandTable(specs: CommandSpec[]): string {
+    const rows = specs
+        .filter(spec => !spec.internal)
+        .map(spec => [`\`${formatUsage(spec)}\``, spec.description, `\`${spec.example}\``]);
+    const header = ['Příkaz', 'Popis', 'Příklad'];
+    const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+    const line = (cells: string[]) => `| ${cells.map((cell, i) => cell.padEnd(widths[i])).join(' | ')} |`;
+    return [
+        line(header),
+        `|${widths.map(width => ':' + '-'.repeat(width + 1)).join('|')}|`,
+        ...rows.map(line)
+    ].join('\n');
+}
@@ -1,17 +1,101 @@
 import net from 'node:net';
 import { Logger } from 'winston';
 import { NetworkMonitor } from '../NetworkMonitor.js';
+import { AccountLockManager } from '../AccountLockManager.js';
+import { AccountStore } from '../storage/index.js';
+import { TransferManager } from '../TransferManager.js';
+import { AppConfig } from '../config.js';
+import { PinGuard } from '../PinGuard.js';
+import { PeerClient } from '../PeerClient.js';
+import { Language, ErrorKey } from '../errors.js';
+
+/**
+ * Nastavení jednoho spojení, které přetrvá mezi příkazy.
+ */
+export interface Session {
+    /** Jazyk chybových odpovědí (příkaz LG). */
+    language: Language;
+}
+
+/**
+ * Údaje pro auditní log, které zná jen příkaz: číslo nově založeného účtu a zůstatek před a po změně.
+ */
+export interface AuditDetails {
+    account?: string;
+    before?: bigint;
+    after?: bigint;
+}
 
 export interface CommandContext {
     socket: net.Socket;
+    /** Jméno příkazu tak, jak ho klient poslal (nemusí být v commandRegistry). */
+    command: string;
     args: string[];
     bankCode: string;
     remoteInfo: string;
+    /** IP adresa klienta bez předpony ::ffff:. */
+    clientIp: string;
     logger: Logger;
     networkMonitor: NetworkMonitor;
-    CONFIG: any;
+    accountLocks: AccountLockManager;
+    store: AccountStore;
+    transfers: TransferManager;
+    pins: PinGuard;
+    /** Odesílání příkazů jiným bankám (nešifrovaně nebo přes TLS). */
+    peers: PeerClient;
+    session: Session;
+    /** Vyplňuje příkaz, který se zapisuje do auditního logu (jinak chybí). */
+    audit?: AuditDetails;
+    CONFIG: AppConfig;
+}
+
+/**
+ * Štítky příkazů, podle kterých se middleware může omezit jen na některé příkazy:
+ *  - mutating: mění účty nebo převody, proxyable: pro účet cizí banky se přeposílá,
+ *  - creates-account: zakládá nový účet, audited: zapisuje se do auditního logu (přeposlané příkazy vždy),
+ *  - inter-bank: posílají si ho jen banky mezi sebou, od klientů se nepřijímá.
+ */
+export type CommandTag = 'mutating' | 'proxyable' | 'creates-account' | 'audited' | 'inter-bank';
+
+/**
+ * Druhy argumentů příkazů, kontrolují se v validateArgs:
+ *  - account: účet `číslo/kód banky`, bank: kód banky, amount: nezáporné celé číslo, positiveAmount: kladné celé číslo,
+ *  - count: počet (nezáporné celé číslo, není to částka), pin: 4 až 8 číslic, word: libovolné slovo (případně jen z `values`).
+ */
+export type ArgumentType = 'account' | 'bank' | 'amount' | 'positiveAmount' | 'count' | 'pin' | 'word';
+
+export interface ArgumentSpec {
+    /** Jméno v nápovědě, např. `účet` -> `<účet>`. */
+    name: string;
+    type: ArgumentType;
+    optional?: boolean;
+    /** Povolené hodnoty argumentu typu word. */
+    values?: string[];
+}
+
+/**
+ * Popis příkazu pro kontrolu argumentů, příkaz HELP a tabulku příkazů v readme.
+ */
+export interface CommandSpec {
+    name: string;
+    /** Jedna věta do nápovědy. */
+    description: string;
+    args: ArgumentSpec[];
+    example: string;
+    /** Chyba při špatném formátu argumentů (výchozí INVALID_FORMAT); špatný PIN je vždy INVALID_PIN_FORMAT. */
+    error?: ErrorKey;
+    /** Příkaz, který si posílají banky mezi sebou; HELP ho bez jména nevypisuje. */
+    internal?: boolean;
+    tags?: CommandTag[];
 }
 
 export interface Command {
+    readonly spec: CommandSpec;
     execute(ctx: CommandContext): Promise<void>;
 }
+
+/**
+ * Krok zpracování příkazu kolem execute (kontrola sítě, časový limit, chyby...). Middleware pokračuje voláním next,
+ * kterému může předat upravený kontext; když next nezavolá, příkaz se neprovede.
+ */
+export type Middleware = (ctx: CommandContext, next: (ctx?: CommandContext) => Promise<void>) => Promise<void>;
@@ -0,0 +1,331 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import net from 'node:net';
+import { checkScheduleRules, ScheduleRule } from './Scheduler.js';
+import { checkScanRanges } from './RobberyPlanner.js';
+
+/**
+ * Konfigurace serveru (app_config.json po doplnění výchozích hodnot a přepsání z prostředí a příkazové řádky).
+ */
+export interface AppConfig {
+    PORT: number;
+    HOST: string;
+    RESPONSE_TIMEOUT: number;
+    LOCK_TIMEOUT: number;
+    CLIENT_IDLE_TIMEOUT: number;
+    MAX_LINE_LENGTH: number;
+    STORAGE_TYPE: 'file' | 'memory' | 'json';
+    STORAGE_FILE: string;
+    ACCOUNTS_DIR: string;
+    JOURNAL_FILE: string;
+    TRANSFER_LOG: string;
+    AUDIT_DIR: string;
+    AUDIT_RETENTION_DAYS: number;
+    QUARANTINE_DIR: string;
+    BACKUP_DIR: string;
+    INTEGRITY_STRICT: boolean;
+    SCHEDULE: ScheduleRule[];
+    SCHEDULER_LOG: string;
+    TRANSFER_STEP_TIMEOUT?: number;
+    TRANSFER_PREPARE_TIMEOUT: number;
+    TRANSFER_RETRY_INTERVAL: number;
+    LOG_FILE: string;
+    LOG_LEVEL: 'error' | 'warn' | 'info' | 'debug';
+    LOG_MAX_SIZE: string;
+    LOG_MAX_FILES: number | string;
+    DATE_FORMAT: string;
+    NETWORK_CHECK_INTERVAL: number;
+    NETWORK_PROBES?: string[];
+    NETWORK_PROBE_HOST?: string;
+    NETWORK_PROBE_PORT: number;
+    NETWORK_PROBE_TIMEOUT: number;
+    SCAN_IP_RANGE?: string;
+    SCAN_PORT_RANGE?: string;
+    SCAN_CONCURRENCY: number;
+    SCAN_HOST_TIMEOUT: number;
+    ADMIN_PORT?: number;
+    ADMIN_HOST: string;
+    SHUTDOWN_TIMEOUT: number;
+    PIN_REQUIRED: boolean;
+    PIN_MAX_ATTEMPTS: number;
+    PIN_LOCKOUT: number;
+    TLS_PORT?: number;
+    TLS_ONLY: boolean;
+    TLS_CERT?: string;
+    TLS_KEY?: string;
+    TLS_CA?: string;
+    TLS_CLIENT_AUTH: 'none' | 'optional' | 'required';
+    TLS_PEER_FALLBACK: boolean;
+    PEER_BANKS: string[];
+    MAX_CONNECTIONS_PER_IP: number;
+    RATE_LIMIT_CONNECTION: number;
+    RATE_LIMIT_IP: number;
+    RATE_LIMIT_AC: number;
+    MAX_ACCOUNTS_PER_IP: number;
+    CREDIT_LIMIT: number;
+    LANGUAGE: 'cs' | 'en';
+}
+
+interface FieldSpec {
+    type: 'integer' | 'boolean' | 'string' | 'string[]' | 'string|integer' | 'object[]';
+    default?: unknown;
+    /** Hodnota musí být uvedena (v souboru, prostředí nebo na příkazové řádce). */
+    required?: boolean;
+    min?: number;
+    max?: number;
+    values?: string[];
+    /** Lze změnit za běhu přes SIGHUP bez restartu serveru. */
+    reloadable?: boolean;
+}
+
+const SCHEMA: Record<keyof AppConfig, FieldSpec> = {
+    PORT: { type: 'integer', required: true, min: 0, max: 65535 },
+    HOST: { type: 'string', default: '0.0.0.0' },
+    RESPONSE_TIMEOUT: { type: 'integer', default: 5000, min: 1, reloadable: true },
+    LOCK_TIMEOUT: { type: 'integer', default: 2000, min: 1, reloadable: true },
+    CLIENT_IDLE_TIMEOUT: { type: 'integer', default: 60000, min: 0, reloadable: true },
+    MAX_LINE_LENGTH: { type: 'integer', default: 1024, min: 16 },
+    STORAGE_TYPE: { type: 'string', default: 'file', values: ['file', 'memory', 'json'] },
+    STORAGE_FILE: { type: 'string', default: './data/accounts.json' },
+    ACCOUNTS_DIR: { type: 'string', required: true },
+    JOURNAL_FILE: { type: 'string', default: './data/journal.log' },
+    TRANSFER_LOG: { type: 'string', default: './data/transfers.log' },
+    AUDIT_DIR: { type: 'string', default: './data/audit' },
+    AUDIT_RETENTION_DAYS: { type: 'integer', default: 365, min: 0 },
+    QUARANTINE_DIR: { type: 'string', default: './data/quarantine' },
+    BACKUP_DIR: { type: 'string', default: './data/backups' },
+    INTEGRITY_STRICT: { type: 'boolean', default: false },
+    SCHEDULE: { type: 'object[]', default: [] },
+    SCHEDULER_LOG: { type: 'string', default: './data/scheduler.log' },
+    TRANSFER_STEP_TIMEOUT: { type: 'integer', min: 1 },
+    TRANSFER_PREPARE_TIMEOUT: { type: 'integer', default: 60000, min: 0 },
+    TRANSFER_RETRY_INTERVAL: { type: 'integer', default: 10000, min: 100 },
+    LOG_FILE: { type: 'string', default: './logs/bank.log' },
+    LOG_LEVEL: { type: 'string', default: 'info', values: ['error', 'warn', 'info', 'debug'], reloadable: true },
+    LOG_MAX_SIZE: { type: 'string', default: '20m' },
+    LOG_MAX_FILES: { type: 'string|integer', default: '14' },
+    DATE_FORMAT: { type: 'string', default: 'YYYY-MM-DD' },
+    NETWORK_CHECK_INTERVAL: { type: 'integer', default: 30000, min: 100, reloadable: true },
+    NETWORK_PROBES: { type: 'string[]', values: ['interfaces', 'proc-route', 'windows-route', 'tcp'] },
+    NETWORK_PROBE_HOST: { type: 'string' },
+    NETWORK_PROBE_PORT: { type: 'integer', default: 53, min: 1, max: 65535 },
+    NETWORK_PROBE_TIMEOUT: { type: 'integer', default: 2000, min: 1 },
+    SCAN_IP_RANGE: { type: 'string', reloadable: true },
+    SCAN_PORT_RANGE: { type: 'string', reloadable: true },
+    SCAN_CONCURRENCY: { type: 'integer', default: 32, min: 1, reloadable: true },
+    SCAN_HOST_TIMEOUT: { type: 'integer', default: 1000, min: 1, reloadable: true },
+    ADMIN_PORT: { type: 'integer', min: 0, max: 65535 },
+    ADMIN_HOST: { type: 'string', default: '127.0.0.1' },
+    SHUTDOWN_TIMEOUT: { type: 'integer', default: 10000, min: 0, reloadable: true },
+    PIN_REQUIRED: { type: 'boolean', default: false, reloadable: true },
+    PIN_MAX_ATTEMPTS: { type: 'integer', default: 3, min: 1 },
+    PIN_LOCKOUT: { type: 'integer', default: 300000, min: 0 },
+    TLS_PORT: { type: 'integer', min: 0, max: 65535 },
+    TLS_ONLY: { type: 'boolean', default: false },
+    TLS_CERT: { type: 'string' },
+    TLS_KEY: { type: 'string' },
+    TLS_CA: { type: 'string' },
+    TLS_CLIENT_AUTH: { type: 'string', default: 'none', values: ['none', 'optional', 'required'] },
+    TLS_PEER_FALLBACK: { type: 'boolean', default: true },
+    PEER_BANKS: { type: 'string[]', default: [], reloadable: true },
+    MAX_CONNECTIONS_PER_IP: { type: 'integer', default: 16, min: 0 },
+    RATE_LIMIT_CONNECTION: { type: 'integer', default: 600, min: 0 },
+    RATE_LIMIT_IP: { type: 'integer', default: 1200, min: 0 },
+    RATE_LIMIT_AC: { type: 'integer', default: 10, min: 0 },
+    MAX_ACCOUNTS_PER_IP: { type: 'integer', default: 100, min: 0, reloadable: true },
+    CREDIT_LIMIT: { type: 'integer', default: 0, min: 0, reloadable: true },
+    LANGUAGE: { type: 'string', default: 'cs', values: ['cs', 'en'], reloadable: true },
+};
+
+/** Předpona proměnných prostředí, např. BANK_PORT=65526. */
+export const ENV_PREFIX = 'BANK_';
+
+/**
+ * Neplatná konfigurace. Zpráva obsahuje všechny nalezené problémy najednou.
+ */
+export class ConfigError extends Error {
+    constructor(public problems: string[]) {
+        super(`Neplatná konfigurace:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    }
+}
+
+export interface LoadOptions {
+    /** Cesta ke konfiguračnímu souboru, jinak --config z příkazové řádky nebo ./app_config.json. */
+    file?: string;
+    env?: NodeJS.ProcessEnv;
+    argv?: string[];
+}
+
+/**
+ * Načte app_config.json, přepíše hodnoty z proměnných prostředí (BANK_<KLÍČ>) a z příkazové řádky
+ * (--<klíč>=hodnota nebo --<klíč> hodnota, např. --response-timeout 3000), doplní výchozí hodnoty a vše ověří.
+ */
+export function loadConfig(options: LoadOptions = {}): AppConfig {
+    const env = options.env ?? process.env;
+    const { flags, configFile } = parseArgs(options.argv ?? process.argv.slice(2));
+    const file = path.resolve(options.file ?? configFile ?? env[`${ENV_PREFIX}CONFIG`] ?? './app_config.json');
+    const problems: string[] = [];
+
+    if (!existsSync(file)) throw new ConfigError([`Chybí konfigurační soubor ${file}`]);
+
+    let raw: Record<string, unknown>;
+    try {
+        raw = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (err: any) {
+        throw new ConfigError([`${path.basename(file)} není platný JSON: ${err.message}`]);
+    }
+
+    for (const key of Object.keys(raw)) {
+        if (!(key in SCHEMA)) problems.push(`${key}: neznámý klíč (překlep?)`);
+    }
+
+    const config: Record<string, unknown> = {};
+    for (const [key, spec] of Object.entries(SCHEMA) as [string, FieldSpec][]) {
+        let value: unknown = raw[key];
+        let source = path.basename(file);
+
+        if (env[ENV_PREFIX + key] !== undefined) {
+            value = coerce(env[ENV_PREFIX + key]!, spec);
+            source = `${ENV_PREFIX}${key}`;
+        }
+        if (flags.has(key)) {
+            value = coerce(flags.get(key)!, spec);
+            source = `--${key.toLowerCase().replace(/_/g, '-')}`;
+        }
+
+        if (value === undefined || value === null) {
+            if (spec.required) problems.push(`${key}: chybí povinná hodnota`);
+            else if (spec.default !== undefined) config[key] = spec.default;
+            continue;
+        }
+
+        const problem = validate(value, spec);
+        if (problem) problems.push(`${key} (${source}): ${problem}`);
+        else config[key] = value;
+    }
+
+    for (const key of flags.keys()) {
+        if (!(key in SCHEMA)) problems.push(`--${key.toLowerCase().replace(/_/g, '-')}: neznámý přepínač`);
+    }
+
+    // Závislosti mezi klíči
+    if (config.TLS_PORT !== undefined && (!config.TLS_CERT || !config.TLS_KEY)) {
+        problems.push('TLS_PORT: vyžaduje TLS_CERT a TLS_KEY');
+    }
+    if (config.TLS_ONLY && config.TLS_PORT === undefined) {
+        problems.push('TLS_ONLY: vyžaduje TLS_PORT');
+    }
+    if (config.TLS_CLIENT_AUTH !== 'none' && !config.TLS_CA) {
+        problems.push(`TLS_CLIENT_AUTH: hodnota ${config.TLS_CLIENT_AUTH} vyžaduje TLS_CA`);
+    }
+    if (Array.isArray(config.PEER_BANKS)) {
+        const invalid = config.PEER_BANKS.filter(bank => !net.isIPv4(bank));
+        if (invalid.length > 0) problems.push(`PEER_BANKS: ${invalid.join(', ')} není IPv4 adresa`);
+    }
+    const scanRange = (key: 'SCAN_IP_RANGE' | 'SCAN_PORT_RANGE') => typeof config[key] === 'string' ? config[key] as string : undefined;
+    problems.push(...checkScanRanges(scanRange('SCAN_IP_RANGE'), scanRange('SCAN_PORT_RANGE')));
+    if (Array.isArray(config.SCHEDULE)) {
+        problems.push(...checkScheduleRules(config.SCHEDULE).map(problem => `SCHEDULE: ${problem}`));
+    }
+
+    if (problems.length > 0) throw new ConfigError(problems);
+    return config as unknown as AppConfig;
+}
+
+/**
+ * Znovu načte konfiguraci a do current (sdíleného objektu CONFIG) přepíše jen klíče, které lze měnit za běhu.
+ * Vrací seznam změněných klíčů a klíčů, jejichž změna vyžaduje restart.
+ * Při chybě vyhodí ConfigError a current nechá beze změny.
+ */
+export function reloadConfig(current: AppConfig, options: LoadOptions = {}): { changed: string[]; needsRestart: string[] } {
+    const fresh = loadConfig(options);
+    const changed: string[] = [];
+    const needsRestart: string[] = [];
+
+    for (const [key, spec] of Object.entries(SCHEMA) as [keyof AppConfig, FieldSpec][]) {
+        if (JSON.stringify(fresh[key]) === JSON.stringify(current[key])) continue;
+        if (spec.reloadable) {
+            Object.assign(current, { [key]: fresh[key] });
+            changed.push(key);
+        } else {
+            needsRestart.push(key);
+        }
+    }
+    return { changed, needsRestart };
+}
+
+function parseArgs(argv: string[]): { flags: Map<string, string>; configFile?: string } {
+    const flags = new Map<string, string>();
+    let configFile: string | undefined;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) continue;
+
+        let [name, value] = arg.slice(2).split(/=(.*)/s);
+        if (value === undefined && argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+            value = argv[++i];
+        }
+        const key = name.toUpperCase().replace(/-/g, '_');
+        if (key === 'CONFIG') configFile = value;
+        else flags.set(key, value ?? '');
+    }
+    return { flags, configFile };
+}
+
+/**
+ * Převod textu z prostředí nebo příkazové řádky na typ podle schématu.
+ * Neplatné hodnoty se nechají jako text, aby je validate nahlásil.
+ */
+function coerce(text: string, spec: FieldSpec): unknown {
+    switch (spec.type) {
+        case 'integer':
+            return /^-?\d+$/.test(text.trim()) ? Number(text) : text;
+        case 'boolean':
+            return text === 'true' || text === '1' || text === '' ? true : text === 'false' || text === '0' ? false : text;
+        case 'string|integer':
+            return /^\d+$/.test(text.trim()) ? Number(text) : text;
+        case 'string[]':
+            return text.split(',').map(s => s.trim()).filter(Boolean);
+        case 'object[]':
+            try {
+                return JSON.parse(text);
+            } catch {
+                return text;
+            }
+        default:
+            return text;
+    }
+}
+
+function validate(value: unknown, spec: FieldSpec): string | null {
+    switch (spec.type) {
+        case 'integer':
+            if (typeof value !== 'number' || !Number.isInteger(value)) return `musí být celé číslo, je ${JSON.stringify(value)}`;
+            if (spec.min !== undefined && value < spec.min) return `musí být alespoň ${spec.min}`;
+            if (spec.max !== undefined && value > spec.max) return `musí být nejvýše ${spec.max}`;
+            return null;
+        case 'boolean':
+            if (typeof value !== 'boolean') return `musí být true nebo false, je ${JSON.stringify(value)}`;
+            return null;
+        case 'string|integer':
+            if (typeof value !== 'string' && !(typeof value === 'number' && Number.isInteger(value))) {
+                return `musí být text nebo celé číslo, je ${JSON.stringify(value)}`;
+            }
+            return null;
+        case 'string':
+            if (typeof value !== 'string' || value === '') return `musí být neprázdný text, je ${JSON.stringify(value)}`;
+            if (spec.values && !spec.values.includes(value)) return `musí být jedna z hodnot ${spec.values.join(', ')}`;
+            return null;
+        case 'string[]':
+            if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) return `musí být pole textů`;
+            if (spec.values) {
+                const unknown = value.filter(v => !spec.values!.includes(v));
+                if (unknown.length > 0) return `neznámé hodnoty ${unknown.join(', ')} (povolené: ${spec.values.join(', ')})`;
+            }
+            return null;
+        case 'object[]':
+            if (!Array.isArray(value) || value.some(v => typeof v !== 'object' || v === null || Array.isArray(v))) return `musí být pole objektů`;
+            return null;
+    }
+}
@@ -0,0 +1,31 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { commandRegistry, renderCommandTable } from './commands/index.js';
+
+/**
+ * Přegeneruje tabulku příkazů v readme.md z popisů příkazů (spec), stejných jako pro HELP.
+ * Tabulka je mezi značkami COMMANDS_START a COMMANDS_END; `--check` soubor nemění, jen ohlásí zastaralou tabulku.
+ */
+const README = 'readme.md';
+const START = '<!-- COMMANDS_START -->';
+const END = '<!-- COMMANDS_END -->';
+
+const readme = readFileSync(README, 'utf8');
+const start = readme.indexOf(START);
+const end = readme.indexOf(END);
+if (start < 0 || end < start) {
+    console.error(`V ${README} chybí značky ${START} a ${END}.`);
+    process.exit(2);
+}
+
+const table = renderCommandTable([...commandRegistry.values()].map(command => command.spec));
+const updated = `${readme.slice(0, start + START.length)}\n${table}\n${readme.slice(end)}`;
+
+if (process.argv.includes('--check')) {
+    if (updated !== readme) {
+        console.error(`Tabulka příkazů v ${README} je zastaralá, spusťte npm run docs.`);
+        process.exit(1);
+    }
+} else if (updated !== readme) {
+    writeFileSync(README, updated);
+    console.log(`Tabulka příkazů v ${README} aktualizována.`);
+}
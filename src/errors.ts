@@ -0,0 +1,136 @@
+/**
+ * Jazyk chybových odpovědí. Výchozí nastavuje LANGUAGE v konfiguraci, klient si ho může změnit příkazem LG.
+ */
+export type Language = 'cs' | 'en';
+
+export const LANGUAGES: Language[] = ['cs', 'en'];
+
+export function isLanguage(value: string | undefined): value is Language {
+    return LANGUAGES.includes(value as Language);
+}
+
+interface CatalogEntry {
+    code: string;
+    cs: string;
+    en: string;
+}
+
+/**
+ * Katalog chyb: stabilní kód pro programy (`ER E201 ...`) a text v každém jazyce. Text může obsahovat parametry `{jméno}`.
+ * Kódy se nemění ani znovu nepoužívají - klienti se podle nich řídí.
+ *  - E1xx špatný formát příkazu, E2xx účty, E3xx PIN, E4xx převody AT, E5xx limity, E9xx server a spojení s bankami.
+ */
+const CATALOG = {
+    UNKNOWN_COMMAND: { code: 'E100', cs: 'Neznámý příkaz', en: 'Unknown command' },
+    INVALID_FORMAT: { code: 'E101', cs: 'Špatný formát.', en: 'Invalid format.' },
+    INVALID_TRANSACTION: { code: 'E102', cs: 'Špatný formát nebo účet neexistuje.', en: 'Invalid format or the account does not exist.' },
+    INVALID_TRANSFER: { code: 'E103', cs: 'Špatný formát převodu.', en: 'Invalid transfer format.' },
+    INVALID_AMOUNT: { code: 'E104', cs: 'Špatný formát částky.', en: 'Invalid amount.' },
+    INVALID_PIN_FORMAT: { code: 'E105', cs: 'Špatný formát, PIN musí mít 4 až 8 číslic.', en: 'Invalid format, the PIN must have 4 to 8 digits.' },
+    LINE_TOO_LONG: { code: 'E106', cs: 'Příkaz je příliš dlouhý', en: 'The command is too long' },
+    UNKNOWN_LANGUAGE: { code: 'E107', cs: 'Neznámý jazyk, podporované jsou: {languages}.', en: 'Unknown language, supported: {languages}.' },
+
+    ACCOUNT_NOT_FOUND: { code: 'E201', cs: 'Účet neexistuje.', en: 'The account does not exist.' },
+    LOW_FUNDS: { code: 'E202', cs: 'Není dostatek finančních prostředků!', en: 'Insufficient funds!' },
+    ACCOUNT_BUSY: { code: 'E203', cs: 'Účet je právě používán jinou operací, zkuste to znovu.', en: 'The account is being used by another operation, try again.' },
+    ACCOUNT_NOT_EMPTY: { code: 'E204', cs: 'Nelze smazat bankovní účet na kterém jsou finance.', en: 'An account with a non-zero balance cannot be removed.' },
+    REMOVE_NOT_OWNER: { code: 'E205', cs: 'Účet může smazat pouze jeho zakladatel z původní IP adresy.', en: 'Only the owner can remove the account, from the IP address it was created from.' },
+    PIN_NOT_OWNER: { code: 'E206', cs: 'PIN může nastavit pouze zakladatel účtu z původní IP adresy.', en: 'Only the owner can set the PIN, from the IP address the account was created from.' },
+    FOREIGN_ACCOUNT: { code: 'E207', cs: 'Účet nepatří této bance.', en: 'The account does not belong to this bank.' },
+    ACCOUNT_OVERDRAWN: { code: 'E208', cs: 'Účet v záporném zůstatku nelze zrušit, nejdřív je potřeba dluh splatit.', en: 'An account with a negative balance cannot be removed until the debt is repaid.' },
+
+    INVALID_PIN: { code: 'E301', cs: 'Neplatný PIN.', en: 'Invalid PIN.' },
+    ACCOUNT_LOCKED: { code: 'E302', cs: 'Účet je po opakovaném zadání špatného PINu dočasně zablokován.', en: 'The account is temporarily locked after repeated wrong PINs.' },
+    PIN_NOT_SET: { code: 'E303', cs: 'Účet nemá nastavený PIN, nastavte ho příkazem AP.', en: 'The account has no PIN, set one with AP.' },
+
+    UNKNOWN_TRANSFER: { code: 'E401', cs: 'Neznámý převod.', en: 'Unknown transfer.' },
+    TRANSFER_ABORTED: { code: 'E402', cs: 'Převod již byl zrušen.', en: 'The transfer has already been aborted.' },
+    TRANSFER_COMMITTED: { code: 'E403', cs: 'Převod již byl dokončen.', en: 'The transfer has already been completed.' },
+    TRANSFER_FOREIGN_ACCOUNTS: { code: 'E404', cs: 'Alespoň jeden z účtů musí být veden touto bankou.', en: 'At least one of the accounts must be held by this bank.' },
+    TRANSFER_SAME_ACCOUNT: { code: 'E405', cs: 'Nelze převádět na stejný účet.', en: 'Cannot transfer to the same account.' },
+    TRANSFER_PEER_UNAVAILABLE: { code: 'E406', cs: 'Banka {bank} je nedostupná ({reason}).', en: 'Bank {bank} is unavailable ({reason}).' },
+    TRANSFER_PEER_REJECTED: { code: 'E407', cs: 'Banka {bank}: {reason}', en: 'Bank {bank}: {reason}' },
+    TRANSFER_FAILED: { code: 'E408', cs: 'Převod se nezdařil: {reason}', en: 'The transfer failed: {reason}' },
+    TRANSFER_PEER_ONLY: { code: 'E409', cs: 'Tento příkaz přijímáme jen od ověřených bank.', en: 'This command is only accepted from verified banks.' },
+    TRANSFER_NOT_CONFIRMED: { code: 'E410', cs: 'Koordinátor převod nepotvrdil ({reason}).', en: 'The coordinator did not confirm the transfer ({reason}).' },
+
+    TOO_MANY_CONNECTIONS: { code: 'E501', cs: 'Příliš mnoho spojení z vaší adresy.', en: 'Too many connections from your address.' },
+    RATE_LIMITED: { code: 'E502', cs: 'Příliš mnoho příkazů, zpomalte.', en: 'Too many commands, slow down.' },
+    AC_RATE_LIMITED: { code: 'E503', cs: 'Příliš mnoho nových účtů za krátkou dobu, zkuste to později.', en: 'Too many new accounts in a short time, try again later.' },
+    ACCOUNT_LIMIT: { code: 'E504', cs: 'Z vaší adresy je založeno příliš mnoho účtů (limit {limit}).', en: 'Too many accounts created from your address (limit {limit}).' },
+
+    SERVER_ERROR: { code: 'E900', cs: 'Chyba na serveru', en: 'Server error' },
+    TIMEOUT: { code: 'E901', cs: 'Operace trvala příliš dlouho!', en: 'The operation took too long!' },
+    NO_NETWORK: { code: 'E902', cs: 'Není připojen síťový kabel (příkazy jsou blokovány)', en: 'The network is down (commands are blocked)' },
+    SHUTTING_DOWN: { code: 'E903', cs: 'Server se vypíná, příkaz nebyl proveden', en: 'The server is shutting down, the command was not executed' },
+    SERVER_STOPPING: { code: 'E904', cs: 'Server se vypíná', en: 'The server is shutting down' },
+    IDLE_TIMEOUT: { code: 'E905', cs: 'Odpojeno pro neaktivitu', en: 'Disconnected for inactivity' },
+    PEER_ERROR: { code: 'E906', cs: 'Chyba při komunikaci s cizí bankou: {reason}', en: 'Communication with the other bank failed: {reason}' },
+    // Chyba cizí banky bez kódu (starší verze serveru) - text se předá beze změny
+    PEER_REPLY: { code: 'E907', cs: '{reason}', en: '{reason}' },
+} satisfies Record<string, CatalogEntry>;
+
+export type ErrorKey = keyof typeof CATALOG;
+
+const KEYS_BY_CODE = new Map(Object.entries(CATALOG).map(([key, entry]) => [entry.code, key as ErrorKey]));
+
+export type ErrorParams = Record<string, string | number | BankError>;
+
+/**
+ * Chyba, kterou server pošle klientovi jako `ER <kód> <text>` v jazyce spojení.
+ * message je klíč z katalogu (např. LOW_FUNDS), takže porovnání `err.message === 'LOW_FUNDS'` dál funguje.
+ * Parametrem může být i jiná BankError (důvod zamítnutí převodu), ta se přeloží do stejného jazyka.
+ */
+export class BankError extends Error {
+    /**
+     * @param remoteText text převzatý z odpovědi jiné banky; použije se, když chybí parametry potřebné pro překlad
+     */
+    constructor(public readonly key: ErrorKey, public readonly params: ErrorParams = {}, private remoteText?: string) {
+        super(key);
+    }
+
+    public get code(): string {
+        return CATALOG[this.key].code;
+    }
+
+    public text(language: Language): string {
+        const template = CATALOG[this.key][language];
+        if (this.remoteText !== undefined && /\{\w+\}/.test(template) && Object.keys(this.params).length === 0) {
+            return this.remoteText;
+        }
+        return template.replace(/\{(\w+)\}/g, (match, name) => {
+            const value = this.params[name];
+            if (value === undefined) return match;
+            return value instanceof BankError ? value.text(language) : String(value);
+        });
+    }
+
+    /** Celý řádek odpovědi bez \r\n, např. `ER E202 Není dostatek finančních prostředků!`. */
+    public toReply(language: Language): string {
+        return `ER ${this.code} ${this.text(language)}`;
+    }
+}
+
+/**
+ * Převede libovolnou chybu z příkazu na BankError. Neočekávané chyby (chyba v kódu, disk) se klientovi
+ * nepopisují, ohlásí se jen jako SERVER_ERROR.
+ */
+export function toBankError(err: any): BankError {
+    if (err instanceof BankError) return err;
+    if (err?.message === 'TIMEOUT') return new BankError('TIMEOUT');
+    return new BankError('SERVER_ERROR');
+}
+
+/**
+ * Rozpozná chybovou odpověď jiné banky. `ER <kód> <text>` se známým kódem vrátí jako stejnou BankError,
+ * ostatní `ER ...` jako PEER_REPLY s původním textem. Pro odpověď, která chybou není, vrátí null.
+ */
+export function parseErrorReply(line: string): BankError | null {
+    if (!/^ER(\s|$)/.test(line)) return null;
+
+    const text = line.slice(2).trim();
+    const match = /^(E\d{3})\s*(.*)$/.exec(text);
+    const key = match ? KEYS_BY_CODE.get(match[1]) : undefined;
+    if (key) return new BankError(key, {}, match[2]);
+    return new BankError('PEER_REPLY', { reason: text });
+}
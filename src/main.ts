@@ -1,18 +1,19 @@
-import net from 'node:net';
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
 import path from 'node:path';
 import winston from 'winston'; // not cigarettes⚠️
 import DailyRotateFile from 'winston-daily-rotate-file';
-import { NetworkMonitor } from './NetworkMonitor.js';
-import { commandRegistry, CommandContext } from './commands/index.js';
-
-// Loading the config
-const configPath = path.resolve('./app_config.json');
-if (!existsSync(configPath)) {
-    console.error("Chybí app_config.json!");
+import { AppConfig, ConfigError, loadConfig } from './config.js';
+import { startServer } from './server.js';
+
+// Loading the config (app_config.json + BANK_* proměnné prostředí + přepínače příkazové řádky)
+let CONFIG: AppConfig;
+try {
+    CONFIG = loadConfig();
+} catch (err: any) {
+    if (!(err instanceof ConfigError)) throw err;
+    console.error(err.message);
     process.exit(1);
 }
-const CONFIG = JSON.parse(readFileSync(configPath, 'utf-8'));
 
 {
     const logDir = path.dirname(CONFIG.LOG_FILE);
@@ -26,7 +27,7 @@ const CONFIG = JSON.parse(readFileSync(configPath, 'utf-8'));
 }
 
 // Make date pattern safe for filenames on Windows (':' not allowed) and avoid spaces
-const rawDatePattern = (CONFIG.DATE_FORMAT || 'YYYY-MM-DD');
+const rawDatePattern = CONFIG.DATE_FORMAT;
 const safeDatePattern = rawDatePattern.replace(/:/g, '-').replace(/\s+/g, '_');
 
 // Build a filename pattern for rotation that places %DATE% before the extension
@@ -40,97 +41,49 @@ if (CONFIG.LOG_FILE.includes('%DATE%')) {
 }
 
 // Logging configuration
+const fileTransport = new DailyRotateFile({
+    filename: rotateFilename,
+    datePattern: safeDatePattern,
+    maxSize: CONFIG.LOG_MAX_SIZE,
+    maxFiles: CONFIG.LOG_MAX_FILES,
+    zippedArchive: true
+});
 const logger = winston.createLogger({
-    level: 'info',
+    level: CONFIG.LOG_LEVEL,
     format: winston.format.combine(
         winston.format.timestamp(),
         winston.format.printf(({ timestamp, level, message }) => `[${timestamp}] ${level.toUpperCase()}: ${message}`)
     ),
-    transports: [
-        new winston.transports.Console(),
-        new DailyRotateFile({
-            filename: rotateFilename,
-            datePattern: safeDatePattern,
-            maxSize: CONFIG.LOG_MAX_SIZE || '20m',
-            maxFiles: CONFIG.LOG_MAX_FILES || '14',
-            zippedArchive: true
-        })
-    ]
+    transports: [new winston.transports.Console(), fileTransport]
 });
 
-
-function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
-    return Promise.race([
-        promise,
-        new Promise<never>((_, reject) => setTimeout(() => reject(new Error('TIMEOUT')), ms))
-    ]);
-}
-
-async function startServer() {
-    if (!existsSync(CONFIG.ACCOUNTS_DIR)) mkdirSync(CONFIG.ACCOUNTS_DIR);
-
-    const networkMonitor = new NetworkMonitor(logger, CONFIG.NETWORK_CHECK_INTERVAL || 30000);
-    networkMonitor.startMonitoring();
-    const server = net.createServer((socket) => {
-        const remoteInfo = `${socket.remoteAddress}:${socket.remotePort}`;
-        logger.info(`Připojen klient: ${remoteInfo}`);
-        socket.setTimeout(CONFIG.CLIENT_IDLE_TIMEOUT);
-        socket.on('timeout', () => {
-            socket.write('ER Odpojeno pro neaktivitu\r\n');
-            logger.warn(`Klient ${remoteInfo} odpojen pro neaktivitu.`);
-            socket.end();
-        });
-
-        socket.on('data', async (data) => {
-
-            const input = data.toString().trim();
-            if (!input) return;
-
-            if (!networkMonitor.checkConnection()) {
-                const errorMsg = "ER Není připojen síťový kabel (příkazy jsou blokovány)\r\n";
-                socket.write(errorMsg);
-                logger.error(`Příkaz zablokován pro ${socket.remoteAddress}: Žádná síť`);
-                return; // Ukončí zpracování
-            }
-
-            const [command, ...args] = input.split(/\s+/);
-            const bankCode = socket.localAddress.replace('::ffff:', '');
-
-            try {
-                await withTimeout((async () => {
-                    const handler = commandRegistry.get(command);
-                    if (handler) {
-                        const ctx: CommandContext = {
-                            socket,
-                            args,
-                            bankCode,
-                            remoteInfo,
-                            logger,
-                            networkMonitor,
-                            CONFIG
-                        };
-                        await handler.execute(ctx);
-                    } else {
-                        socket.write(`ER Neznámý příkaz\r\n`);
-                    }
-                })(), CONFIG.RESPONSE_TIMEOUT);
-
-            } catch (err: any) {
-                let errMsg = "ER Chyba na serveru";
-                if (err.message === 'TIMEOUT') errMsg = "ER Operace trvala příliš dlouho!";
-                if (err.message === 'LOW_FUNDS') errMsg = "ER Není dostatek finančních prostředků!";
-
-                socket.write(`${errMsg}\r\n`);
-                logger.error(`Chyba (${remoteInfo}): ${err.message}`);
-            }
+/**
+ * Zapíše zbývající logy do souboru a ukončí proces s daným kódem.
+ */
+function exit(code: number) {
+    const timer = setTimeout(() => process.exit(code), 3000); // pojistka, kdyby se transport nezavřel
+    // Logger skončí dřív, než rotující soubor zapíše vše na disk; proto se čeká až na jeho zavření
+    logger.once('finish', () => {
+        fileTransport.once('finish', () => {
+            clearTimeout(timer);
+            process.exit(code);
         });
-
-        socket.on('error', (err) => logger.error(`Socket error: ${err.message}`));
-    });
-
-    server.listen(CONFIG.PORT, CONFIG.HOST, () => {
-        logger.info(`bankovní SERVER spuštěn na ${CONFIG.HOST}:${CONFIG.PORT}`);
+        fileTransport.close();
     });
+    logger.end();
 }
 
-startServer().catch(err => logger.error(`FATAL: ${err.message}`));
\ No newline at end of file
+// Kódy ukončení: 0 = řádné vypnutí, 1 = chyba při startu, 2 = některé příkazy nestihly doběhnout
+startServer(CONFIG, logger).then(server => {
+    process.on('SIGHUP', () => server.reload());
+
+    const shutdown = (signal: string) => {
+        logger.info(`Přijat ${signal}, vypínám server...`);
+        server.stop().then(drained => exit(drained ? 0 : 2));
+    };
+    process.once('SIGINT', () => shutdown('SIGINT'));
+    process.once('SIGTERM', () => shutdown('SIGTERM'));
+}).catch(err => {
+    logger.error(`FATAL: ${err.message}`);
+    exit(1);
+});
@@ -0,0 +1,195 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import { Logger } from 'winston';
+import { AuditDetails, Command, Middleware, validateArgs } from './commands/index.js';
+import { NetworkMonitor } from './NetworkMonitor.js';
+import { Metrics, CommandOutcome } from './Metrics.js';
+import { RateLimiter, TokenBucket } from './RateLimiter.js';
+import { BankError, toBankError } from './errors.js';
+import { AuditLog } from './AuditLog.js';
+import { SnapshotLock } from './SnapshotLock.js';
+
+/**
+ * Middlewary serveru kolem příkazů. Server je registruje v CommandPipeline v tomto pořadí:
+ * chyby -> vypínání -> síť -> jen ověřené banky (jen inter-bank) -> metriky -> časový limit -> limity klientů -> argumenty
+ * -> zámek zálohy (jen mutating) -> audit (audited a proxyable) -> limit účtů (jen creates-account).
+ */
+
+export function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: NodeJS.Timeout;
+    return Promise.race([
+        promise,
+        new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error('TIMEOUT')), ms);
+        })
+    ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Socket pro jeden příkaz, který po isActive() === false zahazuje zápisy. Příkaz, který doběhne až po
+ * RESPONSE_TIMEOUT (např. pomalá cizí banka), tak nepošle druhou odpověď a neposune odpovědi dalších příkazů.
+ */
+function guardSocket(socket: net.Socket, isActive: () => boolean): net.Socket {
+    return new Proxy(socket, {
+        get(target, prop) {
+            if (prop === 'write') return (...args: Parameters<net.Socket['write']>) => isActive() && target.write(...args);
+            const value = Reflect.get(target, prop);
+            return typeof value === 'function' ? value.bind(target) : value;
+        }
+    });
+}
+
+/**
+ * Chyba kteréhokoli dalšího kroku se klientovi pošle jako `ER <kód> <text>` v jazyce spojení a zapíše do logu.
+ */
+export function replyErrors(logger: Logger): Middleware {
+    return async (ctx, next) => {
+        // Odpověď jde přímo do socketu spojení - socket příkazu po vypršení limitu zápisy zahazuje
+        const { socket, session, remoteInfo } = ctx;
+        try {
+            await next();
+        } catch (err: any) {
+            const error = toBankError(err);
+            socket.write(`${error.toReply(session.language)}\r\n`);
+            logger.error(`Chyba (${remoteInfo}): ${err instanceof BankError ? `${error.code} ${error.text('cs')}` : err.message}`);
+        }
+    };
+}
+
+/** Během vypínání serveru se nové příkazy neprovedou. */
+export function rejectWhileStopping(isStopping: () => boolean): Middleware {
+    return async (_ctx, next) => {
+        if (isStopping()) throw new BankError('SHUTTING_DOWN');
+        await next();
+    };
+}
+
+/** Bez sítě se příkazy blokují (podle posledního výsledku kontroly sítě). */
+export function requireNetwork(networkMonitor: NetworkMonitor): Middleware {
+    return async (_ctx, next) => {
+        if (!networkMonitor.isOnline()) throw new BankError('NO_NETWORK');
+        await next();
+    };
+}
+
+/**
+ * Příkazy převodů mezi bankami (štítek inter-bank) přijme jen od banky ověřené klientským certifikátem (TLS_CLIENT_AUTH)
+ * nebo z adresy uvedené v PEER_BANKS. Od obyčejného klienta by TC stačilo k připsání peněz na účet.
+ */
+export function peersOnly(): Middleware {
+    return async (ctx, next) => {
+        const certified = ctx.socket instanceof tls.TLSSocket && ctx.socket.authorized;
+        if (!certified && !ctx.CONFIG.PEER_BANKS.includes(ctx.clientIp)) throw new BankError('TRANSFER_PEER_ONLY');
+        await next();
+    };
+}
+
+/** Počet, chyby, překročení limitu a doba zpracování každého příkazu. */
+export function recordMetrics(metrics: Metrics): Middleware {
+    return async (ctx, next) => {
+        const startedAt = Date.now();
+        let outcome: CommandOutcome = 'ok';
+        try {
+            await next();
+        } catch (err: any) {
+            outcome = err.message === 'TIMEOUT' ? 'timeout' : 'error';
+            throw err;
+        } finally {
+            metrics.recordCommand(ctx.command, Date.now() - startedAt, outcome);
+        }
+    };
+}
+
+/**
+ * Příkaz musí odpovědět do RESPONSE_TIMEOUT, jinak vyhodí TIMEOUT. Dál dostane socket, do kterého už
+ * po vypršení limitu (ani po odpovědi na chybu) nic nezapíše.
+ */
+export function responseTimeout(): Middleware {
+    return async (ctx, next) => {
+        let answered = false;
+        try {
+            await withTimeout(next({ ...ctx, socket: guardSocket(ctx.socket, () => !answered) }), ctx.CONFIG.RESPONSE_TIMEOUT);
+        } finally {
+            answered = true;
+        }
+    };
+}
+
+/** Limity příkazů za minutu na spojení a na IP adresu (RateLimiter). */
+export function rateLimit(limiter: RateLimiter): Middleware {
+    // Kbelík spojení patří k jeho session, která přetrvá mezi příkazy
+    const buckets = new WeakMap<object, TokenBucket | null>();
+    return async (ctx, next) => {
+        if (!buckets.has(ctx.session)) buckets.set(ctx.session, limiter.connectionBucket());
+        limiter.checkCommand(ctx.clientIp, ctx.command, buckets.get(ctx.session));
+        await next();
+    };
+}
+
+/** Kontrola argumentů podle popisu příkazu (validateArgs). */
+export function validateArguments(commands: Map<string, Command>): Middleware {
+    return async (ctx, next) => {
+        const command = commands.get(ctx.command);
+        if (command) validateArgs(command.spec, ctx.args);
+        await next();
+    };
+}
+
+/**
+ * Příkazy měnící účty drží sdílený zámek zálohy i se zápisem do auditu, takže záloha vidí jen dokončené příkazy.
+ */
+export function holdSnapshotLock(lock: SnapshotLock): Middleware {
+    return (ctx, next) => lock.runShared(() => next(ctx));
+}
+
+/**
+ * Zápis příkazu do auditního logu: příkazy se štítkem audited a všechny přeposlané cizí bance. Účet a částka se berou
+ * z argumentů podle popisu příkazu (PIN nikdy), zůstatky doplní příkaz do ctx.audit. Výsledkem je OK nebo kód chyby.
+ * Záznam se zapíše, až příkaz skutečně skončí - i když klient mezitím dostal TIMEOUT.
+ */
+export function auditTrail(audit: AuditLog, commands: Map<string, Command>): Middleware {
+    return async (ctx, next) => {
+        const { spec } = commands.get(ctx.command)!;
+        const tags = spec.tags ?? [];
+        const argument = (...types: string[]) => ctx.args[spec.args.findIndex(arg => types.includes(arg.type))];
+        const [account, bank] = (argument('account') ?? '').split('/');
+        const proxied = tags.includes('proxyable') && Boolean(bank) && bank !== ctx.bankCode;
+        if (!proxied && !tags.includes('audited')) return next();
+
+        const details: AuditDetails = {};
+        let outcome = 'OK';
+        try {
+            await next({ ...ctx, audit: details });
+        } catch (err: any) {
+            outcome = toBankError(err).code;
+            throw err;
+        } finally {
+            await audit.append({
+                remote: ctx.remoteInfo,
+                command: ctx.command,
+                account: details.account ?? (account || undefined),
+                proxiedTo: proxied ? bank : undefined,
+                amount: argument('amount', 'positiveAmount'),
+                before: details.before?.toString(),
+                after: details.after?.toString(),
+                outcome
+            }).catch(err => ctx.logger.error(`Audit: záznam o ${ctx.command} (${ctx.remoteInfo}) se nepodařilo zapsat: ${err.message}`));
+        }
+    };
+}
+
+/**
+ * MAX_ACCOUNTS_PER_IP: kontrola počtu účtů a založení nového pod zámkem adresy, aby limit nepřekročila souběžná AC.
+ */
+export function accountLimit(): Middleware {
+    return async (ctx, next) => {
+        const { CONFIG, clientIp, store, accountLocks } = ctx;
+        if (CONFIG.MAX_ACCOUNTS_PER_IP <= 0) return next();
+
+        await accountLocks.runExclusive(`AC:${clientIp}`, async () => {
+            const owned = await store.countOwned(clientIp);
+            if (owned >= CONFIG.MAX_ACCOUNTS_PER_IP) throw new BankError('ACCOUNT_LIMIT', { limit: CONFIG.MAX_ACCOUNTS_PER_IP });
+            await next();
+        });
+    };
+}
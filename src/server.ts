@@ -0,0 +1,394 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import fs from 'node:fs/promises';
+import { Logger } from 'winston';
+import { NetworkMonitor } from './NetworkMonitor.js';
+import { createProbes } from './NetworkProbes.js';
+import { LineReader } from './LineReader.js';
+import { AccountLockManager } from './AccountLockManager.js';
+import { AccountStore, availableBalance, checkAccountFiles, createAccountStore, writeIntegrityReport } from './storage/index.js';
+import { commandRegistry, CommandContext, CommandPipeline, Session, proxyEvents } from './commands/index.js';
+import { TransferManager } from './TransferManager.js';
+import { TransactionJournal } from './TransactionJournal.js';
+import { AppConfig, reloadConfig } from './config.js';
+import { Metrics } from './Metrics.js';
+import { AdminServer, ClientInfo } from './AdminServer.js';
+import { PinGuard } from './PinGuard.js';
+import { PeerClient } from './PeerClient.js';
+import { RateLimiter } from './RateLimiter.js';
+import { AuditLog } from './AuditLog.js';
+import { SnapshotLock } from './SnapshotLock.js';
+import { Scheduler } from './Scheduler.js';
+import { createBackupArchive, captureAccounts, writeBackup } from './Backup.js';
+import { BankError } from './errors.js';
+import {
+    withTimeout, replyErrors, rejectWhileStopping, requireNetwork, peersOnly, recordMetrics, responseTimeout, rateLimit, validateArguments, holdSnapshotLock,
+    auditTrail, accountLimit
+} from './middlewares.js';
+
+/**
+ * Běžící banka vrácená ze startServer.
+ */
+export interface BankServer {
+    /** Skutečný nešifrovaný TCP port (při PORT 0 ho přidělí systém), nebo null při TLS_ONLY. */
+    readonly port: number | null;
+    /** Skutečný TLS port, nebo null, pokud TLS není zapnuté. */
+    readonly tlsPort: number | null;
+    /** Port HTTP správy, nebo null, pokud není zapnutá. */
+    readonly adminPort: number | null;
+    readonly store: AccountStore;
+    /** Znovu načte konfiguraci (SIGHUP). Při chybě ponechá původní. */
+    reload(): void;
+    /**
+     * Řízené ukončení: přestane přijímat spojení, oznámí klientům vypnutí, počká na rozpracované příkazy
+     * nejvýše SHUTDOWN_TIMEOUT ms a zastaví sledování sítě, převody, plánovač i HTTP správu.
+     * Vrací true, pokud všechny příkazy stihly doběhnout. Opakované volání vrací stejný výsledek.
+     */
+    stop(): Promise<boolean>;
+}
+
+interface Connection {
+    info: ClientInfo;
+    session: Session;
+    /** Poslední příkaz ve frontě spojení; po jeho dokončení spojení nic nezpracovává. */
+    queue: Promise<void>;
+}
+
+function listen(server: net.Server, port: number, host: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+            server.off('error', reject);
+            resolve((server.address() as net.AddressInfo).port);
+        });
+    });
+}
+
+/**
+ * Kontrola souborů účtů před startem: vadné soubory přesune do QUARANTINE_DIR a zapíše tam zprávu.
+ * S INTEGRITY_STRICT nic nepřesouvá a při jakémkoli problému banku nespustí.
+ */
+async function checkAccountsDir(CONFIG: AppConfig, logger: Logger): Promise<void> {
+    const report = await checkAccountFiles(CONFIG.ACCOUNTS_DIR, CONFIG.INTEGRITY_STRICT ? undefined : CONFIG.QUARANTINE_DIR);
+    if (report.problems.length === 0) return;
+
+    const file = await writeIntegrityReport(report, CONFIG.QUARANTINE_DIR);
+    for (const { file, reason } of report.problems) logger.warn(`Kontrola účtů: ${file}: ${reason}`);
+    if (CONFIG.INTEGRITY_STRICT) {
+        throw new Error(`Kontrola účtů našla ${report.problems.length} problémů (zpráva ${file}), INTEGRITY_STRICT banku nespustí.`);
+    }
+    logger.warn(`Kontrola účtů: ${report.quarantined.length} souborů přesunuto do ${CONFIG.QUARANTINE_DIR}, zpráva ${file}.`);
+}
+
+/**
+ * Spustí banku podle konfigurace a vrátí ji, jakmile TCP server naslouchá.
+ */
+export async function startServer(CONFIG: AppConfig, logger: Logger): Promise<BankServer> {
+    // Příprava úložiště včetně obnovy po případném pádu ještě před přijetím prvního klienta. Žurnál se dokončí
+    // před kontrolou souborů - soubor rozepsaný při pádu není vadný, žurnál ho vrátí do původního stavu.
+    if (CONFIG.STORAGE_TYPE === 'file') {
+        await fs.mkdir(CONFIG.ACCOUNTS_DIR, { recursive: true });
+        await new TransactionJournal(CONFIG.JOURNAL_FILE, logger).recover(CONFIG.ACCOUNTS_DIR);
+        await checkAccountsDir(CONFIG, logger);
+    }
+    const store = createAccountStore(CONFIG, logger);
+    await store.init();
+
+    const networkMonitor = new NetworkMonitor(logger, CONFIG.NETWORK_CHECK_INTERVAL, createProbes(CONFIG));
+    await networkMonitor.startMonitoring();
+    const accountLocks = new AccountLockManager(CONFIG.LOCK_TIMEOUT);
+    const pins = new PinGuard(CONFIG.PIN_MAX_ATTEMPTS, CONFIG.PIN_LOCKOUT);
+    const limiter = new RateLimiter({
+        maxConnectionsPerIp: CONFIG.MAX_CONNECTIONS_PER_IP,
+        perConnection: CONFIG.RATE_LIMIT_CONNECTION,
+        perIp: CONFIG.RATE_LIMIT_IP,
+        accountCreation: CONFIG.RATE_LIMIT_AC
+    });
+
+    // Certifikát a klíč slouží TLS serveru i jako klientský certifikát vůči ostatním bankám (mutual TLS)
+    let tlsOptions: { cert: Buffer; key: Buffer; ca?: Buffer } | undefined;
+    if (CONFIG.TLS_PORT !== undefined) {
+        tlsOptions = {
+            cert: await fs.readFile(CONFIG.TLS_CERT),
+            key: await fs.readFile(CONFIG.TLS_KEY),
+            ca: CONFIG.TLS_CA ? await fs.readFile(CONFIG.TLS_CA) : undefined
+        };
+    }
+    const peers = new PeerClient({
+        port: CONFIG.PORT,
+        tlsPort: CONFIG.TLS_PORT,
+        // Bez TLS_CA nelze certifikát protistrany ověřit, spojení je pak jen šifrované
+        tls: tlsOptions && { ...tlsOptions, rejectUnauthorized: Boolean(CONFIG.TLS_CA) },
+        fallback: CONFIG.TLS_PEER_FALLBACK
+    }, logger);
+
+    const audit = new AuditLog(CONFIG.AUDIT_DIR, CONFIG.AUDIT_RETENTION_DAYS, logger);
+    await audit.init();
+
+    // Záloha (POST /backup) kopíruje účty, když žádný příkaz, převod ani plánovač účty nemění
+    const snapshotLock = new SnapshotLock();
+
+    // Převody AT - dokončení nebo vrácení rozpracovaných převodů z minulého běhu
+    const transfers = new TransferManager(
+        store,
+        accountLocks,
+        logger,
+        (bank, line, timeoutMs) => peers.send(bank, line, timeoutMs),
+        {
+            logFile: CONFIG.TRANSFER_LOG,
+            stepTimeoutMs: CONFIG.TRANSFER_STEP_TIMEOUT ?? Math.floor(CONFIG.RESPONSE_TIMEOUT / 3),
+            prepareTimeoutMs: CONFIG.TRANSFER_PREPARE_TIMEOUT,
+            retryIntervalMs: CONFIG.TRANSFER_RETRY_INTERVAL,
+            authorizeWithdrawal: async (account, pin) => {
+                await pins.authorize(account, pin, CONFIG.PIN_REQUIRED);
+            },
+            defaultCreditLimit: () => BigInt(CONFIG.CREDIT_LIMIT),
+            snapshotLock,
+            audit
+        }
+    );
+    await transfers.init();
+    transfers.start();
+
+
+    // Úroky a poplatky (SCHEDULE) - dokončení změn přerušených pádem, pak pravidelná kontrola období
+    const scheduler = new Scheduler(store, accountLocks, logger, {
+        logFile: CONFIG.SCHEDULER_LOG,
+        rules: CONFIG.SCHEDULE,
+        lockTimeoutMs: CONFIG.LOCK_TIMEOUT,
+        snapshotLock,
+        audit
+    });
+    await scheduler.init();
+    scheduler.start();
+
+    const connections = new Map<net.Socket, Connection>();
+    const metrics = new Metrics(commandRegistry.keys(), () => CONFIG.PEER_BANKS);
+    const onProxyFailure = (target: string) => metrics.recordProxyFailure(target);
+    proxyEvents.on('failure', onProxyFailure);
+    let stopping: Promise<boolean> | null = null;
+
+    // Společné kroky všech příkazů; pořadí je podstatné, viz middlewares.ts
+    const pipeline = new CommandPipeline(commandRegistry)
+        .use(replyErrors(logger))
+        .use(rejectWhileStopping(() => stopping !== null))
+        .use(requireNetwork(networkMonitor))
+        .use(peersOnly(), ['inter-bank'])
+        .use(recordMetrics(metrics))
+        .use(responseTimeout())
+        .use(rateLimit(limiter))
+        .use(validateArguments(commandRegistry))
+        .use(holdSnapshotLock(snapshotLock), ['mutating'])
+        .use(auditTrail(audit, commandRegistry), ['audited', 'proxyable'])
+        .use(accountLimit(), ['creates-account']);
+
+    // Volitelný HTTP server pro /health, /metrics, /clients, zálohu, export a úvěrové limity
+    let admin: AdminServer | null = null;
+    if (CONFIG.ADMIN_PORT !== undefined) {
+        admin = new AdminServer({
+            logger,
+            metrics,
+            networkMonitor,
+            store,
+            clients: () => [...connections.values()].map(c => c.info),
+            snapshot: () => snapshotLock.runExclusive(() => store.list(), CONFIG.LOCK_TIMEOUT),
+            backup: async () => {
+                const { accounts, extra: head } = await captureAccounts(store, snapshotLock, CONFIG.LOCK_TIMEOUT, () => audit.head());
+                const archive = createBackupArchive(accounts, { storageType: CONFIG.STORAGE_TYPE, audit: head });
+                const file = await writeBackup(CONFIG.BACKUP_DIR, archive);
+                logger.info(`Záloha ${file}: ${archive.metadata.accounts} účtů, celkem ${archive.metadata.total}.`);
+                return { file, ...archive.metadata };
+            },
+            // Změna limitu jde jako příkazy měnící účty pod zámek zálohy i účtu a do auditu
+            setCreditLimit: (number, creditLimit) => snapshotLock.runShared(() => accountLocks.runExclusive(number, async () => {
+                const account = await store.find(number);
+                if (!account) throw new BankError('ACCOUNT_NOT_FOUND');
+                await store.setCreditLimit(number, creditLimit);
+                const limit = creditLimit ?? BigInt(CONFIG.CREDIT_LIMIT);
+                await audit.append({ remote: 'admin', command: 'CL', account: number, amount: creditLimit?.toString(), outcome: 'OK' })
+                    .catch(err => logger.error(`Audit: záznam o CL účtu ${number} se nepodařilo zapsat: ${err.message}`));
+                logger.info(`Úvěrový limit účtu ${number}: ${creditLimit ?? `výchozí (${limit})`}.`);
+                return {
+                    account: number,
+                    balance: account.balance.toString(),
+                    creditLimit: limit.toString(),
+                    available: availableBalance({ ...account, creditLimit: limit }, 0n).toString()
+                };
+            }, CONFIG.LOCK_TIMEOUT))
+        });
+        await admin.start(CONFIG.ADMIN_PORT, CONFIG.ADMIN_HOST);
+    }
+
+    const handleConnection = (socket: net.Socket) => {
+        const remoteInfo = `${socket.remoteAddress}:${socket.remotePort}`;
+        const clientIp = socket.remoteAddress?.replace('::ffff:', '') || '127.0.0.1';
+        socket.on('error', (err) => logger.error(`Socket error: ${err.message}`));
+
+        if (!limiter.connectionOpened(clientIp)) {
+            logger.warn(`Spojení ${remoteInfo} odmítnuto: z adresy ${clientIp} je už ${CONFIG.MAX_CONNECTIONS_PER_IP} spojení.`);
+            socket.end(`${new BankError('TOO_MANY_CONNECTIONS').toReply(CONFIG.LANGUAGE)}\r\n`, () => socket.destroy());
+            return;
+        }
+        logger.info(`Připojen klient: ${remoteInfo}`);
+        const connectedAt = new Date().toISOString();
+        const connection: Connection = {
+            info: { remote: remoteInfo, connectedAt, lastActivityAt: connectedAt, lastCommand: null, commands: 0 },
+            session: { language: CONFIG.LANGUAGE },
+            queue: Promise.resolve()
+        };
+        const client = connection.info;
+        const reply = (error: BankError) => socket.write(`${error.toReply(connection.session.language)}\r\n`);
+        connections.set(socket, connection);
+        metrics.socketOpened();
+        socket.on('close', () => {
+            connections.delete(socket);
+            metrics.socketClosed();
+            limiter.connectionClosed(clientIp);
+        });
+        socket.setTimeout(CONFIG.CLIENT_IDLE_TIMEOUT);
+        socket.on('timeout', () => {
+            reply(new BankError('IDLE_TIMEOUT'));
+            logger.warn(`Klient ${remoteInfo} odpojen pro neaktivitu.`);
+            socket.end();
+        });
+
+        const reader = new LineReader(CONFIG.MAX_LINE_LENGTH);
+
+        const handleLine = async (input: string) => {
+            if (socket.destroyed) return;
+
+            const [command, ...args] = input.split(/\s+/);
+            client.lastCommand = command;
+            client.lastActivityAt = new Date().toISOString();
+            client.commands++;
+
+            const ctx: CommandContext = {
+                socket,
+                command,
+                args,
+                bankCode: socket.localAddress.replace('::ffff:', ''),
+                remoteInfo,
+                clientIp,
+                logger,
+                networkMonitor,
+                accountLocks,
+                store,
+                transfers,
+                pins,
+                peers,
+                session: connection.session,
+                CONFIG
+            };
+            await pipeline.run(ctx);
+        };
+
+        // Příkazy poslané najednou (pipelining) se zpracují přísně za sebou, každý s jednou odpovědí
+        socket.on('data', (data) => {
+            for (const line of reader.push(data)) {
+                if (line.tooLong) {
+                    connection.queue = connection.queue.then(() => {
+                        reply(new BankError('LINE_TOO_LONG'));
+                        logger.warn(`Příliš dlouhý příkaz od ${remoteInfo} byl zahozen.`);
+                    });
+                    continue;
+                }
+
+                const input = line.text.trim();
+                if (!input) continue;
+                connection.queue = connection.queue.then(() => handleLine(input));
+            }
+        });
+
+    };
+
+    // Nešifrovaný port a TLS port (pokud je nastavený) obsluhují stejné příkazy
+    const servers: net.Server[] = [];
+    let port: number | null = null;
+    let tlsPort: number | null = null;
+    if (!CONFIG.TLS_ONLY) {
+        const server = net.createServer(handleConnection);
+        servers.push(server);
+        port = await listen(server, CONFIG.PORT, CONFIG.HOST);
+        logger.info(`bankovní SERVER spuštěn na ${CONFIG.HOST}:${port}`);
+    }
+    if (tlsOptions) {
+        const tlsServer = tls.createServer({
+            ...tlsOptions,
+            requestCert: CONFIG.TLS_CLIENT_AUTH !== 'none',
+            rejectUnauthorized: CONFIG.TLS_CLIENT_AUTH === 'required'
+        }, handleConnection);
+        tlsServer.on('tlsClientError', (err, socket) => {
+            logger.warn(`TLS spojení z ${socket.remoteAddress} odmítnuto: ${err.message}`);
+        });
+        servers.push(tlsServer);
+        tlsPort = await listen(tlsServer, CONFIG.TLS_PORT, CONFIG.HOST);
+        logger.info(`bankovní SERVER (TLS) spuštěn na ${CONFIG.HOST}:${tlsPort}`);
+    }
+
+    const shutdown = async (): Promise<boolean> => {
+        logger.info(`Vypínání serveru: ${connections.size} připojených klientů, čekám nejvýše ${CONFIG.SHUTDOWN_TIMEOUT} ms.`);
+        const closed = Promise.all(servers.map(server => new Promise<void>(resolve => server.close(() => resolve()))));
+
+        // Oznámení se zařadí za rozpracovaný příkaz, aby klient dostal nejdřív jeho odpověď.
+        // Na rozpracované příkazy se čeká nejvýše SHUTDOWN_TIMEOUT; další příkazy už se neprovedou.
+        for (const [socket, connection] of connections) {
+            connection.queue = connection.queue.then(() => {
+                if (!socket.destroyed) socket.write(`${new BankError('SERVER_STOPPING').toReply(connection.session.language)}\r\n`);
+            });
+        }
+
+        let drained = true;
+        try {
+            await withTimeout(Promise.all([...connections.values()].map(c => c.queue)), CONFIG.SHUTDOWN_TIMEOUT);
+        } catch {
+            drained = false;
+            logger.warn('Některé příkazy nestihly doběhnout před vypnutím.');
+        }
+
+        for (const socket of connections.keys()) socket.destroy();
+        await closed;
+
+        networkMonitor.stopMonitoring();
+        transfers.stop();
+        await scheduler.stop();
+        proxyEvents.off('failure', onProxyFailure);
+        if (admin) await admin.stop();
+        await store.close();
+
+        // Konec řetězce do aplikačního logu - zkrácení auditního logu se pozná jen podle kopie mimo něj
+        const head = audit.head();
+        logger.info(`Audit: poslední záznam ${head.seq}, hash ${head.hash}.`);
+
+        logger.info('Server zastaven.');
+        return drained;
+    };
+
+    return {
+        port,
+        tlsPort,
+        adminPort: admin ? admin.port() : null,
+        store,
+        reload() {
+            // Klíče měnitelné za běhu se projeví hned, ostatní až po restartu
+            try {
+                const { changed, needsRestart } = reloadConfig(CONFIG);
+                logger.level = CONFIG.LOG_LEVEL;
+                networkMonitor.setCheckInterval(CONFIG.NETWORK_CHECK_INTERVAL);
+                for (const socket of connections.keys()) socket.setTimeout(CONFIG.CLIENT_IDLE_TIMEOUT);
+
+                logger.info(changed.length > 0
+                    ? `Konfigurace znovu načtena, změněno: ${changed.join(', ')}`
+                    : 'Konfigurace znovu načtena beze změn.');
+                if (needsRestart.length > 0) {
+                    logger.warn(`Změna těchto klíčů se projeví až po restartu: ${needsRestart.join(', ')}`);
+                }
+            } catch (err: any) {
+                logger.error(`Konfiguraci se nepodařilo znovu načíst, zůstává původní. ${err.message}`);
+            }
+        },
+        stop() {
+            if (!stopping) stopping = shutdown();
+            return stopping;
+        }
+    };
+}
@@ -0,0 +1,69 @@
+import { Account } from './types.js';
+
+/**
+ * Účty v paměti podle čísla i se součty pro BA a BN, které se při každé změně upraví jen o rozdíl -
+ * dotaz na účet ani na součty tak nezávisí na počtu účtů.
+ */
+export class AccountIndex {
+    private accounts = new Map<string, Account>();
+    /** Počet účtů každého vlastníka (IP adresy); velikost mapy je počet klientů banky. */
+    private owners = new Map<string, number>();
+    private balanceTotal = 0n;
+
+    get size(): number {
+        return this.accounts.size;
+    }
+
+    /** Uložený účet; volající ho nesmí měnit (změna jde jen přes set). */
+    get(number: string): Account | undefined {
+        return this.accounts.get(number);
+    }
+
+    has(number: string): boolean {
+        return this.accounts.has(number);
+    }
+
+    values(): IterableIterator<Account> {
+        return this.accounts.values();
+    }
+
+    /** Přidá účet, nebo nahradí stávající se stejným číslem. */
+    set(account: Account): void {
+        this.delete(account.number);
+        this.accounts.set(account.number, { ...account });
+        this.owners.set(account.owner, (this.owners.get(account.owner) ?? 0) + 1);
+        this.balanceTotal += account.balance;
+    }
+
+    delete(number: string): boolean {
+        const account = this.accounts.get(number);
+        if (!account) return false;
+        this.accounts.delete(number);
+        const owned = this.owners.get(account.owner)! - 1;
+        if (owned > 0) this.owners.set(account.owner, owned);
+        else this.owners.delete(account.owner);
+        this.balanceTotal -= account.balance;
+        return true;
+    }
+
+    clear(): void {
+        this.accounts.clear();
+        this.owners.clear();
+        this.balanceTotal = 0n;
+    }
+
+    /** Součet zůstatků všech účtů (BA). */
+    total(): bigint {
+        return this.balanceTotal;
+    }
+
+    /** Počet různých vlastníků účtů (BN). */
+    clients(): number {
+        return this.owners.size;
+    }
+
+    /** Počet účtů vlastníka (MAX_ACCOUNTS_PER_IP). */
+    owned(owner: string): number {
+        return this.owners.get(owner) ?? 0;
+    }
+}
@@ -0,0 +1,224 @@
+import fs from 'node:fs/promises';
+import { watch, FSWatcher } from 'node:fs';
+import path from 'node:path';
+import { Logger } from 'winston';
+import { TransactionJournal } from '../TransactionJournal.js';
+import { AccountIndex } from './AccountIndex.js';
+import { Account, AccountStore, AccountSummary, HistoryEntry, generateAccountNumber, historyEntry, pageHistory } from './types.js';
+import { BankError } from '../errors.js';
+
+/**
+ * Rozloží název souboru účtu ve formátu <číslo>_<IP>.txt.
+ * Pro jiné soubory (dočasné soubory žurnálu apod.) vrací null.
+ */
+export function parseAccountFileName(fileName: string): { number: string; owner: string } | null {
+    if (!fileName.endsWith('.txt')) return null;
+    const parts = fileName.slice(0, -'.txt'.length).split('_');
+    if (parts.length < 2 || !parts[0]) return null;
+    return { number: parts[0], owner: parts[1] };
+}
+
+type AccountFile = Pick<Account, 'balance' | 'pinHash' | 'creditLimit'>;
+
+/**
+ * Obsah souboru účtu: zůstatek na prvním řádku (při čerpání úvěru záporný), hash PINu na druhém (jen pokud je PIN
+ * nastavený) a vlastní úvěrový limit na třetím (jen pokud ho účet má, druhý řádek pak může být prázdný).
+ * Soubory bez PINu a limitu tak zůstávají ve stejném formátu jako dřív.
+ */
+function formatAccountFile({ balance, pinHash, creditLimit }: AccountFile): string {
+    if (creditLimit !== undefined) return `${balance}\n${pinHash ?? ''}\n${creditLimit}`;
+    return pinHash ? `${balance}\n${pinHash}` : balance.toString();
+}
+
+function parseAccountFile(content: string): AccountFile {
+    const [balance, pinHash, creditLimit] = content.split('\n').map(line => line.trim());
+    return { balance: BigInt(balance), pinHash: pinHash || undefined, creditLimit: creditLimit ? BigInt(creditLimit) : undefined };
+}
+
+/** Řádek souboru historie: JSON s částkami jako řetězci (bigint). */
+function formatHistoryLine(entry: HistoryEntry): string {
+    return JSON.stringify({ ...entry, amount: entry.amount.toString(), balance: entry.balance.toString() }) + '\n';
+}
+
+function parseHistoryLine(line: string): HistoryEntry | null {
+    try {
+        const entry = JSON.parse(line);
+        return { ...entry, amount: BigInt(entry.amount), balance: BigInt(entry.balance) };
+    } catch {
+        // Useknutý poslední řádek po pádu
+        return null;
+    }
+}
+
+/**
+ * Původní úložiště: jeden soubor <číslo>_<IP>.txt se zůstatkem (a případně hashem PINu) na každý účet v ACCOUNTS_DIR.
+ * Všechny zápisy jdou přes TransactionJournal. Historie účtu je vedle v <číslo>_<IP>.history (řádek JSON na operaci),
+ * připisuje se až po potvrzení změny v žurnálu.
+ *
+ * Účty (vlastník, zůstatek, PIN) drží v AccountIndex, který se sestaví při startu a udržuje při každém zápisu,
+ * takže vyhledání účtu, BA ani BN nečtou adresář. Změny souborů zvenku (ruční úprava, smazání) zachytí fs.watch.
+ */
+export class FileAccountStore implements AccountStore {
+    private accountsDir: string;
+    private journal: TransactionJournal;
+    private logger?: Logger;
+    private index = new AccountIndex();
+    private watcher: FSWatcher | null = null;
+    /** Obnovy indexu ze změn na disku jdou za sebou, aby poslední přečtený stav byl i poslední zapsaný. */
+    private refreshQueue: Promise<void> = Promise.resolve();
+
+    constructor(accountsDir: string, journal: TransactionJournal, logger?: Logger) {
+        this.accountsDir = accountsDir;
+        this.journal = journal;
+        this.logger = logger;
+    }
+
+    async init(): Promise<void> {
+        await fs.mkdir(this.accountsDir, { recursive: true });
+        await this.journal.recover(this.accountsDir);
+
+        this.index.clear();
+        const files = (await fs.readdir(this.accountsDir)).filter(file => parseAccountFileName(file));
+        // Po dávkách, aby start se statisíci účtů neotevřel všechny soubory najednou
+        for (let i = 0; i < files.length; i += 100) {
+            await Promise.all(files.slice(i, i + 100).map(file => this.refresh(file)));
+        }
+
+        this.watcher = watch(this.accountsDir, (_event, file) => {
+            if (!file || !parseAccountFileName(file)) return;
+            this.refreshQueue = this.refreshQueue
+                .then(() => this.refresh(file))
+                .catch(err => {
+                    this.logger?.warn(`Soubor účtu ${file} se nepodařilo načíst: ${err.message}`);
+                });
+        });
+        this.watcher.on('error', err => this.logger?.warn(`Sledování adresáře účtů selhalo: ${err.message}`));
+    }
+
+    async close(): Promise<void> {
+        this.watcher?.close();
+        this.watcher = null;
+        await this.refreshQueue;
+    }
+
+    async find(number: string): Promise<Account | null> {
+        const account = this.index.get(number);
+        return account ? { ...account } : null;
+    }
+
+    async create(owner: string, pinHash?: string): Promise<Account> {
+        const number = generateAccountNumber(n => this.index.has(n));
+        const account: Account = { number, owner, balance: 0n, pinHash };
+
+        await this.journal.apply('AC', this.filePath(number, owner), null, formatAccountFile(account));
+        this.index.set(account);
+        // Přepíše případnou historii smazaného účtu se stejným jménem souboru
+        await fs.writeFile(this.historyPath(this.filePath(number, owner)), formatHistoryLine(historyEntry('AC', 0n, 0n)));
+        return { ...account };
+    }
+
+    async setBalance(number: string, balance: bigint, reason: string): Promise<void> {
+        const file = this.requireFile(number);
+        const current = await fs.readFile(file, 'utf8');
+        const stored = parseAccountFile(current);
+        await this.journal.apply(reason, file, current, formatAccountFile({ ...stored, balance }));
+        this.index.set({ ...this.index.get(number)!, ...stored, balance });
+        await fs.appendFile(this.historyPath(file), formatHistoryLine(historyEntry(reason, balance - stored.balance, balance)));
+    }
+
+    async setPin(number: string, pinHash: string): Promise<void> {
+        const file = this.requireFile(number);
+        const current = await fs.readFile(file, 'utf8');
+        const stored = parseAccountFile(current);
+        await this.journal.apply('AP', file, current, formatAccountFile({ ...stored, pinHash }));
+        this.index.set({ ...this.index.get(number)!, ...stored, pinHash });
+    }
+
+    async setCreditLimit(number: string, creditLimit: bigint | undefined): Promise<void> {
+        const file = this.requireFile(number);
+        const current = await fs.readFile(file, 'utf8');
+        const stored = parseAccountFile(current);
+        await this.journal.apply('CL', file, current, formatAccountFile({ ...stored, creditLimit }));
+        this.index.set({ ...this.index.get(number)!, ...stored, creditLimit });
+    }
+
+    async put(account: Account, history?: HistoryEntry[]): Promise<void> {
+        const { number, owner, balance } = account;
+        const existing = this.index.get(number);
+        if (existing && existing.owner !== owner) await this.remove(number);
+
+        const file = this.filePath(number, owner);
+        const current = existing?.owner === owner ? await fs.readFile(file, 'utf8') : null;
+        await this.journal.apply('RS', file, current, formatAccountFile(account));
+        this.index.set(account);
+        const entries = history ?? [historyEntry('RS', balance, balance)];
+        await fs.writeFile(this.historyPath(file), entries.map(formatHistoryLine).join(''));
+    }
+
+    async remove(number: string): Promise<void> {
+        const file = this.requireFile(number);
+        const current = await fs.readFile(file, 'utf8');
+        await this.journal.apply('AR', file, current, null);
+        this.index.delete(number);
+        await fs.rm(this.historyPath(file), { force: true });
+    }
+
+    async history(number: string, offset: number, limit: number): Promise<HistoryEntry[]> {
+        const file = this.requireFile(number);
+        let content = '';
+        try {
+            content = await fs.readFile(this.historyPath(file), 'utf8');
+        } catch (err: any) {
+            if (err.code !== 'ENOENT') throw err;
+        }
+        const entries = content.split('\n').filter(Boolean).map(parseHistoryLine).filter(e => e !== null);
+        return pageHistory(entries, offset, limit);
+    }
+
+    async list(): Promise<Account[]> {
+        return [...this.index.values()].map(a => ({ ...a }));
+    }
+
+    async summary(): Promise<AccountSummary> {
+        return { total: this.index.total(), clients: this.index.clients() };
+    }
+
+    async countOwned(owner: string): Promise<number> {
+        return this.index.owned(owner);
+    }
+
+    private filePath(number: string, owner: string): string {
+        return path.join(this.accountsDir, `${number}_${owner}.txt`);
+    }
+
+    private historyPath(accountFile: string): string {
+        return accountFile.replace(/\.txt$/, '.history');
+    }
+
+    private requireFile(number: string): string {
+        const account = this.index.get(number);
+        if (!account) throw new BankError('ACCOUNT_NOT_FOUND');
+        return this.filePath(number, account.owner);
+    }
+
+    /**
+     * Načte soubor účtu znovu do indexu; chybějící soubor účet z indexu odebere.
+     */
+    private async refresh(fileName: string): Promise<void> {
+        const { number, owner } = parseAccountFileName(fileName)!;
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(this.accountsDir, fileName), 'utf8');
+        } catch (err: any) {
+            if (err.code !== 'ENOENT') throw err;
+            // Účet mohl mezitím vzniknout pod jiným vlastníkem, ten se nemaže
+            if (this.index.get(number)?.owner === owner) this.index.delete(number);
+            return;
+        }
+        try {
+            this.index.set({ number, owner, ...parseAccountFile(content) });
+        } catch {
+            this.logger?.warn(`Soubor účtu ${fileName} má neplatný obsah, účet se nenačetl.`);
+        }
+    }
+}
@@ -0,0 +1,266 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { writeFileAtomic } from '../TransactionJournal.js';
+import { BankError } from '../errors.js';
+import { Account, HistoryEntry, generateAccountNumber, historyEntry } from './types.js';
+import { MemoryAccountStore } from './MemoryAccountStore.js';
+
+interface JsonStoreFile {
+    version: number;
+    /** Deník historie vedle souboru účtů a kolik bajtů z jeho začátku k tomuto stavu patří. */
+    history?: { file: string; size: number };
+    accounts: Record<string, { owner: string; balance: string; pin?: string; creditLimit?: string; history?: StoredHistoryEntry[] }>;
+}
+
+/** Položka historie v souboru - částky jako řetězce kvůli bigint. Soubory bez historie zůstávají platné. */
+interface StoredHistoryEntry {
+    time: string;
+    operation: string;
+    amount: string;
+    balance: string;
+}
+
+/** Řádek deníku historie: operace účtu, nebo reset - dosavadní historie účtu neplatí (smazaný či obnovený účet). */
+type HistoryLine = { account: string; reset?: boolean } & Partial<StoredHistoryEntry>;
+
+/** Změna jednoho účtu: jeho nový stav (null = smazaný) a operace, které se připíšou k historii (s reset místo ní). */
+interface Change {
+    number: string;
+    account: Account | null;
+    entries: HistoryEntry[];
+    reset?: boolean;
+}
+
+/** Verze 1 měla historii u každého účtu přímo v souboru; při načtení se převede do deníku. */
+const FORMAT_VERSION = 2;
+
+/**
+ * Všechny účty v jednom JSON souboru (STORAGE_FILE), historie v deníku vedle něj (`<STORAGE_FILE>.<id>.history`,
+ * jeden řádek na operaci). Změna se nejdřív připíše do deníku, pak se atomicky přepíše soubor účtů (přes dočasný
+ * soubor a rename), který určuje, kolik z deníku platí, a teprve potom se promítne do paměti. Po pádu je tak
+ * na disku vždy buď starý, nebo nový úplný stav a historie se kvůli jedné operaci nepřepisuje celá.
+ */
+export class JsonAccountStore extends MemoryAccountStore {
+    private file: string;
+    private historyPrefix: string;
+    /** Název deníku historie (ve složce souboru účtů) a jeho platná délka v bajtech. */
+    private historyFile: string | null = null;
+    private historySize = 0;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * @param historyPrefix začátek názvu deníku historie - obnova zálohy zapisuje soubor účtů pod dočasným názvem,
+     *                      ale deník pojmenuje už podle cílového
+     */
+    constructor(file: string, historyPrefix: string = path.basename(file)) {
+        super();
+        this.file = file;
+        this.historyPrefix = historyPrefix;
+    }
+
+    async init(): Promise<void> {
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.rm(`${this.file}.tmp`, { force: true });
+
+        let content: string;
+        try {
+            content = await fs.readFile(this.file, 'utf8');
+        } catch (err: any) {
+            if (err.code === 'ENOENT') return;
+            throw err;
+        }
+
+        const data: JsonStoreFile = JSON.parse(content);
+        if (data.version !== FORMAT_VERSION && data.version !== 1) {
+            throw new Error(`Nepodporovaná verze souboru účtů ${this.file}: ${data.version}`);
+        }
+        this.accounts.clear();
+        this.histories.clear();
+        for (const [number, { owner, balance, pin, creditLimit, history }] of Object.entries(data.accounts)) {
+            this.accounts.set({ number, owner, balance: BigInt(balance), pinHash: pin, creditLimit: creditLimit !== undefined ? BigInt(creditLimit) : undefined });
+            this.histories.set(number, (history ?? []).map(loadHistoryEntry));
+        }
+
+        if (data.version === 1) {
+            await this.rewriteHistory();
+            return;
+        }
+        this.historyFile = data.history.file;
+        this.historySize = data.history.size;
+        if (await this.readHistory()) await this.rewriteHistory();
+    }
+
+    async create(owner: string, pinHash?: string): Promise<Account> {
+        const { account } = await this.commit(() => {
+            const number = generateAccountNumber(n => this.accounts.has(n));
+            return { number, account: { number, owner, balance: 0n, pinHash }, entries: [historyEntry('AC', 0n, 0n)] };
+        });
+        return { ...account };
+    }
+
+    async setBalance(number: string, balance: bigint, reason: string): Promise<void> {
+        await this.commit(() => {
+            const account = this.existing(number);
+            return { number, account: { ...account, balance }, entries: [historyEntry(reason, balance - account.balance, balance)] };
+        });
+    }
+
+    async setPin(number: string, pinHash: string): Promise<void> {
+        await this.commit(() => ({ number, account: { ...this.existing(number), pinHash }, entries: [] }));
+    }
+
+    async setCreditLimit(number: string, creditLimit: bigint | undefined): Promise<void> {
+        await this.commit(() => ({ number, account: { ...this.existing(number), creditLimit }, entries: [] }));
+    }
+
+    async put(account: Account, history?: HistoryEntry[]): Promise<void> {
+        await this.commit(() => ({
+            number: account.number,
+            account: { ...account },
+            entries: history?.map(e => ({ ...e })) ?? [historyEntry('RS', account.balance, account.balance)],
+            reset: true
+        }));
+    }
+
+    async remove(number: string): Promise<void> {
+        await this.commit(() => {
+            this.existing(number);
+            return { number, account: null, entries: [], reset: true };
+        });
+    }
+
+    /** Počká na rozpracovaný zápis souboru. */
+    async close(): Promise<void> {
+        await this.writeQueue;
+    }
+
+    private existing(number: string): Account {
+        const account = this.accounts.get(number);
+        if (!account) throw new BankError('ACCOUNT_NOT_FOUND');
+        return account;
+    }
+
+    /**
+     * Uloží změnu a teprve potom ji promítne do paměti - když se zápis nepovede, v paměti i na disku zůstane
+     * původní stav. Změny jdou za sebou a prepare se volá až na řadě, takže vychází ze stavu po předchozí změně.
+     */
+    private commit(prepare: () => Change): Promise<Change> {
+        const result = this.writeQueue.then(async () => {
+            const change = prepare();
+            this.historyFile ??= this.newHistoryFile();
+            const lines = change.entries.map(entry => historyLine(change.number, entry));
+            if (change.reset) lines.unshift(JSON.stringify({ account: change.number, reset: true }) + '\n');
+            const appended = Buffer.from(lines.join(''));
+
+            // Zapisuje se od platného konce, případný zbytek po nepovedeném zápisu se tím přepíše
+            const handle = await fs.open(this.historyPath(), fs.constants.O_WRONLY | fs.constants.O_CREAT);
+            try {
+                await handle.write(appended, 0, appended.length, this.historySize);
+                await handle.sync();
+            } finally {
+                await handle.close();
+            }
+            const size = this.historySize + appended.length;
+            await writeFileAtomic(this.file, this.serialize(size, change));
+            this.historySize = size;
+
+            if (change.account) {
+                this.accounts.set(change.account);
+                const history = change.reset ? [] : this.histories.get(change.number) ?? [];
+                history.push(...change.entries);
+                this.histories.set(change.number, history);
+            } else {
+                this.accounts.delete(change.number);
+                this.histories.delete(change.number);
+            }
+            return change;
+        });
+        this.writeQueue = result.then(() => {}, () => {});
+        return result;
+    }
+
+    /** Obsah souboru účtů - stav v paměti, případně s ještě nepromítnutou změnou. */
+    private serialize(historySize: number, change?: Change): string {
+        const data: JsonStoreFile = { version: FORMAT_VERSION, history: { file: this.historyFile!, size: historySize }, accounts: {} };
+        for (const account of this.accounts.values()) {
+            if (account.number !== change?.number) data.accounts[account.number] = storeAccount(account);
+        }
+        if (change?.account) data.accounts[change.number] = storeAccount(change.account);
+        return JSON.stringify(data, null, 2);
+    }
+
+    /**
+     * Načte historie z platné části deníku; nedopsaný konec po pádu usekne. Vrací true, když deník obsahuje
+     * historie smazaných nebo přepsaných účtů a vyplatí se ho přepsat.
+     */
+    private async readHistory(): Promise<boolean> {
+        let content: Buffer;
+        try {
+            content = await fs.readFile(this.historyPath());
+        } catch (err: any) {
+            if (err.code === 'ENOENT' && this.historySize === 0) return false;
+            throw err;
+        }
+        if (content.length < this.historySize) {
+            throw new Error(`Deník historie ${this.historyFile} je kratší, než uvádí soubor účtů ${this.file}`);
+        }
+        if (content.length > this.historySize) await fs.truncate(this.historyPath(), this.historySize);
+
+        let stale = false;
+        for (const line of content.subarray(0, this.historySize).toString('utf8').split('\n')) {
+            if (!line) continue;
+            const { account, reset, ...entry }: HistoryLine = JSON.parse(line);
+            if (reset) {
+                this.histories.set(account, []);
+                stale = true;
+            } else if (this.accounts.has(account)) {
+                if (!this.histories.has(account)) this.histories.set(account, []);
+                this.histories.get(account)!.push(loadHistoryEntry(entry as StoredHistoryEntry));
+            }
+        }
+        for (const number of this.histories.keys()) {
+            if (!this.accounts.has(number)) this.histories.delete(number);
+        }
+        return stale;
+    }
+
+    /**
+     * Zapíše historie všech účtů do nového deníku, přepne na něj soubor účtů a starý deník smaže až potom -
+     * po pádu tak platí buď starý, nebo nový. Při převodu souboru verze 1 a úklidu deníku při startu.
+     */
+    private async rewriteHistory(): Promise<void> {
+        const previous = this.historyFile;
+        const content = [...this.histories].flatMap(([number, entries]) => entries.map(entry => historyLine(number, entry))).join('');
+        this.historyFile = this.newHistoryFile();
+        await writeFileAtomic(this.historyPath(), content);
+        this.historySize = Buffer.byteLength(content);
+        await writeFileAtomic(this.file, this.serialize(this.historySize));
+        if (previous) await fs.rm(path.join(path.dirname(this.file), previous), { force: true });
+    }
+
+    private newHistoryFile(): string {
+        return `${this.historyPrefix}.${crypto.randomBytes(4).toString('hex')}.history`;
+    }
+
+    private historyPath(): string {
+        return path.join(path.dirname(this.file), this.historyFile!);
+    }
+}
+
+function storeAccount({ owner, balance, pinHash, creditLimit }: Account): JsonStoreFile['accounts'][string] {
+    return {
+        owner,
+        balance: balance.toString(),
+        ...(pinHash ? { pin: pinHash } : {}),
+        ...(creditLimit !== undefined ? { creditLimit: creditLimit.toString() } : {})
+    };
+}
+
+function historyLine(account: string, entry: HistoryEntry): string {
+    return JSON.stringify({ account, ...entry, amount: entry.amount.toString(), balance: entry.balance.toString() }) + '\n';
+}
+
+function loadHistoryEntry(entry: StoredHistoryEntry): HistoryEntry {
+    return { ...entry, amount: BigInt(entry.amount), balance: BigInt(entry.balance) };
+}
@@ -0,0 +1,81 @@
+import { Account, AccountStore, AccountSummary, HistoryEntry, generateAccountNumber, historyEntry, pageHistory } from './types.js';
+import { BankError } from '../errors.js';
+import { AccountIndex } from './AccountIndex.js';
+
+/**
+ * Úložiště držené jen v paměti. Hodí se pro testy a krátké ukázky - po restartu jsou účty pryč.
+ */
+export class MemoryAccountStore implements AccountStore {
+    protected accounts = new AccountIndex();
+    /** Historie účtů od nejstarší operace. */
+    protected histories = new Map<string, HistoryEntry[]>();
+
+    constructor(initial: Account[] = []) {
+        for (const account of initial) this.accounts.set(account);
+    }
+
+    async init(): Promise<void> {}
+
+    async find(number: string): Promise<Account | null> {
+        const account = this.accounts.get(number);
+        return account ? { ...account } : null;
+    }
+
+    async create(owner: string, pinHash?: string): Promise<Account> {
+        const number = generateAccountNumber(n => this.accounts.has(n));
+        const account: Account = { number, owner, balance: 0n, pinHash };
+        this.accounts.set(account);
+        this.histories.set(number, [historyEntry('AC', 0n, 0n)]);
+        return { ...account };
+    }
+
+    async setBalance(number: string, balance: bigint, reason: string): Promise<void> {
+        const account = this.accounts.get(number);
+        if (!account) throw new BankError('ACCOUNT_NOT_FOUND');
+        const entry = historyEntry(reason, balance - account.balance, balance);
+        this.accounts.set({ ...account, balance });
+        if (!this.histories.has(number)) this.histories.set(number, []);
+        this.histories.get(number)!.push(entry);
+    }
+
+    async setPin(number: string, pinHash: string): Promise<void> {
+        const account = this.accounts.get(number);
+        if (!account) throw new BankError('ACCOUNT_NOT_FOUND');
+        this.accounts.set({ ...account, pinHash });
+    }
+
+    async setCreditLimit(number: string, creditLimit: bigint | undefined): Promise<void> {
+        const account = this.accounts.get(number);
+        if (!account) throw new BankError('ACCOUNT_NOT_FOUND');
+        this.accounts.set({ ...account, creditLimit });
+    }
+
+    async put(account: Account, history?: HistoryEntry[]): Promise<void> {
+        this.accounts.set(account);
+        this.histories.set(account.number, history?.map(e => ({ ...e })) ?? [historyEntry('RS', account.balance, account.balance)]);
+    }
+
+    async remove(number: string): Promise<void> {
+        if (!this.accounts.delete(number)) throw new BankError('ACCOUNT_NOT_FOUND');
+        this.histories.delete(number);
+    }
+
+    async history(number: string, offset: number, limit: number): Promise<HistoryEntry[]> {
+        if (!this.accounts.has(number)) throw new BankError('ACCOUNT_NOT_FOUND');
+        return pageHistory(this.histories.get(number) ?? [], offset, limit);
+    }
+
+    async list(): Promise<Account[]> {
+        return [...this.accounts.values()].map(a => ({ ...a }));
+    }
+
+    async summary(): Promise<AccountSummary> {
+        return { total: this.accounts.total(), clients: this.accounts.clients() };
+    }
+
+    async countOwned(owner: string): Promise<number> {
+        return this.accounts.owned(owner);
+    }
+
+    async close(): Promise<void> {}
+}
@@ -0,0 +1,35 @@
+import { Logger } from 'winston';
+import { TransactionJournal } from '../TransactionJournal.js';
+import { AppConfig } from '../config.js';
+import { AccountStore } from './types.js';
+import { FileAccountStore } from './FileAccountStore.js';
+import { MemoryAccountStore } from './MemoryAccountStore.js';
+import { JsonAccountStore } from './JsonAccountStore.js';
+
+export * from './types.js';
+export { FileAccountStore, parseAccountFileName } from './FileAccountStore.js';
+export { MemoryAccountStore } from './MemoryAccountStore.js';
+export { AccountIndex } from './AccountIndex.js';
+export * from './integrity.js';
+export { JsonAccountStore } from './JsonAccountStore.js';
+
+/**
+ * Vytvoří úložiště účtů podle STORAGE_TYPE v konfiguraci (file | memory | json).
+ */
+export function createAccountStore(CONFIG: Partial<AppConfig>, logger?: Logger): AccountStore {
+    const type = CONFIG.STORAGE_TYPE || 'file';
+    switch (type) {
+        case 'file':
+            return new FileAccountStore(
+                CONFIG.ACCOUNTS_DIR,
+                new TransactionJournal(CONFIG.JOURNAL_FILE || './data/journal.log', logger),
+                logger
+            );
+        case 'memory':
+            return new MemoryAccountStore();
+        case 'json':
+            return new JsonAccountStore(CONFIG.STORAGE_FILE || './data/accounts.json');
+        default:
+            throw new Error(`Neznámý typ úložiště STORAGE_TYPE: ${type}`);
+    }
+}
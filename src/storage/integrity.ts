@@ -0,0 +1,126 @@
+import fs from 'node:fs/promises';
+import net from 'node:net';
+import path from 'node:path';
+
+/** Jeden problém nalezený v ACCOUNTS_DIR. */
+export interface IntegrityProblem {
+    file: string;
+    /** Popis problému do zprávy a logu. */
+    reason: string;
+}
+
+export interface IntegrityReport {
+    dir: string;
+    /** Počet souborů účtů, které kontrolou prošly. */
+    accounts: number;
+    problems: IntegrityProblem[];
+    /** Soubory přesunuté do karantény (jen při kontrole s quarantineDir). */
+    quarantined: string[];
+}
+
+const ACCOUNT_FILE = /^(\d+)_([^_]+)\.txt$/;
+const MIN_NUMBER = 10000;
+const MAX_NUMBER = 99999;
+const PIN_HASH = /^scrypt\$[0-9a-f]+\$[0-9a-f]+$/;
+
+/**
+ * Chyba obsahu souboru účtu (zůstatek na prvním řádku, volitelný hash PINu na druhém a úvěrový limit na třetím), nebo null.
+ */
+function checkContent(content: string): string | null {
+    const lines = content.split('\n').map(line => line.trim());
+    if (lines.length > 3 && lines.slice(3).some(Boolean)) return 'přebývající řádky';
+    if (!/^-?\d+$/.test(lines[0])) return `neplatný zůstatek "${lines[0].slice(0, 40)}"`;
+    if (lines[1] && !PIN_HASH.test(lines[1])) return 'neplatný hash PINu';
+    if (lines[2] && !/^\d+$/.test(lines[2])) return `neplatný úvěrový limit "${lines[2].slice(0, 40)}"`;
+    return null;
+}
+
+/**
+ * Zkontroluje soubory účtů: název `<číslo>_<IP>.txt`, číslo v rozsahu 10000-99999, obsah souboru a čísla účtů
+ * použitá víc než jednou (pak není jasné, kterému vlastníkovi účet patří, a do karantény jdou všechny kopie).
+ * Historie bez účtu a cizí soubory se hlásí také. Dočasné soubory žurnálu (.tmp) kontrola přeskakuje, ty uklidí obnova.
+ * S quarantineDir se vadné soubory (i s historií účtu) přesunou tam, jinak se jen ohlásí.
+ */
+export async function checkAccountFiles(dir: string, quarantineDir?: string): Promise<IntegrityReport> {
+    const report: IntegrityReport = { dir, accounts: 0, problems: [], quarantined: [] };
+    let files: string[];
+    try {
+        files = (await fs.readdir(dir, { withFileTypes: true })).filter(entry => entry.isFile()).map(entry => entry.name).sort();
+    } catch (err: any) {
+        if (err.code === 'ENOENT') return report;
+        throw err;
+    }
+
+    const bad = new Map<string, string>();
+    const owners = new Map<string, string[]>();
+    for (const file of files) {
+        if (file.endsWith('.tmp') || file.endsWith('.history')) continue;
+        const match = file.match(ACCOUNT_FILE);
+        if (!match) {
+            bad.set(file, 'název neodpovídá tvaru <číslo>_<IP>.txt');
+            continue;
+        }
+        const [, number, owner] = match;
+        if (Number(number) < MIN_NUMBER || Number(number) > MAX_NUMBER) {
+            bad.set(file, `číslo účtu ${number} mimo rozsah ${MIN_NUMBER}-${MAX_NUMBER}`);
+            continue;
+        }
+        if (net.isIP(owner) === 0) {
+            bad.set(file, `vlastník ${owner} není IP adresa`);
+            continue;
+        }
+        const problem = checkContent(await fs.readFile(path.join(dir, file), 'utf8'));
+        if (problem) {
+            bad.set(file, problem);
+            continue;
+        }
+        owners.set(number, [...(owners.get(number) ?? []), file]);
+    }
+
+    for (const [number, copies] of owners) {
+        if (copies.length === 1) continue;
+        for (const file of copies) bad.set(file, `účet ${number} je v ${copies.length} souborech`);
+    }
+    const valid = new Set([...owners.values()].filter(copies => copies.length === 1).flat());
+    for (const file of files.filter(file => file.endsWith('.history'))) {
+        const account = file.replace(/\.history$/, '.txt');
+        if (!valid.has(account) && !bad.has(account)) bad.set(file, 'historie bez souboru účtu');
+    }
+
+    report.accounts = valid.size;
+    report.problems = [...bad].map(([file, reason]) => ({ file, reason })).sort((a, b) => a.file.localeCompare(b.file));
+    if (!quarantineDir || report.problems.length === 0) return report;
+
+    await fs.mkdir(quarantineDir, { recursive: true });
+    for (const { file } of report.problems) {
+        const moved = file.endsWith('.txt') ? [file, file.replace(/\.txt$/, '.history')] : [file];
+        for (const name of moved) {
+            try {
+                await fs.rename(path.join(dir, name), path.join(quarantineDir, name));
+                report.quarantined.push(name);
+            } catch (err: any) {
+                if (err.code !== 'ENOENT') throw err;
+            }
+        }
+    }
+    return report;
+}
+
+/** Textová zpráva o kontrole (soubor se zprávou i výstup kontroly z příkazové řádky). */
+export function formatIntegrityReport(report: IntegrityReport, time: Date = new Date()): string {
+    return [
+        `Kontrola ${report.dir} (${time.toISOString()}): ${report.accounts} platných účtů, ${report.problems.length} problémů.`,
+        ...report.problems.map(({ file, reason }) => `${file}: ${reason}`),
+        ...report.quarantined.map(file => `přesunuto do karantény: ${file}`)
+    ].join('\n') + '\n';
+}
+
+/**
+ * Zapíše zprávu do quarantineDir jako `report-<čas>.txt` a vrátí cestu k ní.
+ */
+export async function writeIntegrityReport(report: IntegrityReport, quarantineDir: string, time: Date = new Date()): Promise<string> {
+    await fs.mkdir(quarantineDir, { recursive: true });
+    const file = path.join(quarantineDir, `report-${time.toISOString().replace(/[:.]/g, '-')}.txt`);
+    await fs.writeFile(file, formatIntegrityReport(report, time));
+    return file;
+}
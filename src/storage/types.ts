@@ -0,0 +1,102 @@
+/**
+ * Jeden bankovní účet tak, jak ho vidí příkazy - bez ohledu na to, kde je uložený.
+ */
+export interface Account {
+    number: string;
+    owner: string;
+    /** Zůstatek; při čerpání úvěrového limitu záporný. */
+    balance: bigint;
+    /** Solený hash PINu (viz PinGuard), u starších účtů bez PINu chybí. */
+    pinHash?: string;
+    /** Vlastní úvěrový limit účtu (o kolik smí zůstatek klesnout pod nulu); bez něj platí CREDIT_LIMIT z konfigurace. */
+    creditLimit?: bigint;
+}
+
+/**
+ * Jedna operace v historii účtu (příkaz AH).
+ */
+export interface HistoryEntry {
+    /** Čas operace (ISO 8601). */
+    time: string;
+    /** Kód operace: AC (založení), AD, AW, AT, IN (úrok), FE (poplatek) nebo RS (obnova ze zálohy). */
+    operation: string;
+    /** Změna zůstatku, u výběru záporná. */
+    amount: bigint;
+    /** Zůstatek po operaci. */
+    balance: bigint;
+}
+
+/** Součty přes všechny účty banky (BA a BN). */
+export interface AccountSummary {
+    /** Součet zůstatků. */
+    total: bigint;
+    /** Počet různých vlastníků účtů. */
+    clients: number;
+}
+
+/**
+ * Úložiště účtů. Příkazy pracují jen s tímto rozhraním, konkrétní implementaci vybírá STORAGE_TYPE v app_config.json.
+ * Souběžný přístup k jednomu účtu řeší AccountLockManager, úložiště jen zaručuje, že každý zápis je úplný.
+ */
+export interface AccountStore {
+    /** Připraví úložiště (adresáře, načtení dat, obnova po pádu). */
+    init(): Promise<void>;
+    /** Vyhledá účet podle čísla, nebo vrátí null. */
+    find(number: string): Promise<Account | null>;
+    /** Založí nový účet s náhodným volným číslem a nulovým zůstatkem. */
+    create(owner: string, pinHash?: string): Promise<Account>;
+    /** Přepíše zůstatek existujícího účtu. reason je kód operace (AD, AW, ...) pro žurnál a historii účtu. */
+    setBalance(number: string, balance: bigint, reason: string): Promise<void>;
+    /** Nastaví nebo změní hash PINu existujícího účtu. */
+    setPin(number: string, pinHash: string): Promise<void>;
+    /** Nastaví vlastní úvěrový limit účtu; undefined vrátí účet k výchozímu limitu z konfigurace. */
+    setCreditLimit(number: string, creditLimit: bigint | undefined): Promise<void>;
+    /**
+     * Vloží účet se zadaným číslem, vlastníkem, zůstatkem a PINem (obnova ze zálohy). history (od nejstarší operace)
+     * nahradí historii účtu beze změny; bez ní historie začne znovu operací RS.
+     */
+    put(account: Account, history?: HistoryEntry[]): Promise<void>;
+    /** Smaže účet i s jeho historií. */
+    remove(number: string): Promise<void>;
+    /** Historie účtu od nejnovější operace; offset operací přeskočí, vrátí nejvýše limit. */
+    history(number: string, offset: number, limit: number): Promise<HistoryEntry[]>;
+    /** Vrátí všechny účty banky. */
+    list(): Promise<Account[]>;
+    /** Součty pro BA a BN bez procházení všech účtů. */
+    summary(): Promise<AccountSummary>;
+    /** Počet účtů vlastníka (IP adresy) bez procházení všech účtů. */
+    countOwned(owner: string): Promise<number>;
+    /** Ukončí sledování dat úložiště při vypnutí serveru. */
+    close(): Promise<void>;
+}
+
+/**
+ * Kolik lze z účtu vybrat: zůstatek plus úvěrový limit účtu (bez vlastního limitu defaultLimit), nejméně 0.
+ */
+export function availableBalance(account: Account, defaultLimit: bigint): bigint {
+    const available = account.balance + (account.creditLimit ?? defaultLimit);
+    return available > 0n ? available : 0n;
+}
+
+export function historyEntry(operation: string, amount: bigint, balance: bigint): HistoryEntry {
+    return { time: new Date().toISOString(), operation, amount, balance };
+}
+
+/**
+ * Stránka historie od nejnovější operace z historie seřazené od nejstarší.
+ */
+export function pageHistory(entries: HistoryEntry[], offset: number, limit: number): HistoryEntry[] {
+    const end = Math.max(0, entries.length - offset);
+    return entries.slice(Math.max(0, end - limit), end).reverse().map(e => ({ ...e }));
+}
+
+/**
+ * Vygeneruje náhodné pětimístné číslo účtu, které ještě není obsazené.
+ */
+export function generateAccountNumber(isTaken: (number: string) => boolean): string {
+    let number: string;
+    do {
+        number = (Math.floor(Math.random() * 90000) + 10000).toString();
+    } while (isTaken(number));
+    return number;
+}